@@ -5,7 +5,7 @@ import reactRefresh from 'eslint-plugin-react-refresh'
 import tseslint from 'typescript-eslint'
 
 export default tseslint.config(
-  { ignores: ['dist'] },
+  { ignores: ['dist', 'dist-cli'] },
   {
     extends: [js.configs.recommended, ...tseslint.configs.recommended],
     files: ['**/*.{ts,tsx}'],
@@ -25,4 +25,11 @@ export default tseslint.config(
       ],
     },
   },
+  {
+    // 命令行工具运行在 Node.js 中
+    files: ['src/cli/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 )
@@ -0,0 +1,204 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { evaluateCanvas, listKnownControls } from '@/hooks/eval-core/headlessCanvas';
+import type { CanvasEvalStoreState } from '@/hooks/eval-core/evalState';
+import { parseCanvasArchiveText, toCanvasUIData } from '@/services/canvas-archive';
+import { CanvasNodeKind, type CanvasUIData } from '@/types/canvas';
+
+/**
+ * 画布命令行：读取导出的 .json 存档，迁移到最新结构后在 Node.js 中计算全部节点，把输出写成 JSON。
+ *
+ *   pnpm canvas <存档.json> [--set 节点.控件=值]... [--select 节点[.输出]]... [--time 秒] [--out 文件]
+ *
+ * - 节点可以用节点名或节点 id 指定；
+ * - --set 的值按 JSON 解析（5、true、"abc"、[1,2]），解析失败时按字符串处理；控件须已记录在存档中或在代码中声明，否则报错；
+ * - --select 缺省时输出全部节点；只写节点名时输出该节点的全部输出；
+ * - 连接了 Desmos 预览的输出，其 Desmos 状态另列在 desmos 中，键为“节点.输出”；
+ * - 有节点出错时错误写入结果与标准错误，进程以 1 退出。
+ */
+
+const USAGE = `用法: pnpm canvas <存档.json> [选项]
+
+选项:
+  --set 节点.控件=值     覆盖控件值，可重复
+  --select 节点[.输出]   只输出指定节点或输出，可重复
+  --time 秒              node_time() 返回的时钟时间，默认 0
+  --out 文件             写入文件，缺省时写到标准输出
+  --help                 显示本帮助`;
+
+interface CanvasCliResult {
+  outputs: Record<string, Record<string, unknown>>;
+  desmos: Record<string, unknown>;
+  errors: Record<string, string[]>;
+}
+
+class CanvasCliError extends Error {}
+
+const getNodeLabel = (uiData: CanvasUIData, nodeId: string) => {
+  const node = uiData.nodes.get(nodeId);
+  const name = node?.type === CanvasNodeKind.TextNode || node?.type === CanvasNodeKind.LibraryNode
+    ? node.data.nodeName
+    : '';
+  return name || nodeId;
+};
+
+// 按节点名或 id 查找节点；节点名重复时要求改用 id
+const resolveNodeId = (uiData: CanvasUIData, reference: string) => {
+  if (uiData.nodes.has(reference)) return reference;
+  const matches = Array.from(uiData.nodes.keys()).filter((nodeId) => getNodeLabel(uiData, nodeId) === reference);
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    throw new CanvasCliError(`节点名 "${reference}" 不唯一（${matches.join('、')}），请改用节点 id`);
+  }
+  throw new CanvasCliError(`找不到节点 "${reference}"`);
+};
+
+// “节点.名称”按最后一个点拆分，节点名本身可以含点
+const splitReference = (reference: string): [string, string | undefined] => {
+  const index = reference.lastIndexOf('.');
+  return index > 0 ? [reference.slice(0, index), reference.slice(index + 1)] : [reference, undefined];
+};
+
+const parseValue = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const parseControlValues = (uiData: CanvasUIData, assignments: string[]) => {
+  const controlValues: Record<string, Record<string, unknown>> = {};
+  assignments.forEach((assignment) => {
+    const equalsIndex = assignment.indexOf('=');
+    const [nodeReference, controlName] = splitReference(equalsIndex > 0 ? assignment.slice(0, equalsIndex) : '');
+    if (equalsIndex <= 0 || !controlName) {
+      throw new CanvasCliError(`无法解析 --set ${assignment}，应为 节点.控件=值`);
+    }
+    const nodeId = resolveNodeId(uiData, nodeReference);
+    const node = uiData.nodes.get(nodeId);
+    if (node?.type !== CanvasNodeKind.TextNode) {
+      throw new CanvasCliError(`节点 "${nodeReference}" 不是文本节点，没有控件`);
+    }
+    // 拼错的控件名直接报错，而不是悄悄补上一个不存在的控件
+    const knownNames = listKnownControls(node.data.controls, node.data.code).map((control) => control.name);
+    if (!knownNames.includes(controlName)) {
+      throw new CanvasCliError(`节点 "${nodeReference}" 没有控件 "${controlName}"，已有控件：${knownNames.join('、') || '（无）'}`);
+    }
+    controlValues[nodeId] = { ...controlValues[nodeId], [controlName]: parseValue(assignment.slice(equalsIndex + 1)) };
+  });
+  return controlValues;
+};
+
+// 节点 id -> 选中的输出名；null 表示该节点的全部输出
+const parseSelection = (uiData: CanvasUIData, selections: string[]) => {
+  const selected = new Map<string, Set<string> | null>();
+  selections.forEach((selection) => {
+    // 先按完整节点名匹配，再尝试“节点.输出”
+    const [nodeReference, outputName] = uiData.nodes.has(selection)
+      || Array.from(uiData.nodes.keys()).some((nodeId) => getNodeLabel(uiData, nodeId) === selection)
+      ? [selection, undefined]
+      : splitReference(selection);
+    const nodeId = resolveNodeId(uiData, nodeReference);
+    if (!outputName) {
+      selected.set(nodeId, null);
+      return;
+    }
+    const outputs = selected.get(nodeId);
+    if (outputs === null) return;
+    selected.set(nodeId, new Set([...(outputs ?? []), outputName]));
+  });
+  return selected;
+};
+
+const collectResult = (
+  uiData: CanvasUIData,
+  state: CanvasEvalStoreState,
+  selected: Map<string, Set<string> | null>,
+): CanvasCliResult => {
+  const isSelected = (nodeId: string, outputName: string) => {
+    if (selected.size === 0) return true;
+    const outputs = selected.get(nodeId);
+    return outputs === null || Boolean(outputs?.has(outputName));
+  };
+
+  const result: CanvasCliResult = { outputs: {}, desmos: {}, errors: {} };
+  Object.entries(state.nodes).forEach(([nodeId, node]) => {
+    const label = getNodeLabel(uiData, nodeId);
+    if (node.errors.length > 0) {
+      result.errors[label] = node.errors.map((error) => error.message);
+    }
+    if (node.type !== CanvasNodeKind.TextNode) return;
+    const outputs = Object.fromEntries(
+      Object.entries(node.outputs).filter(([outputName]) => isSelected(nodeId, outputName)),
+    );
+    if (Object.keys(outputs).length > 0) result.outputs[label] = outputs;
+  });
+
+  // 预览节点的输出即源节点对应输出的 Desmos 状态
+  Object.entries(state.DPIOs.incomingByTarget).forEach(([previewId, { source, sourceOutputName }]) => {
+    if (!isSelected(source, sourceOutputName)) return;
+    const desmosState = state.nodes[previewId]?.outputs.desmosState;
+    if (desmosState !== undefined) {
+      result.desmos[`${getNodeLabel(uiData, source)}.${sourceOutputName}`] = desmosState;
+    }
+  });
+
+  return result;
+};
+
+const run = async (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      set: { type: 'string', multiple: true, default: [] },
+      select: { type: 'string', multiple: true, default: [] },
+      time: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const time = values.time === undefined ? 0 : Number(values.time);
+  if (!Number.isFinite(time)) throw new CanvasCliError(`无效的时钟时间：${values.time}`);
+
+  const archiveText = await readFile(positionals[0], 'utf8').catch((error: NodeJS.ErrnoException) => {
+    throw new CanvasCliError(`无法读取 ${positionals[0]}：${error.code ?? error.message}`);
+  });
+  const archiveState = parseCanvasArchiveText(archiveText);
+  if (!archiveState) throw new CanvasCliError(`${positionals[0]} 不是画布存档（缺少 version 或 state）`);
+  const uiData = toCanvasUIData(archiveState);
+
+  const state = await evaluateCanvas(uiData, {
+    time,
+    controlValues: parseControlValues(uiData, values.set),
+  });
+  const result = collectResult(uiData, state, parseSelection(uiData, values.select));
+
+  const text = `${JSON.stringify(result, null, 2)}\n`;
+  if (values.out) {
+    await writeFile(values.out, text);
+  } else {
+    process.stdout.write(text);
+  }
+
+  Object.entries(result.errors).forEach(([label, messages]) => {
+    messages.forEach((message) => console.error(`[${label}] ${message}`));
+  });
+  return Object.keys(result.errors).length > 0 ? 1 : 0;
+};
+
+// 节点代码可能留下未清理的定时器，结果写出后直接退出
+run(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof CanvasCliError || error instanceof SyntaxError ? error.message : error);
+    process.exit(1);
+  },
+);
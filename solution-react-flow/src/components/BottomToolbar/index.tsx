@@ -1,6 +1,7 @@
 import React from 'react';
 import './styles.css';
 import { useToolStore } from '@/store/toolStore';
+import { useSettingsStore } from '@/store/settingsStore';
 
 interface BottomToolbarProps {
   onSettingsClick: () => void;
@@ -8,6 +9,10 @@ interface BottomToolbarProps {
   onImportReplace?: () => void;
   onImportAdd?: () => void;
   onReset?: () => void;
+  onStopAll?: () => void;
+  onProfilerClick?: () => void;
+  onLibraryClick?: () => void;
+  onHistoryClick?: () => void;
 }
 
 const BottomToolbar: React.FC<BottomToolbarProps> = ({ 
@@ -15,11 +20,19 @@ const BottomToolbar: React.FC<BottomToolbarProps> = ({
   onExport, 
   onImportReplace, 
   onImportAdd,
-  onReset
+  onReset,
+  onStopAll,
+  onProfilerClick,
+  onLibraryClick,
+  onHistoryClick
 }) => {
   const { activeTool, setActiveTool, connectionStartNode, setConnectionStartNode } = useToolStore();
+  const showInferredEdges = useSettingsStore((state) => state.showInferredEdges);
+  const toggleInferredEdges = useSettingsStore((state) => state.toggleInferredEdges);
+  const isClockBarOpen = useSettingsStore((state) => state.isClockBarOpen);
+  const toggleClockBar = useSettingsStore((state) => state.toggleClockBar);
 
-  const handleModeChange = (mode: 'select' | 'connect') => {
+  const handleModeChange = (mode: 'select' | 'library' | 'connect') => {
     setActiveTool(mode);
     if (mode !== 'connect') {
       // 切换到其他模式时清除连接状态
@@ -41,6 +54,16 @@ const BottomToolbar: React.FC<BottomToolbarProps> = ({
           </svg>
           <span>常规</span>
         </button>
+        <button
+          className={`mode-button ${activeTool === 'library' ? 'active' : ''}`}
+          onClick={() => handleModeChange('library')}
+          title="新建共享库：点击画布空白处放置 (L)"
+        >
+          <svg viewBox="0 0 24 24" width="16" height="16">
+            <path fill="currentColor" d="M19,2L14,6.5V17.5L19,13V2M6.5,5C4.55,5 2.45,5.4 1,6.5V21.16C1,21.41 1.25,21.66 1.5,21.66C1.6,21.66 1.65,21.59 1.75,21.59C3.1,20.94 5.05,20.5 6.5,20.5C8.45,20.5 10.55,20.9 12,22C13.35,21.15 15.8,20.5 17.5,20.5C19.15,20.5 20.85,20.81 22.25,21.56C22.35,21.61 22.4,21.59 22.5,21.59C22.75,21.59 23,21.34 23,21.09V6.5C22.4,6.05 21.75,5.75 21,5.5V19C19.9,18.65 18.7,18.5 17.5,18.5C15.8,18.5 13.35,19.15 12,20V6.5C10.55,5.4 8.45,5 6.5,5Z" />
+          </svg>
+          <span>共享库</span>
+        </button>
         <button
           className={`mode-button ${activeTool === 'connect' ? 'active' : ''} ${connectionStartNode ? 'connecting' : ''}`}
           onClick={() => handleModeChange('connect')}
@@ -116,10 +139,73 @@ const BottomToolbar: React.FC<BottomToolbarProps> = ({
           </svg>
           <span>重置</span>
         </button>
+        {/* 停止按钮，中止当前正在运行的计算 */}
+        <button
+          className="utility-button"
+          onClick={onStopAll}
+          title="停止当前计算"
+        >
+          <svg viewBox="0 0 24 24" width="16" height="16">
+            <path fill="currentColor" d="M18,18H6V6H18V18Z" />
+          </svg>
+          <span>停止</span>
+        </button>
+        {/* 推断连线开关，显示/隐藏全局语义下自动推断出的依赖 */}
+        <button
+          className={`utility-button ${showInferredEdges ? 'active' : ''}`}
+          onClick={toggleInferredEdges}
+          title={showInferredEdges ? '隐藏推断连线' : '显示推断连线'}
+        >
+          <svg viewBox="0 0 24 24" width="16" height="16">
+            <path fill="currentColor" d="M3,11H7V13H3V11M9,11H13V13H9V11M15,11H19V13H15V11M19,8L23,12L19,16V8Z" />
+          </svg>
+          <span>推断</span>
+        </button>
+        {/* 时钟开关，显示/隐藏驱动 node_time() 的时钟控制条 */}
+        <button
+          className={`utility-button ${isClockBarOpen ? 'active' : ''}`}
+          onClick={toggleClockBar}
+          title={isClockBarOpen ? '隐藏时钟' : '显示时钟'}
+        >
+          <svg viewBox="0 0 24 24" width="16" height="16">
+            <path fill="currentColor" d="M12,20A8,8 0 0,0 20,12A8,8 0 0,0 12,4A8,8 0 0,0 4,12A8,8 0 0,0 12,20M12,2A10,10 0 0,1 22,12A10,10 0 0,1 12,22C6.47,22 2,17.5 2,12A10,10 0 0,1 12,2M12.5,7V12.25L17,14.92L16.25,16.15L11,13V7H12.5Z" />
+          </svg>
+          <span>时钟</span>
+        </button>
       </div>
 
-      {/* 右侧设置按钮 */}
+      {/* 右侧共享库、历史、性能与设置按钮 */}
       <div className="settings-section">
+        <button
+          className="settings-button"
+          onClick={onLibraryClick}
+          title="共享库"
+        >
+          <svg viewBox="0 0 24 24" width="16" height="16">
+            <path fill="currentColor" d="M19,2L14,6.5V17.5L19,13V2M6.5,5C4.55,5 2.45,5.4 1,6.5V21.16C1,21.41 1.25,21.66 1.5,21.66C1.6,21.66 1.65,21.59 1.75,21.59C3.1,20.94 5.05,20.5 6.5,20.5C8.45,20.5 10.55,20.9 12,22C13.35,21.15 15.8,20.5 17.5,20.5C19.15,20.5 20.85,20.81 22.25,21.56C22.35,21.61 22.4,21.59 22.5,21.59C22.75,21.59 23,21.34 23,21.09V6.5C22.4,6.05 21.75,5.75 21,5.5V19C19.9,18.65 18.7,18.5 17.5,18.5C15.8,18.5 13.35,19.15 12,20V6.5C10.55,5.4 8.45,5 6.5,5Z" />
+          </svg>
+          <span>共享库</span>
+        </button>
+        <button
+          className="settings-button"
+          onClick={onHistoryClick}
+          title="计算历史"
+        >
+          <svg viewBox="0 0 24 24" width="16" height="16">
+            <path fill="currentColor" d="M13.5,8H12V13L16.28,15.54L17,14.33L13.5,12.25V8M13,3A9,9 0 0,0 4,12H1L4.96,16.03L9,12H6A7,7 0 0,1 13,5A7,7 0 0,1 20,12A7,7 0 0,1 13,19C11.07,19 9.32,18.21 8.06,16.94L6.64,18.36C8.27,20 10.5,21 13,21A9,9 0 0,0 22,12A9,9 0 0,0 13,3" />
+          </svg>
+          <span>历史</span>
+        </button>
+        <button
+          className="settings-button"
+          onClick={onProfilerClick}
+          title="性能"
+        >
+          <svg viewBox="0 0 24 24" width="16" height="16">
+            <path fill="currentColor" d="M12,20A7,7 0 0,1 5,13A7,7 0 0,1 12,6A7,7 0 0,1 19,13A7,7 0 0,1 12,20M19.03,7.39L20.45,5.97C20,5.46 19.55,5 19.04,4.56L17.62,6C16.07,4.74 14.12,4 12,4A9,9 0 0,0 3,13A9,9 0 0,0 12,22C17,22 21,17.97 21,13C21,10.88 20.26,8.93 19.03,7.39M11,14H13V8H11M15,1H9V3H15V1Z" />
+          </svg>
+          <span>性能</span>
+        </button>
         <button
           className="settings-button"
           onClick={onSettingsClick}
@@ -11,11 +11,16 @@ import {
   useReactFlow,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
-import React, { useCallback, useEffect } from 'react';
+import React, { useCallback, useEffect, useMemo } from 'react';
 
 import BottomToolbar from '@/components/BottomToolbar';
-import FloatingEdge from '@/components/CustomEdge';
+import ClockBar from '@/components/ClockBar';
+import FloatingEdge, { InferredEdge, type InferredEdgeFlowData } from '@/components/CustomEdge';
 import DesmosPreviewNode from '@/components/DesmosPreviewNode';
+import LibraryNode from '@/components/LibraryNode';
+import LibraryPanel from '@/components/LibraryPanel';
+import ProfilerPanel from '@/components/ProfilerPanel';
+import HistoryPanel from '@/components/HistoryPanel';
 import SettingsPanel from '@/components/SettingsPanel';
 import TextNode from '@/components/TextNode';
 import Toolbar from '@/components/Toolbar';
@@ -25,6 +30,7 @@ import { useCanvasEval } from '@/hooks/useCanvasEval';
 import { useCanvasStatePersistence } from '@/hooks/useCanvasStatePersistence';
 import { useCanvasData } from '@/hooks/useCanvasData';
 import { parseCanvasArchiveText, serializeCanvasArchive } from '@/services/canvas-archive';
+import { NODE_MODULE_PREFIX } from '@/services/nodeModules';
 import { useTheme } from '@/hooks/useTheme';
 import { useSettingsStore } from '@/store/settingsStore';
 import { useToolStore } from '@/store/toolStore';
@@ -36,13 +42,18 @@ import './styles.css';
 // 注册自定义节点类型
 const nodeTypes: NodeTypes = {
   textNode: TextNode,
+  libraryNode: LibraryNode,
   desmosPreviewNode: DesmosPreviewNode,
 };
 
+// 画布上实际渲染的边：UI 数据中的边 + 只读的推断连线
+type DisplayEdgeFlowData = CanvasEdgeFlowData | InferredEdgeFlowData;
+
 // 注册自定义边类型
 const edgeTypes: EdgeTypes = {
   custom: FloatingEdge,
   desmosPreviewEdge: FloatingEdge,
+  inferredEdge: InferredEdge,
 };
 
 const Canvas: React.FC = () => {
@@ -66,10 +77,57 @@ const Canvas: React.FC = () => {
     };
   }, [canvasDataApi, evalApi]);
 
+  // Ctrl+S 派发的 save-all-changes：接受所有节点的代码草稿并重新计算
+  useEffect(() => {
+    const handleSaveAllChanges = () => {
+      void evalApi.manual.commitDrafts();
+    };
+    document.addEventListener('save-all-changes', handleSaveAllChanges);
+    return () => document.removeEventListener('save-all-changes', handleSaveAllChanges);
+  }, [evalApi]);
+
   const flowNodes = canvasDataApi.readFlow.useFlowData((data) => data.nodes);
   const flowEdges = canvasDataApi.readFlow.useFlowData((data) => data.edges);
   const viewport = canvasDataApi.readFlow.useFlowData((data) => data.viewport);
 
+  // 全局语义下推断出的依赖（含模块导入），作为只读的“推断连线”叠加显示（已有显式连线的节点对不再重复绘制）
+  const globalIOs = evalApi.read.useGlobalIOs();
+  const showInferredEdges = useSettingsStore((state) => state.showInferredEdges);
+  const displayEdges = useMemo<DisplayEdgeFlowData[]>(() => {
+    if (!showInferredEdges) return flowEdges;
+
+    const explicitPairs = new Set(flowEdges.map((edge) => `${edge.source}->${edge.target}`));
+    const inferredByPair = new Map<string, InferredEdgeFlowData>();
+    // 模块节点的 import 同样以推断连线显示，标签为导入路径
+    const moduleImportsByTarget = Object.entries(globalIOs.modulesByTarget).map(([target, modules]) => [
+      target,
+      Object.fromEntries(Object.entries(modules).map(([name, source]) => [`${NODE_MODULE_PREFIX}${name}`, source])),
+    ] as const);
+    [...Object.entries(globalIOs.importsByTarget), ...moduleImportsByTarget].forEach(([target, imports]) => {
+      Object.entries(imports).forEach(([name, source]) => {
+        const pairKey = `${source}->${target}`;
+        if (explicitPairs.has(pairKey)) return;
+        const existing = inferredByPair.get(pairKey);
+        if (existing) {
+          existing.data!.names.push(name);
+          return;
+        }
+        inferredByPair.set(pairKey, {
+          id: `inferred:${pairKey}`,
+          source,
+          target,
+          type: 'inferredEdge',
+          data: { names: [name] },
+          selectable: false,
+          deletable: false,
+          focusable: false,
+        });
+      });
+    });
+
+    return [...flowEdges, ...inferredByPair.values()];
+  }, [flowEdges, globalIOs, showInferredEdges]);
+
   // 当前活动工具（全局）
   const activeTool = useToolStore((state) => state.activeTool);
   const setActiveTool = useToolStore((state) => state.setActiveTool);
@@ -81,6 +139,18 @@ const Canvas: React.FC = () => {
   const toggleSettingsPanel = useSettingsStore((state) => state.toggleSettingsPanel);
   const closeSettingsPanel = useSettingsStore((state) => state.closeSettingsPanel);
 
+  // 性能面板状态
+  const isProfilerPanelOpen = useSettingsStore((state) => state.isProfilerPanelOpen);
+  const toggleProfilerPanel = useSettingsStore((state) => state.toggleProfilerPanel);
+  const closeProfilerPanel = useSettingsStore((state) => state.closeProfilerPanel);
+  const isLibraryPanelOpen = useSettingsStore((state) => state.isLibraryPanelOpen);
+  const toggleLibraryPanel = useSettingsStore((state) => state.toggleLibraryPanel);
+  const closeLibraryPanel = useSettingsStore((state) => state.closeLibraryPanel);
+  const isClockBarOpen = useSettingsStore((state) => state.isClockBarOpen);
+  const isHistoryPanelOpen = useSettingsStore((state) => state.isHistoryPanelOpen);
+  const toggleHistoryPanel = useSettingsStore((state) => state.toggleHistoryPanel);
+  const closeHistoryPanel = useSettingsStore((state) => state.closeHistoryPanel);
+
   // ReactFlow 实例引用
   const { screenToFlowPosition, setViewport: setFlowViewport, getViewport } = useReactFlow();
 
@@ -95,7 +165,7 @@ const Canvas: React.FC = () => {
   useInertialPan({ setViewport: setFlowViewport, getViewport });
 
   // onInit 时主动推送一次视角，避免首次渲染时闪烁
-  const handleInit = useCallback((reactFlowInstance: ReactFlowInstance<CanvasNodeFlowData, CanvasEdgeFlowData>) => {
+  const handleInit = useCallback((reactFlowInstance: ReactFlowInstance<CanvasNodeFlowData, DisplayEdgeFlowData>) => {
     if (!viewport) return;
     reactFlowInstance.setViewport(viewport);
   }, [viewport]);
@@ -132,6 +202,10 @@ const Canvas: React.FC = () => {
         setActiveTool('text');
         setConnectionStartNode(null); // 清除连接状态
         e.preventDefault();
+      } else if (e.key === 'l' || e.key === 'L') {
+        setActiveTool('library');
+        setConnectionStartNode(null); // 清除连接状态
+        e.preventDefault();
       } else if (e.key === 'c' || e.key === 'C') {
         // C键切换连接模式
         if (activeTool === 'connect') {
@@ -190,6 +264,17 @@ const Canvas: React.FC = () => {
       setActiveTool('select'); // 创建后切回选择模式
     }
 
+    if (activeTool === 'library') {
+      const position = screenToFlowPosition({ x: event.clientX, y: event.clientY });
+      canvasDataApi.graph.createLibraryNode({
+        position,
+        data: {
+          width: 400,
+        },
+      });
+      setActiveTool('select');
+    }
+
     // 双击检测逻辑（简单实现）
     if (activeTool === 'select' && event.detail === 2) {
       const position = screenToFlowPosition({ x: event.clientX, y: event.clientY });
@@ -317,6 +402,9 @@ const Canvas: React.FC = () => {
                   // v9 持久化层使用 Record，合并时按 id 覆盖。
                   nodes: { ...exported.uiData.nodes, ...incomingUINodes },
                   edges: { ...exported.uiData.edges, ...incomingUIEdges },
+                  // 添加节点不改变当前画布的随机设置与计算模式
+                  random: exported.uiData.random,
+                  evalMode: exported.uiData.evalMode,
                 },
                 flowData: {
                   nodes: [...exported.flowData.nodes, ...incomingFlowNodes],
@@ -363,7 +451,7 @@ const Canvas: React.FC = () => {
           {isHydrated ? (
           <ReactFlow
             nodes={flowNodes}
-            edges={flowEdges}
+            edges={displayEdges}
             onNodesChange={(changes) => canvasDataApi.writeFlow.handleFlowNodesChange(changes)}
             onEdgesChange={(changes) => canvasDataApi.writeFlow.handleFlowEdgesChange(changes)}
             onConnect={onConnect}
@@ -423,13 +511,38 @@ const Canvas: React.FC = () => {
             onImportReplace={handleImportReplace}
             onImportAdd={handleImportAdd}
             onReset={handleReset}
+            onStopAll={evalApi.manual.stopAll}
+            onProfilerClick={toggleProfilerPanel}
+            onLibraryClick={toggleLibraryPanel}
+            onHistoryClick={toggleHistoryPanel}
           />
 
+          {/* 时钟控制条 */}
+          <ClockBar isOpen={isClockBarOpen} />
+
           {/* 设置面板 */}
           <SettingsPanel
             isOpen={isSettingsPanelOpen}
             onClose={closeSettingsPanel}
           />
+
+          {/* 性能面板 */}
+          <ProfilerPanel
+            isOpen={isProfilerPanelOpen}
+            onClose={closeProfilerPanel}
+          />
+
+          {/* 计算历史面板 */}
+          <HistoryPanel
+            isOpen={isHistoryPanelOpen}
+            onClose={closeHistoryPanel}
+          />
+
+          {/* 共享库面板 */}
+          <LibraryPanel
+            isOpen={isLibraryPanelOpen}
+            onClose={closeLibraryPanel}
+          />
         </div>
       </CanvasEvalProvider>
     </CanvasDataProvider>
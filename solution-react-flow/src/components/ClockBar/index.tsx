@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import './styles.css';
+import { useCanvasEvalApi } from '@/contexts/CanvasEvalContext';
+import { MAX_CLOCK_FPS } from '@/hooks/eval-core/evalClock';
+
+interface ClockBarProps {
+  isOpen: boolean;
+}
+
+// 输入框中的数字：空字符串视为未设置
+const parseOptionalNumber = (text: string) => {
+  if (!text.trim()) return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * 时钟控制条：
+ * - 播放/暂停、单步、重置画布时钟，节点代码通过 node_time() 读取当前时间；
+ * - 设置目标帧率与循环区间（终点留空表示不循环）；
+ * - 显示当前帧与因上一帧未算完而丢弃的帧数。
+ */
+const ClockBar: React.FC<ClockBarProps> = ({ isOpen }) => {
+  const evalApi = useCanvasEvalApi();
+  const isPlaying = evalApi.read.useClock((clock) => clock.isPlaying);
+  const time = evalApi.read.useClock((clock) => clock.time);
+  const frame = evalApi.read.useClock((clock) => clock.frame);
+  const fps = evalApi.read.useClock((clock) => clock.fps);
+  const loopStart = evalApi.read.useClock((clock) => clock.loopStart);
+  const loopEnd = evalApi.read.useClock((clock) => clock.loopEnd);
+  const droppedFrames = evalApi.read.useClock((clock) => clock.droppedFrames);
+
+  // 循环区间在失焦或回车时才提交，避免输入到一半就改写时钟
+  const [loopStartText, setLoopStartText] = useState(String(loopStart));
+  const [loopEndText, setLoopEndText] = useState(loopEnd === null ? '' : String(loopEnd));
+
+  useEffect(() => {
+    setLoopStartText(String(loopStart));
+    setLoopEndText(loopEnd === null ? '' : String(loopEnd));
+  }, [loopStart, loopEnd]);
+
+  const submitLoop = () => {
+    evalApi.manual.setClockLoop(parseOptionalNumber(loopStartText) ?? 0, parseOptionalNumber(loopEndText));
+  };
+
+  const handleLoopKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter') submitLoop();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="clock-bar nodrag">
+      <button
+        className="clock-button"
+        onClick={isPlaying ? evalApi.manual.pauseClock : evalApi.manual.playClock}
+        title={isPlaying ? '暂停' : '播放'}
+      >
+        <svg viewBox="0 0 24 24" width="16" height="16">
+          {isPlaying ? (
+            <path fill="currentColor" d="M14,19H18V5H14M6,19H10V5H6V19Z" />
+          ) : (
+            <path fill="currentColor" d="M8,5.14V19.14L19,12.14L8,5.14Z" />
+          )}
+        </svg>
+      </button>
+      <button className="clock-button" onClick={() => void evalApi.manual.stepClock()} title="单步（推进一帧）">
+        <svg viewBox="0 0 24 24" width="16" height="16">
+          <path fill="currentColor" d="M5,5V19L16,12M16,5V19H19V5" />
+        </svg>
+      </button>
+      <button className="clock-button" onClick={() => void evalApi.manual.resetClock()} title="重置到循环起点">
+        <svg viewBox="0 0 24 24" width="16" height="16">
+          <path fill="currentColor" d="M19,5V19L8,12M8,5V19H5V5" />
+        </svg>
+      </button>
+
+      <span className="clock-time" title={`第 ${frame} 帧`}>{time.toFixed(2)}s</span>
+
+      <label className="clock-field" title="目标帧率">
+        FPS
+        <input
+          type="number"
+          min={1}
+          max={MAX_CLOCK_FPS}
+          value={fps}
+          onChange={(event) => evalApi.manual.setClockFps(Number(event.target.value))}
+        />
+      </label>
+
+      <label className="clock-field" title="循环区间（秒），终点留空表示不循环">
+        循环
+        <input
+          type="number"
+          step="any"
+          value={loopStartText}
+          onChange={(event) => setLoopStartText(event.target.value)}
+          onBlur={submitLoop}
+          onKeyDown={handleLoopKeyDown}
+        />
+        ~
+        <input
+          type="number"
+          step="any"
+          placeholder="∞"
+          value={loopEndText}
+          onChange={(event) => setLoopEndText(event.target.value)}
+          onBlur={submitLoop}
+          onKeyDown={handleLoopKeyDown}
+        />
+      </label>
+
+      {droppedFrames > 0 && (
+        <span className="clock-dropped" title="上一帧尚未算完时到来的帧会被丢弃，时间不推进">
+          丢帧 {droppedFrames}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ClockBar;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { useCanvasDataApi } from '@/contexts/CanvasDataContext';
+import { useCanvasEvalApi, useNodeEval } from '@/contexts/CanvasEvalContext';
+import { CanvasEdgeKind } from '@/types/canvas';
+import './styles.css';
+
+interface PortMappingEditorProps {
+  edgeId: string;
+  source: string;
+}
+
+interface PortMappingRowProps {
+  outputName: string;
+  inputName: string | undefined;
+  onChange: (outputName: string, inputName: string | undefined) => void;
+}
+
+// 单个输出的映射行：勾选表示传入目标节点，输入框为目标节点中的输入名（失焦/回车时提交）
+const PortMappingRow: React.FC<PortMappingRowProps> = ({ outputName, inputName, onChange }) => {
+  const [draft, setDraft] = useState(inputName ?? outputName);
+
+  useEffect(() => {
+    setDraft(inputName ?? outputName);
+  }, [inputName, outputName]);
+
+  const commitDraft = () => {
+    const nextName = draft.trim();
+    if (!nextName) {
+      setDraft(inputName ?? outputName);
+      return;
+    }
+    if (inputName !== undefined && nextName !== inputName) onChange(outputName, nextName);
+  };
+
+  return (
+    <div className="port-mapping-row">
+      <input
+        type="checkbox"
+        checked={inputName !== undefined}
+        onChange={(e) => onChange(outputName, e.target.checked ? draft.trim() || outputName : undefined)}
+        title={inputName !== undefined ? '不传入该输出' : '传入该输出'}
+      />
+      <span className="port-mapping-output">{outputName}</span>
+      <span className="port-mapping-arrow">→</span>
+      <input
+        type="text"
+        className="port-mapping-input"
+        value={draft}
+        disabled={inputName === undefined}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commitDraft}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+        }}
+      />
+    </div>
+  );
+};
+
+/**
+ * 依赖边的端口映射编辑器：
+ * - 未配置映射时，源节点的全部输出按原名传入；
+ * - 配置映射后，只传入勾选的输出，并可改名为目标节点中的输入名；
+ * - 勾选“按引用传递”后，目标节点直接拿到上游的输出对象而不是副本；
+ *   执行引擎不支持时（Worker 引擎的输入总会跨线程复制）该选项禁用，已有的设置不起作用。
+ */
+const PortMappingEditor: React.FC<PortMappingEditorProps> = ({ edgeId, source }) => {
+  const canvasDataApi = useCanvasDataApi();
+  const edge = canvasDataApi.readUI.useUIData((uiData) => uiData.edges.get(edgeId));
+  const sourceEval = useNodeEval(source);
+  const supportsPassByReference = useCanvasEvalApi().read.supportsPassByReference();
+
+  if (edge?.type !== CanvasEdgeKind.CustomEdge) return null;
+
+  const portMapping = edge.data.portMapping;
+  // 映射里可能保留了上游当前没有产生的输出，一并列出，避免编辑时被静默丢弃
+  const outputNames = Array.from(new Set([
+    ...Object.keys(sourceEval?.outputs ?? {}),
+    ...Object.keys(portMapping ?? {}),
+  ]));
+
+  const handleRowChange = (outputName: string, inputName: string | undefined) => {
+    const nextMapping = { ...(portMapping ?? {}) };
+    if (inputName === undefined) {
+      delete nextMapping[outputName];
+    } else {
+      nextMapping[outputName] = inputName;
+    }
+    canvasDataApi.writeUI.updateEdgeData(edgeId, { portMapping: nextMapping });
+  };
+
+  // 以“全部按原名传入”作为自定义映射的起点
+  const enableMapping = () => {
+    canvasDataApi.writeUI.updateEdgeData(edgeId, {
+      portMapping: Object.fromEntries(outputNames.map((name) => [name, name])),
+    });
+  };
+
+  const resetMapping = () => {
+    canvasDataApi.writeUI.updateEdgeData(edgeId, { portMapping: undefined });
+  };
+
+  const togglePassByReference = (checked: boolean) => {
+    canvasDataApi.writeUI.updateEdgeData(edgeId, { passByReference: checked || undefined });
+  };
+
+  return (
+    <div className="port-mapping-editor nodrag nopan nowheel">
+      <div className="port-mapping-header">
+        <span>端口映射</span>
+        {portMapping ? (
+          <button className="port-mapping-button" onClick={resetMapping} title="恢复为全部输出按原名传入">
+            恢复默认
+          </button>
+        ) : (
+          <button className="port-mapping-button" onClick={enableMapping} title="选择并重命名要传入的输出">
+            自定义
+          </button>
+        )}
+      </div>
+      {!portMapping ? (
+        <div className="port-mapping-hint">全部输出按原名传入</div>
+      ) : outputNames.length === 0 ? (
+        <div className="port-mapping-hint">上游节点暂无输出</div>
+      ) : (
+        outputNames.map((outputName) => (
+          <PortMappingRow
+            key={outputName}
+            outputName={outputName}
+            inputName={portMapping[outputName]}
+            onChange={handleRowChange}
+          />
+        ))
+      )}
+      <label
+        className={`port-mapping-reference${supportsPassByReference ? '' : ' disabled'}`}
+        title={supportsPassByReference
+          ? '跳过拷贝，适合大数组等大体积输出；开发环境下下游对该值的修改会被忽略并提示'
+          : '节点在 Worker 中执行，输入总会跨线程复制一次，按引用传递不起作用'}
+      >
+        <input
+          type="checkbox"
+          disabled={!supportsPassByReference}
+          checked={supportsPassByReference && (edge.data.passByReference ?? false)}
+          onChange={(e) => togglePassByReference(e.target.checked)}
+        />
+        按引用传递
+      </label>
+    </div>
+  );
+};
+
+export default PortMappingEditor;
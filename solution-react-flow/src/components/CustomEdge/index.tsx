@@ -1,5 +1,10 @@
-import React from 'react';
-import { EdgeProps, getStraightPath, useInternalNode } from '@xyflow/react';
+import React, { useMemo } from 'react';
+import { Edge, EdgeLabelRenderer, EdgeProps, getStraightPath, useInternalNode } from '@xyflow/react';
+import { useCanvasDataApi } from '@/contexts/CanvasDataContext';
+import { useCanvasEvalApi } from '@/contexts/CanvasEvalContext';
+import { findPortTypeMismatches, formatPortTypeMismatch } from '@/services/portTypes';
+import { CanvasEdgeKind, CanvasNodeKind, type CanvasUIData } from '@/types/canvas';
+import PortMappingEditor from './PortMappingEditor';
 
 
 // getEdgeParams 逻辑迁移自 sandbox-easy-connect/utils.js
@@ -41,9 +46,46 @@ function getEdgeParams(source: any, target: any) {
 
 const markerId = 'custom-edge-arrow';
 
+// 映射摘要：只列出改名的输出，未改名的输出只显示名字
+const summarizePortMapping = (portMapping: Record<string, string>) => {
+  const entries = Object.entries(portMapping);
+  if (entries.length === 0) return '∅';
+  return entries
+    .map(([outputName, inputName]) => (outputName === inputName ? outputName : `${outputName}→${inputName}`))
+    .join(', ');
+};
+
+// 按引用传递的边在摘要前加标记
+const REFERENCE_MARKER = '&';
+
+// 两端声明的端口类型不兼容时的标记
+const TYPE_MISMATCH_MARKER = '⚠';
+
+const readTextNodeCode = (uiData: CanvasUIData, nodeId: string) => {
+  const node = uiData.nodes.get(nodeId);
+  return node?.type === CanvasNodeKind.TextNode ? node.data.code : undefined;
+};
+
 const FloatingEdge: React.FC<EdgeProps> = ({ id, source, target, style, selected }) => {
   const sourceNode = useInternalNode(source);
   const targetNode = useInternalNode(target);
+  const canvasDataApi = useCanvasDataApi();
+  const uiEdge = canvasDataApi.readUI.useUIData((uiData) => uiData.edges.get(id));
+  const isDepEdge = uiEdge?.type === CanvasEdgeKind.CustomEdge;
+  const portMapping = isDepEdge ? uiEdge.data.portMapping : undefined;
+  // 执行引擎不支持按引用传递时，设置不起作用，也不显示标记
+  const supportsPassByReference = useCanvasEvalApi().read.supportsPassByReference();
+  const passByReference = isDepEdge && supportsPassByReference ? uiEdge.data.passByReference ?? false : false;
+  const sourceCode = canvasDataApi.readUI.useUIData((uiData) => readTextNodeCode(uiData, source));
+  const targetCode = canvasDataApi.readUI.useUIData((uiData) => readTextNodeCode(uiData, target));
+  // 随两端代码与端口映射实时更新，不只在连线时检查一次
+  const typeMismatches = useMemo(
+    () => (isDepEdge && sourceCode !== undefined && targetCode !== undefined
+      ? findPortTypeMismatches(sourceCode, targetCode, portMapping)
+      : []),
+    [isDepEdge, sourceCode, targetCode, portMapping],
+  );
+  const typeMismatchText = typeMismatches.map(formatPortTypeMismatch).join('\n');
 
   if (!sourceNode || !targetNode) {
     return null;
@@ -51,7 +93,7 @@ const FloatingEdge: React.FC<EdgeProps> = ({ id, source, target, style, selected
 
   const { sx, sy, tx, ty } = getEdgeParams(sourceNode, targetNode);
 
-  const [edgePath] = getStraightPath({
+  const [edgePath, labelX, labelY] = getStraightPath({
     sourceX: sx,
     sourceY: sy,
     targetX: tx,
@@ -68,7 +110,7 @@ const FloatingEdge: React.FC<EdgeProps> = ({ id, source, target, style, selected
         markerEnd={`url(#${markerId})`}
         style={{
           ...style,
-          stroke: selected ? 'rgba(100, 200, 255, 0.8)' : 'rgb(88, 88, 88)',
+          stroke: selected ? 'rgba(100, 200, 255, 0.8)' : typeMismatchText ? 'rgb(214, 120, 72)' : 'rgb(88, 88, 88)',
           strokeWidth: selected ? 4 : 2,
         }}
       />
@@ -81,6 +123,98 @@ const FloatingEdge: React.FC<EdgeProps> = ({ id, source, target, style, selected
         strokeWidth={10}
         className="react-flow__edge-interaction"
       />
+      {/* 依赖边：选中时显示端口映射编辑器，否则在配置了映射、按引用传递或类型不匹配时显示摘要 */}
+      {isDepEdge && (selected || portMapping || passByReference || typeMismatchText) ? (
+        <EdgeLabelRenderer>
+          <div
+            className="port-mapping-anchor"
+            style={{
+              transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
+              pointerEvents: selected ? 'all' : 'none',
+            }}
+          >
+            {selected ? (
+              <>
+                <PortMappingEditor edgeId={id} source={source} />
+                {typeMismatchText && <div className="port-type-mismatch">{typeMismatchText}</div>}
+              </>
+            ) : (
+              <div
+                className={`port-mapping-label${typeMismatchText ? ' type-mismatch' : ''}`}
+                title={[passByReference && '按引用传递', typeMismatchText].filter(Boolean).join('\n') || undefined}
+              >
+                {[
+                  typeMismatchText && TYPE_MISMATCH_MARKER,
+                  passByReference && REFERENCE_MARKER,
+                  portMapping && summarizePortMapping(portMapping),
+                ]
+                  .filter(Boolean)
+                  .join(' ')}
+              </div>
+            )}
+          </div>
+        </EdgeLabelRenderer>
+      ) : null}
+    </>
+  );
+};
+
+/**
+ * 推断连线：全局语义下由符号解析得到的依赖，只用于展示。
+ * names 为目标节点从源节点引用的顶层定义名。
+ */
+export type InferredEdgeFlowData = Edge<{ names: string[] }, 'inferredEdge'>;
+
+export const InferredEdge: React.FC<EdgeProps<InferredEdgeFlowData>> = ({ id, source, target, data }) => {
+  const sourceNode = useInternalNode(source);
+  const targetNode = useInternalNode(target);
+
+  if (!sourceNode || !targetNode) {
+    return null;
+  }
+
+  const { sx, sy, tx, ty } = getEdgeParams(sourceNode, targetNode);
+
+  const [edgePath, labelX, labelY] = getStraightPath({
+    sourceX: sx,
+    sourceY: sy,
+    targetX: tx,
+    targetY: ty,
+  });
+
+  return (
+    <>
+      <path
+        id={id}
+        className="react-flow__edge-path"
+        d={edgePath}
+        markerEnd={`url(#${markerId})`}
+        style={{
+          stroke: 'rgba(125, 225, 234, 0.45)',
+          strokeWidth: 1.5,
+          strokeDasharray: '6 4',
+        }}
+      />
+      {data?.names.length ? (
+        <EdgeLabelRenderer>
+          <div
+            className="nodrag nopan"
+            style={{
+              position: 'absolute',
+              transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
+              padding: '1px 6px',
+              fontSize: 11,
+              fontFamily: 'JetBrains Mono, monospace',
+              color: 'rgba(125, 225, 234, 0.8)',
+              background: 'rgba(9, 14, 28, 0.85)',
+              border: '1px dashed rgba(125, 225, 234, 0.4)',
+              pointerEvents: 'none',
+            }}
+          >
+            {data.names.join(', ')}
+          </div>
+        </EdgeLabelRenderer>
+      ) : null}
     </>
   );
 };
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo } from 'react';
+import './styles.css';
+import { useCanvasDataApi } from '@/contexts/CanvasDataContext';
+import { useCanvasEvalApi } from '@/contexts/CanvasEvalContext';
+import { diffHistoryNode, type EvalValueChange } from '@/hooks/eval-core/evalHistory';
+import { TRIGGER_REASON_LABELS } from '@/hooks/eval-core/evalProfiler';
+import { formatPortableValue, isPortableValue } from '@/services/portableValues';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// 差异中单个值的最大显示长度
+const VALUE_PREVIEW_LENGTH = 40;
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '∅';
+  const text = (() => {
+    if (isPortableValue(value)) return formatPortableValue(value);
+    if (typeof value === 'object' && value !== null) {
+      try {
+        return JSON.stringify(value, (_, item) => (isPortableValue(item) ? formatPortableValue(item) : item));
+      } catch {
+        return Object.prototype.toString.call(value);
+      }
+    }
+    return typeof value === 'string' ? JSON.stringify(value) : String(value);
+  })();
+  return text.length > VALUE_PREVIEW_LENGTH ? `${text.slice(0, VALUE_PREVIEW_LENGTH)}…` : text;
+};
+
+const renderChanges = (label: string, changes: EvalValueChange[]) => changes.map((change) => (
+  <div key={`${label}-${change.name}`} className="history-diff-row">
+    <span className="history-diff-kind">{label}</span>
+    <span className="history-diff-name">{change.name}</span>
+    <span className="history-diff-before">{formatValue(change.before)}</span>
+    <span className="history-diff-arrow">→</span>
+    <span className="history-diff-after">{formatValue(change.after)}</span>
+  </div>
+));
+
+/**
+ * 计算历史面板：
+ * - 时间轴滑块在最近若干轮计算之间拖动，画布随之显示该轮计算完成时的输出、日志与错误，最右端为实时结果；
+ * - 显示所选一轮的触发原因与实际执行的节点；
+ * - 逐节点列出与上一轮相比的差异（代码、控件值、输出、错误），便于找出是哪次改动导致了问题。
+ * 关闭面板时回到实时结果。
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose }) => {
+  const evalApi = useCanvasEvalApi();
+  const canvasDataApi = useCanvasDataApi();
+  const entries = evalApi.read.useHistory((history) => history.entries);
+  const viewingId = evalApi.read.useHistory((history) => history.viewingId);
+  const uiNodes = canvasDataApi.readUI.useUIData((uiData) => uiData.nodes);
+
+  useEffect(() => {
+    if (!isOpen) {
+      evalApi.manual.viewHistory(null);
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose, evalApi]);
+
+  const getNodeName = (nodeId: string) => {
+    const node = uiNodes.get(nodeId);
+    const name = node?.type === 'textNode' || node?.type === 'libraryNode' ? node.data.nodeName : '';
+    return name || nodeId;
+  };
+
+  // 滑块位置：0 ~ entries.length - 1 为历史记录，entries.length 为实时结果
+  const viewingIndex = entries.findIndex((entry) => entry.id === viewingId);
+  const position = viewingIndex === -1 ? entries.length : viewingIndex;
+  // 查看实时结果时，展示最近一轮计算的信息
+  const selectedIndex = viewingIndex === -1 ? entries.length - 1 : viewingIndex;
+  const selected = entries[selectedIndex];
+  const previous = entries[selectedIndex - 1];
+
+  const nodeDiffs = useMemo(() => {
+    if (!selected || !previous) return [];
+    const prevNodes = previous.state.nodes;
+    const nextNodes = selected.state.nodes;
+    const nodeIds = [...new Set([...Object.keys(prevNodes), ...Object.keys(nextNodes)])];
+    return nodeIds
+      .map((nodeId) => ({ nodeId, diff: diffHistoryNode(prevNodes[nodeId], nextNodes[nodeId]) }))
+      .filter((item) => item.diff !== null);
+  }, [selected, previous]);
+
+  const handleScrub = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const index = Number(event.target.value);
+    evalApi.manual.viewHistory(entries[index]?.id ?? null);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="history-panel-overlay">
+      <div className="history-panel nodrag nowheel">
+        {/* 面板头部 */}
+        <div className="history-panel-header">
+          <h3 className="history-title">历史</h3>
+          <button
+            className="history-text-button"
+            onClick={() => evalApi.manual.viewHistory(null)}
+            disabled={viewingId === null}
+            title="回到实时结果"
+          >
+            实时
+          </button>
+          <button className="history-text-button" onClick={evalApi.manual.clearHistory} title="清空计算历史">
+            清空
+          </button>
+          <button className="close-button" onClick={onClose}>
+            <svg viewBox="0 0 24 24" width="18" height="18">
+              <path fill="currentColor" d="M19,6.41L17.59,5L12,10.59L6.41,5L5,6.41L10.59,12L5,17.59L6.41,19L12,13.41L17.59,19L19,17.59L13.41,12L19,6.41Z" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 时间轴 */}
+        <div className="history-section">
+          {entries.length === 0 ? (
+            <div className="history-empty">暂无记录</div>
+          ) : (
+            <>
+              <input
+                className="history-scrubber"
+                type="range"
+                min={0}
+                max={entries.length}
+                value={position}
+                onChange={handleScrub}
+              />
+              <div className={`history-position${viewingId === null ? '' : ' past'}`}>
+                {viewingId === null
+                  ? '实时结果'
+                  : `正在查看第 ${position + 1} / ${entries.length} 轮（#${selected.version}）`}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* 所选一轮的触发信息 */}
+        {selected && (
+          <div className="history-section">
+            <div className="history-section-label">
+              {viewingId === null ? '最近一轮' : '所选一轮'}
+            </div>
+            <div className="history-summary">
+              <span>#{selected.version}</span>
+              <span>{formatTime(selected.finishedAt)}</span>
+              <span>t = {selected.time.toFixed(2)}s</span>
+              {selected.status === 'stopped' && <span className="history-stopped">已停止</span>}
+            </div>
+            <div className="history-tags">
+              {Object.entries(selected.reasons).map(([nodeId, reason]) => (
+                <span key={nodeId} className="history-tag" title={nodeId}>
+                  {getNodeName(nodeId)}·{TRIGGER_REASON_LABELS[reason]}
+                </span>
+              ))}
+            </div>
+            <div className="history-ran">
+              执行了 {selected.ranNodeIds.length} 个节点
+              {selected.ranNodeIds.length > 0 && `：${selected.ranNodeIds.map(getNodeName).join('、')}`}
+            </div>
+          </div>
+        )}
+
+        {/* 与上一轮的差异 */}
+        {selected && (
+          <div className="history-section">
+            <div className="history-section-label">与上一轮的差异</div>
+            {!previous ? (
+              <div className="history-empty">没有更早的记录</div>
+            ) : nodeDiffs.length === 0 ? (
+              <div className="history-empty">没有变化</div>
+            ) : (
+              nodeDiffs.map(({ nodeId, diff }) => diff && (
+                <div key={nodeId} className="history-node-diff">
+                  <div className="history-node-name" title={nodeId}>
+                    {getNodeName(nodeId)}
+                    {diff.codeChanged && <span className="history-tag">代码已修改</span>}
+                  </div>
+                  {renderChanges('控件', diff.controls)}
+                  {renderChanges('输出', diff.outputs)}
+                  {diff.addedErrors.map((message) => (
+                    <div key={`added-${message}`} className="history-diff-row error">+ {message}</div>
+                  ))}
+                  {diff.resolvedErrors.map((message) => (
+                    <div key={`resolved-${message}`} className="history-diff-row resolved">- {message}</div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,230 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { NodeProps, NodeResizeControl, useKeyPress } from '@xyflow/react';
+import '../TextNode/styles.css';
+import './styles.css';
+import '@/styles/syntax-highlighting.css';
+import { ErrorDisplay, WarningDisplay, LogDisplay } from '../TextNode/displays';
+import CodeEditor from '../CodeEditor';
+import type { CodeEditorDiagnostic } from '../code-editor/types';
+import { useCanvasEvalApi, useNodeEval } from '@/contexts/CanvasEvalContext';
+import { useCanvasDataApi } from '@/contexts/CanvasDataContext';
+import { LibraryNodeFlowData } from '@/types/canvas';
+import { LibraryNodeUIData } from '@/types/nodeData';
+
+/**
+ * 共享库节点：
+ * - 顶层定义对画布上所有 TextNode（含模块节点）可见，不需要连线；
+ * - 只展示代码、定义列表与执行时的错误/日志，没有输入控件与输出区域。
+ */
+const LibraryNode: React.FC<NodeProps<LibraryNodeFlowData>> = ({ id, selected }) => {
+
+  const canvasDataApi = useCanvasDataApi();
+  const nodeData = canvasDataApi.readUI.useUIData((uiData) => {
+    const node = uiData.nodes.get(id);
+    return node?.type === 'libraryNode' ? node.data : undefined;
+  });
+  const { code, nodeName, width, isCollapsed } = {
+    ...{
+      code: '',
+      nodeName: '',
+      width: undefined,
+      isCollapsed: false,
+    },
+    ...(nodeData ?? {}),
+  };
+
+  const nodeEval = useNodeEval(id);
+  const consoleLogs = nodeEval?.logs ?? [];
+  const errors = nodeEval?.errors ?? [];
+  const warnings = nodeEval?.warnings ?? [];
+
+  const diagnostics = useMemo<CodeEditorDiagnostic[]>(() => [
+    ...(nodeEval?.errors ?? []).map((error) => ({ ...error, severity: 'error' as const })),
+    ...(nodeEval?.warnings ?? []).map((warning) => ({ ...warning, severity: 'warning' as const })),
+  ].filter((item): item is CodeEditorDiagnostic => item.line !== undefined), [nodeEval]);
+
+  // 定义列表与引用了本库的节点数取自依赖解析结果
+  const evalApi = useCanvasEvalApi();
+  const globalIOs = evalApi.read.useGlobalIOs();
+  const definitions = globalIOs.exportsBySource[id] ?? [];
+  const dependentCount = useMemo(
+    () => Object.values(globalIOs.librariesByTarget).filter((libraryIds) => libraryIds.includes(id)).length,
+    [globalIOs, id],
+  );
+
+  const [isEditingName, setIsEditingName] = useState(false);
+  const [editingName, setEditingName] = useState<string>(nodeName);
+  const nameInputRef = useRef<HTMLInputElement>(null);
+
+  const updateData = useCallback((updates: Partial<LibraryNodeUIData>) => {
+    canvasDataApi.writeUI.updateNodeData(id, updates);
+  }, [canvasDataApi, id]);
+
+  const handleNameEdit = useCallback(() => {
+    setEditingName(nodeName);
+    setIsEditingName(true);
+    setTimeout(() => {
+      nameInputRef.current?.focus();
+      nameInputRef.current?.select();
+    }, 0);
+  }, [nodeName]);
+
+  const handleNameSubmit = useCallback(() => {
+    setIsEditingName(false);
+    updateData({ nodeName: editingName });
+  }, [editingName, updateData]);
+
+  const handleNameKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleNameSubmit();
+    } else if (e.key === 'Escape') {
+      setEditingName(nodeName);
+      setIsEditingName(false);
+    }
+  }, [handleNameSubmit, nodeName]);
+
+  const toggleCollapse = useCallback(() => {
+    updateData({ isCollapsed: !isCollapsed });
+  }, [isCollapsed, updateData]);
+
+  const widthStyle = (width && typeof width === 'number') ? `${width}px` : 'auto';
+
+  const isCtrlPressed = useKeyPress('Control');
+
+  return (
+    <div
+      className={`text-node library-node${selected ? ' selected' : ''}${isCollapsed ? ' collapsed' : ''}`}
+      style={{
+        ...(widthStyle !== 'auto' && { width: widthStyle }),
+        boxSizing: 'border-box',
+        minWidth: isCollapsed ? '200px' : '300px',
+        pointerEvents: isCtrlPressed ? 'none' : 'auto'
+      }}
+    >
+      {/* 节点头部 */}
+      <div className="text-node-header">
+        <div className="text-node-name-section">
+          <span className="library-node-badge" title="共享库：顶层定义对所有节点可见">库</span>
+          {isEditingName ? (
+            <input
+              ref={nameInputRef}
+              className={`text-node-name-input ${isCtrlPressed ? 'drag' : 'nodrag'}`}
+              value={editingName || ''}
+              onChange={(e) => setEditingName(e.target.value)}
+              onBlur={handleNameSubmit}
+              onKeyDown={handleNameKeyDown}
+            />
+          ) : (
+            <div
+              className="text-node-name"
+              onDoubleClick={isCollapsed ? toggleCollapse : handleNameEdit}
+              onClick={isCollapsed ? toggleCollapse : undefined}
+              style={{ cursor: 'pointer' }}
+              title={isCollapsed ? '点击展开节点' : '双击编辑名称'}
+            >
+              {nodeName || '未命名共享库'}
+            </div>
+          )}
+        </div>
+
+        <div className="text-node-controls">
+          <button
+            className="control-button"
+            onClick={toggleCollapse}
+            title={isCollapsed ? '展开节点' : '折叠节点'}
+          >
+            <svg viewBox="0 0 24 24" width="16" height="16">
+              {isCollapsed ? (
+                <path fill="currentColor" d="M7,14L12,9L17,14H7Z" />
+              ) : (
+                <path fill="currentColor" d="M7,10L12,15L17,10H7Z" />
+              )}
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* 代码区域 */}
+      {!isCollapsed && (
+        <div className="text-node-section text-node-code-section animate-fade-in-up">
+          <CodeEditor
+            className={isCtrlPressed ? 'drag' : 'nodrag'}
+            initialText={code || ''}
+            onTextChange={(newText) => updateData({ code: newText })}
+            onExitEdit={() => {}}
+            diagnostics={diagnostics}
+            style={{
+              width: '100%'
+            }}
+          />
+        </div>
+      )}
+
+      {/* 错误和警告区域 */}
+      {!isCollapsed && (errors.length > 0 || warnings.length > 0) && (
+        <>
+          <ErrorDisplay errors={errors} />
+          <WarningDisplay warnings={warnings} />
+        </>
+      )}
+
+      {/* 日志区域 */}
+      {!isCollapsed && consoleLogs.length > 0 && (
+        <LogDisplay logs={consoleLogs} />
+      )}
+
+      {/* 定义列表 */}
+      <div className="text-node-section library-node-definitions">
+        <div className="section-label">
+          Definitions
+          <span className="library-node-usage">{dependentCount} 个节点引用</span>
+        </div>
+        {definitions.length === 0 ? (
+          <span className="library-node-empty">暂无顶层定义</span>
+        ) : (
+          definitions.map((name) => (
+            <span key={name} className="library-node-definition">{name}</span>
+          ))
+        )}
+      </div>
+
+      {/* 节点宽度调整控制 */}
+      {!isCollapsed && (
+        <>
+          <NodeResizeControl
+            style={{
+              background: 'transparent',
+              border: 'none',
+              width: '8px',
+              height: '100%',
+              borderRadius: 0,
+              cursor: 'ew-resize'
+            }}
+            position="left"
+            minWidth={200}
+            onResize={(_event, data) => {
+              updateData({ width: data.width });
+            }}
+          />
+          <NodeResizeControl
+            style={{
+              background: 'transparent',
+              border: 'none',
+              width: '8px',
+              height: '100%',
+              borderRadius: 0,
+              cursor: 'ew-resize'
+            }}
+            position="right"
+            minWidth={200}
+            onResize={(_event, data) => {
+              updateData({ width: data.width });
+            }}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LibraryNode;
@@ -0,0 +1,109 @@
+import React, { useEffect, useMemo } from 'react';
+import './styles.css';
+import { useCanvasDataApi } from '@/contexts/CanvasDataContext';
+import { useCanvasEvalApi } from '@/contexts/CanvasEvalContext';
+
+interface LibraryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * 共享库面板：
+ * - 列出画布上所有共享库节点及其顶层定义；
+ * - 标出执行出错的共享库，以及引用了它的节点。
+ */
+const LibraryPanel: React.FC<LibraryPanelProps> = ({ isOpen, onClose }) => {
+  const evalApi = useCanvasEvalApi();
+  const canvasDataApi = useCanvasDataApi();
+  const uiNodes = canvasDataApi.readUI.useUIData((uiData) => uiData.nodes);
+  const globalIOs = evalApi.read.useGlobalIOs();
+  const evalNodes = evalApi.read.useEvalStore((state) => state);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  const getNodeName = (nodeId: string) => {
+    const node = uiNodes.get(nodeId);
+    const name = node?.type === 'textNode' || node?.type === 'libraryNode' ? node.data.nodeName : '';
+    return name || nodeId;
+  };
+
+  const libraries = useMemo(
+    () => Array.from(uiNodes.entries())
+      .filter(([, node]) => node.type === 'libraryNode')
+      .map(([nodeId]) => ({
+        nodeId,
+        definitions: globalIOs.exportsBySource[nodeId] ?? [],
+        dependents: Object.entries(globalIOs.librariesByTarget)
+          .filter(([, libraryIds]) => libraryIds.includes(nodeId))
+          .map(([targetId]) => targetId),
+      })),
+    [uiNodes, globalIOs],
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="library-panel-overlay">
+      <div className="library-panel nodrag nowheel">
+        {/* 面板头部 */}
+        <div className="library-panel-header">
+          <h3 className="library-title">共享库</h3>
+          <button className="close-button" onClick={onClose}>
+            <svg viewBox="0 0 24 24" width="18" height="18">
+              <path fill="currentColor" d="M19,6.41L17.59,5L12,10.59L6.41,5L5,6.41L10.59,12L5,17.59L6.41,19L12,13.41L17.59,19L19,17.59L13.41,12L19,6.41Z" />
+            </svg>
+          </button>
+        </div>
+
+        {libraries.length === 0 ? (
+          <div className="library-section library-empty">
+            画布上还没有共享库，使用工具栏中的共享库工具创建
+          </div>
+        ) : (
+          libraries.map(({ nodeId, definitions, dependents }) => {
+            const errorCount = evalNodes[nodeId]?.errors.length ?? 0;
+            return (
+              <div key={nodeId} className="library-section">
+                <div className={`library-section-label${errorCount > 0 ? ' failed' : ''}`} title={nodeId}>
+                  {getNodeName(nodeId)}
+                  {errorCount > 0 && <span className="library-status">{errorCount} 个错误</span>}
+                </div>
+                <div className="library-definitions">
+                  {definitions.length === 0 ? (
+                    <span className="library-empty">暂无顶层定义</span>
+                  ) : (
+                    definitions.map((name) => (
+                      <span key={name} className="library-definition">{name}</span>
+                    ))
+                  )}
+                </div>
+                <div className="library-dependents">
+                  {dependents.length === 0
+                    ? '暂无节点引用'
+                    : `引用节点：${dependents.map(getNodeName).join('、')}`}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryPanel;
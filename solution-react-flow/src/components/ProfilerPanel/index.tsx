@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo } from 'react';
+import './styles.css';
+import { useCanvasDataApi } from '@/contexts/CanvasDataContext';
+import { useCanvasEvalApi } from '@/contexts/CanvasEvalContext';
+import { TRIGGER_REASON_LABELS } from '@/hooks/eval-core/evalProfiler';
+import { useSettingsStore } from '@/store/settingsStore';
+
+interface ProfilerPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// 最慢节点列表的显示条数
+const SLOWEST_NODES_LIMIT = 8;
+
+const STATUS_LABELS = {
+  completed: '完成',
+  superseded: '被取代',
+  stopped: '已停止',
+} as const;
+
+const formatMs = (ms: number) => (ms >= 100 ? `${Math.round(ms)}ms` : `${ms.toFixed(1)}ms`);
+
+const formatSize = (size: number) => {
+  if (size >= 1024 * 1024) return `${(size / 1024 / 1024).toFixed(1)}M`;
+  if (size >= 1024) return `${(size / 1024).toFixed(1)}K`;
+  return `${size}`;
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+/**
+ * 性能面板：
+ * - 按平均耗时列出最慢的节点（执行次数、缓存命中、最近一次输出体积）；
+ * - 列出最近若干轮计算任务，按执行计划顺序展示每个节点的耗时与触发原因。
+ */
+const ProfilerPanel: React.FC<ProfilerPanelProps> = ({ isOpen, onClose }) => {
+  const evalApi = useCanvasEvalApi();
+  const canvasDataApi = useCanvasDataApi();
+  const nodeStats = evalApi.read.useProfile((profile) => profile.nodeStats);
+  const tasks = evalApi.read.useProfile((profile) => profile.tasks);
+  const uiNodes = canvasDataApi.readUI.useUIData((uiData) => uiData.nodes);
+  const showHeatOverlay = useSettingsStore((state) => state.showHeatOverlay);
+  const toggleHeatOverlay = useSettingsStore((state) => state.toggleHeatOverlay);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  const getNodeName = (nodeId: string) => {
+    const node = uiNodes.get(nodeId);
+    const name = node?.type === 'textNode' || node?.type === 'libraryNode' ? node.data.nodeName : '';
+    return name || nodeId;
+  };
+
+  const slowestNodes = useMemo(
+    () => Object.entries(nodeStats)
+      .filter(([, stats]) => stats.runCount > 0)
+      .map(([nodeId, stats]) => ({ nodeId, stats, avgMs: stats.totalMs / stats.runCount }))
+      .sort((a, b) => b.avgMs - a.avgMs)
+      .slice(0, SLOWEST_NODES_LIMIT),
+    [nodeStats],
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="profiler-panel-overlay">
+      <div className="profiler-panel nodrag nowheel">
+        {/* 面板头部 */}
+        <div className="profiler-panel-header">
+          <h3 className="profiler-title">性能</h3>
+          <label className="profiler-toggle" title="在节点上按最近一次执行耗时显示热度">
+            <input type="checkbox" checked={showHeatOverlay} onChange={toggleHeatOverlay} />
+            热度
+          </label>
+          <button className="profiler-text-button" onClick={evalApi.manual.clearProfile} title="清空性能记录">
+            清空
+          </button>
+          <button className="close-button" onClick={onClose}>
+            <svg viewBox="0 0 24 24" width="18" height="18">
+              <path fill="currentColor" d="M19,6.41L17.59,5L12,10.59L6.41,5L5,6.41L10.59,12L5,17.59L6.41,19L12,13.41L17.59,19L19,17.59L13.41,12L19,6.41Z" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 最慢节点 */}
+        <div className="profiler-section">
+          <div className="profiler-section-label">最慢节点</div>
+          {slowestNodes.length === 0 ? (
+            <div className="profiler-empty">暂无记录</div>
+          ) : (
+            <table className="profiler-table">
+              <thead>
+                <tr>
+                  <th>节点</th>
+                  <th>平均</th>
+                  <th>最大</th>
+                  <th>次数</th>
+                  <th>缓存</th>
+                  <th>输出</th>
+                </tr>
+              </thead>
+              <tbody>
+                {slowestNodes.map(({ nodeId, stats, avgMs }) => (
+                  <tr key={nodeId}>
+                    <td className="profiler-node-name" title={nodeId}>{getNodeName(nodeId)}</td>
+                    <td>{formatMs(avgMs)}</td>
+                    <td>{formatMs(stats.maxMs)}</td>
+                    <td>{stats.runCount}</td>
+                    <td>{stats.cacheHitCount}</td>
+                    <td>{formatSize(stats.lastOutputSize)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* 最近的计算任务 */}
+        <div className="profiler-section">
+          <div className="profiler-section-label">最近任务</div>
+          {tasks.length === 0 ? (
+            <div className="profiler-empty">暂无记录</div>
+          ) : (
+            tasks.map((task) => (
+              <div key={`${task.version}-${task.startedAt}`} className={`profiler-task ${task.status}`}>
+                <div className="profiler-task-summary">
+                  <span>#{task.version}</span>
+                  <span>{formatTime(task.startedAt)}</span>
+                  <span>{formatMs(task.durationMs)}</span>
+                  <span>{STATUS_LABELS[task.status]}</span>
+                </div>
+                <div className="profiler-task-order">
+                  {task.order.map((nodeId) => {
+                    const run = task.runs.find((item) => item.nodeId === nodeId);
+                    return (
+                      <span
+                        key={nodeId}
+                        className={`profiler-task-node${run?.cacheHit ? ' cached' : ''}${run && !run.success ? ' failed' : ''}`}
+                        title={run ? `${TRIGGER_REASON_LABELS[run.reason]}${run.cacheHit ? '（缓存命中）' : ''}` : '未执行'}
+                      >
+                        {getNodeName(nodeId)}
+                        {run ? ` ${run.cacheHit ? '缓存' : formatMs(run.durationMs)}·${TRIGGER_REASON_LABELS[run.reason]}` : ' -'}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilerPanel;
@@ -1,6 +1,10 @@
 import React, { useCallback, useRef, useEffect } from 'react';
 import './styles.css';
 import { useSettingsStore } from '@/store/settingsStore';
+import { useCanvasDataApi } from '@/contexts/CanvasDataContext';
+import { createRandomSeed } from '@/services/seededRandom';
+import { EVAL_MODE_LABELS } from '@/services/evalMode';
+import type { CanvasEvalMode } from '@/types/canvas';
 
 interface SettingsPanelProps {
   isOpen: boolean;
@@ -16,6 +20,11 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
     resetToDefaults,
   } = useSettingsStore();
 
+  // 随机数设置与计算模式属于画布本身，随画布一起保存与导出
+  const canvasDataApi = useCanvasDataApi();
+  const random = canvasDataApi.readUI.useUIData((data) => data.random);
+  const evalMode = canvasDataApi.readUI.useUIData((data) => data.evalMode);
+
   const panelRef = useRef<HTMLDivElement>(null);
 
   // 点击外部关闭面板
@@ -72,6 +81,28 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
     setFont(key, value);
   }, [setFont]);
 
+  // 画布种子：修改后各节点派生出新的种子，用到随机数的节点重新计算
+  const handleSeedChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    canvasDataApi.writeUI.updateRandomSettings({ seed: Number(e.target.value) });
+  }, [canvasDataApi]);
+
+  const handleReseedCanvas = useCallback(() => {
+    canvasDataApi.writeUI.updateRandomSettings({ seed: createRandomSeed() });
+  }, [canvasDataApi]);
+
+  const handleReplaceMathRandomChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    canvasDataApi.writeUI.updateRandomSettings({ replaceMathRandom: e.target.checked });
+  }, [canvasDataApi]);
+
+  // 计算模式：单独设置了计算模式的节点不受影响
+  const handleEvalModeChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    canvasDataApi.writeUI.updateEvalModeSettings({ mode: e.target.value as CanvasEvalMode });
+  }, [canvasDataApi]);
+
+  const handleEvalDebounceChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    canvasDataApi.writeUI.updateEvalModeSettings({ debounceMs: Number(e.target.value) });
+  }, [canvasDataApi]);
+
   // 重置按钮处理
   const handleReset = useCallback(() => {
     resetToDefaults();
@@ -294,6 +325,80 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
           </div>
         </div>
 
+        {/* 画布随机数 */}
+        <div className="settings-section">
+          <div className="section-label">
+            随机数
+          </div>
+
+          <div className="font-setting-group">
+            <div className="font-setting-row">
+              <span className="font-label">画布种子</span>
+              <div className="color-input-container">
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={random.seed}
+                  onChange={handleSeedChange}
+                  className="text-input color-text-input"
+                />
+                <button className="reset-button" onClick={handleReseedCanvas}>
+                  重新生成
+                </button>
+              </div>
+            </div>
+
+            <div className="font-setting-row">
+              <label className="random-setting-toggle" title="执行期间 Math.random 与 node_random 使用同一个种子化序列">
+                <input
+                  type="checkbox"
+                  checked={random.replaceMathRandom}
+                  onChange={handleReplaceMathRandomChange}
+                />
+                Math.random 也使用种子
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {/* 画布计算模式 */}
+        <div className="settings-section">
+          <div className="section-label">
+            计算模式
+          </div>
+
+          <div className="font-setting-group">
+            <div className="font-setting-row">
+              <span className="font-label">代码修改后</span>
+              <select
+                value={evalMode.mode}
+                onChange={handleEvalModeChange}
+                className="font-select"
+                title="手动模式下按 Ctrl+S 或节点上的运行按钮后，代码修改才会生效"
+              >
+                {(Object.keys(EVAL_MODE_LABELS) as CanvasEvalMode[]).map((mode) => (
+                  <option key={mode} value={mode}>{EVAL_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </div>
+
+            {evalMode.mode === 'debounced' && (
+              <div className="font-setting-row">
+                <span className="font-label">防抖毫秒</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="100"
+                  value={evalMode.debounceMs}
+                  onChange={handleEvalDebounceChange}
+                  className="text-input color-text-input"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* 操作按钮 */}
         <div className="settings-actions">
           <button 
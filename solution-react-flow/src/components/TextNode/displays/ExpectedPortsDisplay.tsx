@@ -0,0 +1,41 @@
+import React from 'react';
+import type { NodeStaticAnalysis } from '@/hooks/useCanvasEval';
+import type { NodePortTypes } from '@/services/portTypes';
+
+export interface ExpectedPortsDisplayProps {
+  // 执行前的静态分析结果
+  analysis: NodeStaticAnalysis;
+  // 代码中声明的端口类型，未声明类型的端口不显示类型
+  portTypes: NodePortTypes;
+}
+
+interface ExpectedPortInfo {
+  name: string;
+  type?: string;
+  kind: string;
+}
+
+// 节点首次执行前，按静态分析显示代码声明的控件、输入与输出；执行后由实际的控件与输出取代
+const ExpectedPortsDisplay: React.FC<ExpectedPortsDisplayProps> = ({ analysis, portTypes }) => {
+  const ports: ExpectedPortInfo[] = [
+    ...analysis.controls.map((control) => ({ name: control.name, type: control.type, kind: '控件' })),
+    ...analysis.inputs.map((name) => ({ name, type: portTypes.inputs[name], kind: '输入' })),
+    ...analysis.outputs.map((name) => ({ name, type: portTypes.outputs[name], kind: '输出' })),
+  ];
+  if (ports.length === 0) return null;
+
+  return (
+    <div className="text-node-section text-node-expected-section animate-fade-in-up" title="由代码分析得到，节点执行后显示实际的值">
+      <div className="section-label">Expected</div>
+      {ports.map((port, index) => (
+        <div key={`${port.kind}-${port.name}`} className="output-variable expected-port animate-fade-in-right" style={{ animationDelay: `${index * 0.1}s` }}>
+          <span className="output-variable-name">{port.name}</span>
+          <span className={`output-variable-type${port.type ? ' declared' : ''}`}>{port.type ? `:${port.type}` : ''}</span>
+          <span className="output-variable-value expected-port-kind">{port.kind}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ExpectedPortsDisplay;
@@ -1,20 +1,99 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { formatLogValue, type LogEntry, type LogTable } from '@/services/consoleCapture';
+import ValueTree from './ValueTree';
 
 export interface LogDisplayProps {
-  logs: string[];
+  logs: LogEntry[];
   isAnimatingOut?: boolean;
 }
 
+const LEVEL_CLASS_NAMES: Record<LogEntry['level'], string> = {
+  log: '',
+  info: 'info',
+  debug: 'debug',
+  warn: 'warning',
+  error: 'error',
+};
+
+const renderArgs = (args: unknown[]) => args.map((arg, index) => (
+  <React.Fragment key={index}>
+    {index > 0 && ' '}
+    {typeof arg === 'string' ? arg : <ValueTree value={arg} />}
+  </React.Fragment>
+));
+
+const renderTable = (table: LogTable) => (
+  <table className="log-table">
+    <thead>
+      <tr>
+        <th>(index)</th>
+        {table.columns.map((column) => <th key={column}>{column}</th>)}
+      </tr>
+    </thead>
+    <tbody>
+      {table.rows.map((row) => (
+        <tr key={row.index}>
+          <td>{row.index}</td>
+          {table.columns.map((column) => (
+            <td key={column}>{column in row.cells ? formatLogValue(row.cells[column], 1) : ''}</td>
+          ))}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
 const LogDisplay: React.FC<LogDisplayProps> = ({ logs, isAnimatingOut = false }) => {
+  // 用户手动展开/折叠过的分组（按条目下标），未操作过的沿用 group / groupCollapsed 的初始状态
+  const [groupOverrides, setGroupOverrides] = useState<Record<number, boolean>>({});
+
   if (logs.length === 0) return null;
 
+  const isGroupCollapsed = (entry: LogEntry, index: number) => groupOverrides[index] ?? Boolean(entry.collapsed);
+
+  const toggleGroup = (entry: LogEntry, index: number) => {
+    setGroupOverrides((overrides) => ({ ...overrides, [index]: !isGroupCollapsed(entry, index) }));
+  };
+
+  // 折叠分组内的条目不渲染：记录当前被折叠分组的深度，直到回到该深度及以外
+  let hiddenBelowDepth = Infinity;
+  const visibleEntries: Array<{ entry: LogEntry; index: number }> = [];
+  logs.forEach((entry, index) => {
+    if (entry.depth > hiddenBelowDepth) return;
+    hiddenBelowDepth = Infinity;
+    visibleEntries.push({ entry, index });
+    if (entry.kind === 'group' && isGroupCollapsed(entry, index)) {
+      hiddenBelowDepth = entry.depth;
+    }
+  });
+
   return (
     <div className={`text-node-section text-node-logs-section ${isAnimatingOut ? 'animate-fade-out-down' : 'animate-fade-in-up'}`}>
       <div className="section-label">Logs</div>
-      <div className="log-container">
-        {logs.map((log, index) => (
-          <div key={index} className={`log-entry ${isAnimatingOut ? 'animate-fade-out-left' : 'animate-fade-in-left'}`} style={{ animationDelay: `${index * 0.05}s` }}>
-            {log}
+      <div className="log-container nowheel">
+        {visibleEntries.map(({ entry, index }, order) => (
+          <div
+            key={index}
+            className={`log-entry ${LEVEL_CLASS_NAMES[entry.level]} ${isAnimatingOut ? 'animate-fade-out-left' : 'animate-fade-in-left'}`}
+            style={{ animationDelay: `${order * 0.05}s`, paddingLeft: `${entry.depth * 12}px` }}
+          >
+            <div className="log-entry-content">
+              {entry.kind === 'group' ? (
+                <span className="log-group-title" onClick={() => toggleGroup(entry, index)}>
+                  <span className="value-tree-arrow">{isGroupCollapsed(entry, index) ? '▸' : '▾'}</span>
+                  {renderArgs(entry.args)}
+                </span>
+              ) : entry.kind === 'table' && entry.table ? (
+                renderTable(entry.table)
+              ) : (
+                renderArgs(entry.args)
+              )}
+            </div>
+            {entry.line !== undefined && (
+              <span className="log-entry-location" title={new Date(entry.timestamp).toLocaleTimeString()}>
+                行 {entry.line}
+              </span>
+            )}
           </div>
         ))}
       </div>
@@ -22,4 +101,4 @@ const LogDisplay: React.FC<LogDisplayProps> = ({ logs, isAnimatingOut = false })
   );
 };
 
-export default LogDisplay; 
\ No newline at end of file
+export default LogDisplay;
@@ -1,5 +1,7 @@
 import React, { useCallback, useMemo } from 'react';
 import { useCanvasDataApi } from '@/contexts/CanvasDataContext';
+import { PORTABLE_TAG, formatPortableValue, isPortableValue } from '@/services/portableValues';
+import { PORT_TYPE_LABELS, matchesPortType, type PortType } from '@/services/portTypes';
 
 interface ExportableOutputInfo {
   name: string;
@@ -10,18 +12,21 @@ interface ExportableOutputInfo {
 
 export interface OutputDisplayProps {
   outputs: Record<string, unknown>;
+  // 代码中以 node_output(值, 名称, 类型) 声明的输出类型
+  outputTypes?: Record<string, PortType>;
   isAnimatingOut?: boolean;
   nodeId: string;
 }
 
-const OutputDisplay: React.FC<OutputDisplayProps> = ({ outputs, isAnimatingOut = false, nodeId }) => {
+const OutputDisplay: React.FC<OutputDisplayProps> = ({ outputs, outputTypes = {}, isAnimatingOut = false, nodeId }) => {
 
   const canvasDataApi = useCanvasDataApi();
   const edges = canvasDataApi.readUI.useUIData((data) => data.edges);
 
   const exportableOutputs = useMemo<ExportableOutputInfo[]>(() => {
     return Object.entries(outputs).map(([name, value]) => {
-      const isObject = value !== null && typeof value === 'object';
+      // 函数与类实例（见 portableValues）不是可预览的数据
+      const isObject = value !== null && typeof value === 'object' && !isPortableValue(value);
       const isArrayOfObjects = Array.isArray(value) && value.length > 0 && value.every((item) => item && typeof item === 'object');
 
       return {
@@ -74,10 +79,12 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ outputs, isAnimatingOut =
 
   const renderOutput = useCallback((info: ExportableOutputInfo, index: number) => {
     const { name, value } = info;
+    // 函数显示签名，类实例显示类名与字段；嵌套在数据中的同样替换为这种简短形式
     const valueStr = (() => {
+      if (isPortableValue(value)) return formatPortableValue(value);
       if (typeof value === 'object') {
         try {
-          return JSON.stringify(value, null, 2);
+          return JSON.stringify(value, (_, item) => (isPortableValue(item) ? formatPortableValue(item) : item), 2);
         } catch {
           return '[object Object]';
         }
@@ -85,7 +92,16 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ outputs, isAnimatingOut =
       return String(value);
     })();
 
-    const type = Array.isArray(value) ? 'array' : typeof value;
+    const inferredType = (() => {
+      if (isPortableValue(value)) {
+        return value[PORTABLE_TAG] === 'function' ? 'function' : value.className || 'object';
+      }
+      return Array.isArray(value) ? 'array' : typeof value;
+    })();
+    // 声明了类型的输出显示声明的类型，与实际值不符时标出
+    const declaredType = outputTypes[name];
+    const typeMismatch = declaredType !== undefined && !matchesPortType(declaredType, value);
+    const type = declaredType ?? inferredType;
 
     return (
       <div
@@ -94,12 +110,17 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ outputs, isAnimatingOut =
         style={{ animationDelay: `${index * 0.1}s` }}
       >
         <span className="output-variable-name">{name}</span>
-        <span className="output-variable-type">:{type}</span>
+        <span
+          className={`output-variable-type${declaredType ? ' declared' : ''}${typeMismatch ? ' mismatch' : ''}`}
+          title={declaredType && `${PORT_TYPE_LABELS[declaredType]}${typeMismatch ? `，实际为 ${inferredType}` : ''}`}
+        >
+          :{type}
+        </span>
         <span className="output-variable-value">{valueStr}</span>
         {info.isExportable && renderExportButton(info)}
       </div>
     );
-  }, [isAnimatingOut, renderExportButton]);
+  }, [isAnimatingOut, outputTypes, renderExportButton]);
 
   return (
     <div className={`text-node-section text-node-outputs-section ${isAnimatingOut ? 'animate-fade-out-down' : 'animate-fade-in-up'}`}>
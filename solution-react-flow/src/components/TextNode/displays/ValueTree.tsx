@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { formatLogValue } from '@/services/consoleCapture';
+
+export interface ValueTreeProps {
+  value: unknown;
+  // 作为父级的属性展示时的键名
+  name?: string;
+}
+
+const getChildren = (value: object): Array<[string, unknown]> => {
+  if (value instanceof Map) {
+    return Array.from(value.entries()).map(([key, item], index) => [`${index} ${formatLogValue(key, 1)} =>`, item]);
+  }
+  if (value instanceof Set) {
+    return Array.from(value).map((item, index) => [String(index), item]);
+  }
+  return Object.entries(value);
+};
+
+const getValueClass = (value: unknown) => (value === null ? 'null' : typeof value);
+
+/**
+ * 可展开的值树：对象/数组/Map/Set 默认折叠为一行预览，点击后逐层展开。
+ * 子节点只在展开时渲染，因此循环引用的值也可以安全展示。
+ */
+const ValueTree: React.FC<ValueTreeProps> = ({ value, name }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isExpandable = value !== null && typeof value === 'object'
+    && !(value instanceof Date) && !(value instanceof Error);
+
+  const label = name !== undefined && <span className="value-tree-key">{name}: </span>;
+
+  if (!isExpandable) {
+    return (
+      <span className="value-tree">
+        {label}
+        <span className={`value-tree-primitive ${getValueClass(value)}`}>{formatLogValue(value, name === undefined ? 0 : 1)}</span>
+      </span>
+    );
+  }
+
+  return (
+    <span className="value-tree">
+      <span className="value-tree-toggle" onClick={() => setIsExpanded((expanded) => !expanded)}>
+        <span className="value-tree-arrow">{isExpanded ? '▾' : '▸'}</span>
+        {label}
+        <span className="value-tree-preview">{formatLogValue(value)}</span>
+      </span>
+      {isExpanded && (
+        <span className="value-tree-children">
+          {getChildren(value).map(([key, item]) => (
+            <ValueTree key={key} name={key} value={item} />
+          ))}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default ValueTree;
@@ -4,6 +4,9 @@ export interface WarningInfo {
   message: string;
   line?: number;
   column?: number;
+  // 高亮范围的结束位置（不含），与 line/column 一样从 1 开始
+  endLine?: number;
+  endColumn?: number;
   stack?: string;
 }
 
@@ -2,8 +2,12 @@ export { default as ErrorDisplay } from './ErrorDisplay';
 export { default as WarningDisplay } from './WarningDisplay';
 export { default as LogDisplay } from './LogDisplay';
 export { default as OutputDisplay } from './OutputDisplay';
+export { default as ValueTree } from './ValueTree';
+export { default as ExpectedPortsDisplay } from './ExpectedPortsDisplay';
 
 export type { ErrorDisplayProps, ErrorInfo } from './ErrorDisplay';
 export type { WarningDisplayProps, WarningInfo } from './WarningDisplay';
 export type { LogDisplayProps } from './LogDisplay';
-export type { OutputDisplayProps } from './OutputDisplay'; 
\ No newline at end of file
+export type { OutputDisplayProps } from './OutputDisplay';
+export type { ValueTreeProps } from './ValueTree';
+export type { ExpectedPortsDisplayProps } from './ExpectedPortsDisplay'; 
\ No newline at end of file
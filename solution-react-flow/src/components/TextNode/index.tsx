@@ -1,14 +1,22 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Handle, Position, NodeProps, NodeResizeControl, useKeyPress } from '@xyflow/react';
 import './styles.css';
 import '@/styles/syntax-highlighting.css';
 import { Control } from '@/services/jsExecutor';
 import { useToolStore } from '@/store/toolStore';
 import { SliderControl, ToggleControl, TextControl } from './controls';
-import { ErrorDisplay, WarningDisplay, LogDisplay, OutputDisplay } from './displays';
+import { ErrorDisplay, WarningDisplay, LogDisplay, OutputDisplay, ExpectedPortsDisplay } from './displays';
 import CodeEditor from '../CodeEditor';
-import { useNodeEval } from '@/contexts/CanvasEvalContext';
-import { TextNodeFlowData } from '@/types/canvas';
+import type { CodeEditorDiagnostic, CodeEditorInlineHint } from '../code-editor/types';
+import { useCanvasEvalApi, useNodeEval } from '@/contexts/CanvasEvalContext';
+import { selectNodeHeat } from '@/hooks/eval-core/evalProfiler';
+import { useSettingsStore } from '@/store/settingsStore';
+import { NODE_CAPABILITIES, type NodeCapability } from '@/services/sandbox';
+import { extractPortTypes } from '@/services/portTypes';
+import { createRandomSeed, referencesRandom } from '@/services/seededRandom';
+import { EVAL_MODE_LABELS, normalizeEvalDebounceMs } from '@/services/evalMode';
+import { DEFAULT_NODE_TIMEOUT_MS, normalizeNodeTimeoutMs } from '@/hooks/eval-core/workerExecutionEngine';
+import { CanvasEvalMode, TextNodeFlowData } from '@/types/canvas';
 import { TextNodeUIData } from '@/types/nodeData';
 import { useCanvasDataApi } from '@/contexts/CanvasDataContext';
 
@@ -58,6 +66,11 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
     autoResizeWidth,
     isCollapsed,
     hiddenSections,
+    semantics,
+    capabilities,
+    evalMode,
+    inlineValues,
+    timeoutMs,
   } = {
     ...{
       code: '',
@@ -73,6 +86,11 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
         logs: false,
         errors: false,
       },
+      semantics: 'global' as const,
+      capabilities: [] as NodeCapability[],
+      evalMode: undefined,
+      inlineValues: false,
+      timeoutMs: undefined,
     },
     ...(nodeData ?? {}),
   };
@@ -85,6 +103,34 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
   const warnings = nodeEval?.warnings ?? [];
   const isEvaluating = nodeEval?.isEvaluating ?? false;
   const evaluateNode = nodeEval?.evaluate ?? (() => {});
+  // 防抖 / 手动模式下尚未生效的代码修改
+  const hasDraft = nodeEval?.node.draftCode !== undefined;
+
+  // 带位置信息的错误与警告在代码中标出
+  const diagnostics = useMemo<CodeEditorDiagnostic[]>(() => [
+    ...(nodeEval?.errors ?? []).map((error) => ({ ...error, severity: 'error' as const })),
+    ...(nodeEval?.warnings ?? []).map((warning) => ({ ...warning, severity: 'warning' as const })),
+  ].filter((item): item is CodeEditorDiagnostic => item.line !== undefined), [nodeEval]);
+
+  // 行内值：最近一次执行记录到的各行的值，显示在对应行的行尾
+  const lineValues = nodeEval?.node.lineValues;
+  const inlineHints = useMemo<CodeEditorInlineHint[]>(() => (inlineValues && lineValues
+    ? Object.entries(lineValues).map(([line, text]) => ({ line: Number(line), text }))
+    : []), [inlineValues, lineValues]);
+
+  // 耗时热度：最近一次执行耗时相对最慢节点的比例，仅在开启热度显示时渲染
+  const evalApi = useCanvasEvalApi();
+  const showHeatOverlay = useSettingsStore((state) => state.showHeatOverlay);
+  const heat = evalApi.read.useProfile((profile) => selectNodeHeat(profile, id));
+  const lastRunMs = evalApi.read.useProfile((profile) => profile.nodeStats[id]?.lastMs);
+
+  // 静态分析：节点还没有任何执行结果时，先显示代码中声明的控件、输入与输出
+  const analysis = evalApi.read.useAnalysis((state) => state.nodeAnalysis[id]);
+  const hasEvalResult = controls.length > 0 || Object.keys(outputs).length > 0 || consoleLogs.length > 0 || errors.length > 0;
+
+  // 节点没有单独设置计算模式时跟随画布
+  const canvasEvalMode = canvasDataApi.readUI.useUIData((uiData) => uiData.evalMode);
+  const effectiveEvalMode = evalMode ?? canvasEvalMode;
 
   // ============================================================================
   // 状态定义 (按功能分组)
@@ -93,7 +139,8 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
   // UI状态
   const [isEditingName, setIsEditingName] = useState(false);
   const [editingName, setEditingName] = useState<string>(nodeName);
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [isCapabilityMenuOpen, setIsCapabilityMenuOpen] = useState(false);
+  const [isEvalModeMenuOpen, setIsEvalModeMenuOpen] = useState(false);
 
   // 动画状态
   const [animatingOut, setAnimatingOut] = useState<{
@@ -127,13 +174,10 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
   // 文本变化处理
   const handleTextChange = (newText: string) => {
     updateData({ code: newText });
-    const originalText = code || '';
-    setHasUnsavedChanges(newText !== originalText);
   };
 
   // 退出编辑处理
   const handleExitEdit = () => {
-    setHasUnsavedChanges(false);
     // const finalCode = data.code || '';
     // if (finalCode.trim()) {
     //   executeCode(finalCode);
@@ -168,6 +212,52 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
     updateData({ isCollapsed: !isCollapsed });
   }, [isCollapsed, updateNodeData]);
 
+  // 全局/局部语义切换：局部语义下节点只通过显式连线传值
+  const toggleSemantics = useCallback(() => {
+    updateData({ semantics: semantics === 'local' ? 'global' : 'local' });
+  }, [semantics, updateData]);
+
+  // 申请/撤回沙箱能力
+  const toggleCapability = useCallback((capability: NodeCapability) => {
+    updateData({
+      capabilities: capabilities.includes(capability)
+        ? capabilities.filter((item) => item !== capability)
+        : [...capabilities, capability],
+    });
+  }, [capabilities, updateData]);
+
+  // 重新播种：只换本节点的随机种子，其余节点的随机序列不变
+  const reseed = useCallback(() => {
+    updateData({ randomSeed: createRandomSeed() });
+  }, [updateData]);
+
+  const toggleInlineValues = useCallback(() => {
+    updateData({ inlineValues: !inlineValues });
+  }, [inlineValues, updateData]);
+
+  // 本节点的计算模式；undefined 表示跟随画布
+  const changeEvalMode = useCallback((mode: CanvasEvalMode | undefined) => {
+    updateData({ evalMode: mode && { mode, debounceMs: effectiveEvalMode.debounceMs } });
+  }, [effectiveEvalMode.debounceMs, updateData]);
+
+  const changeEvalDebounceMs = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    updateData({ evalMode: { mode: 'debounced', debounceMs: normalizeEvalDebounceMs(Number(e.target.value)) } });
+  }, [updateData]);
+
+  // 本节点单次执行的时间预算；清空输入框即恢复默认值
+  const changeTimeoutMs = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    updateData({ timeoutMs: e.target.value === '' ? undefined : normalizeNodeTimeoutMs(Number(e.target.value)) });
+  }, [updateData]);
+
+  // 运行：有草稿时接受草稿并计算，否则重新执行本节点
+  const runNode = useCallback(() => {
+    if (hasDraft) {
+      void evalApi.manual.commitDrafts([id]);
+    } else {
+      void evalApi.manual.requestRecomputeNode(id);
+    }
+  }, [evalApi, hasDraft, id]);
+
   // 区域显示/隐藏逻辑
   const toggleHideSection = useCallback((section: 'inputs' | 'outputs' | 'logs' | 'errors') => {
     const currentHiddenSections = hiddenSections;
@@ -346,6 +436,17 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
         pointerEvents: isCtrlPressed ? 'none' : 'auto'
       }}
     >
+      {/* 耗时热度叠加层 */}
+      {showHeatOverlay && lastRunMs !== undefined && (
+        <div
+          className="text-node-heat-overlay"
+          style={{
+            boxShadow: `0 0 ${6 + heat * 24}px rgba(255, ${Math.round(200 - heat * 140)}, 60, ${0.25 + heat * 0.6})`,
+            borderColor: `rgba(255, ${Math.round(200 - heat * 140)}, 60, ${0.3 + heat * 0.7})`,
+          }}
+        />
+      )}
+
       {/* 节点头部 */}
       <div className="text-node-header">
         <div className="text-node-name-section">
@@ -373,7 +474,7 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
               title={isCollapsed ? '点击展开节点' : '双击编辑名称'}
             >
               {nodeName || '未命名节点'}
-              {hasUnsavedChanges && (
+              {hasDraft && (
                 <div
                   style={{
                     width: '6px',
@@ -382,11 +483,21 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
                     backgroundColor: '#ffffff',
                     flexShrink: 0
                   }}
-                  title="未保存的更改"
+                  title="代码已修改，尚未运行（Ctrl+S 或点击运行按钮）"
                 />
               )}
             </div>
           )}
+          {/* 节点申请的沙箱能力 */}
+          {capabilities.length > 0 && (
+            <div className="capability-badges">
+              {capabilities.map((capability) => (
+                <span key={capability} className="capability-badge" title={NODE_CAPABILITIES[capability].description}>
+                  {NODE_CAPABILITIES[capability].label}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* 控制按钮 */}
@@ -404,6 +515,138 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
           </div>
         ) : (
           <div className="text-node-controls">
+            {(effectiveEvalMode.mode !== 'live' || hasDraft) && (
+              <button
+                className={`control-button${hasDraft ? ' has-draft' : ''}`}
+                onClick={runNode}
+                title={hasDraft ? '运行：接受代码修改并重新计算（Ctrl+S 运行全部节点）' : '重新运行本节点'}
+              >
+                <svg viewBox="0 0 24 24" width="16" height="16">
+                  <path fill="currentColor" d="M8,5.14V19.14L19,12.14L8,5.14Z" />
+                </svg>
+              </button>
+            )}
+            <button
+              className={`control-button${inlineValues ? ' has-inline-values' : ''}`}
+              onClick={toggleInlineValues}
+              title={inlineValues ? '行内值：在行尾显示顶层语句的值（点击关闭）' : '行内值：在行尾显示顶层语句的值'}
+            >
+              <svg viewBox="0 0 24 24" width="16" height="16">
+                <path fill="currentColor" d="M3,5H15V7H3V5M3,11H11V13H3V11M3,17H13V19H3V17M17,10H21V12H17V10M17,16H21V18H17V16M17,4H21V6H17V4Z" />
+              </svg>
+            </button>
+            <div className="capability-menu-anchor">
+              <button
+                className={`control-button${evalMode || timeoutMs !== undefined ? ' has-eval-mode' : ''}`}
+                onClick={() => setIsEvalModeMenuOpen((open) => !open)}
+                title={`计算模式：${EVAL_MODE_LABELS[effectiveEvalMode.mode]}${evalMode ? '' : '（跟随画布）'}；时间预算：${timeoutMs ?? DEFAULT_NODE_TIMEOUT_MS} 毫秒`}
+              >
+                <svg viewBox="0 0 24 24" width="16" height="16">
+                  <path fill="currentColor" d="M12,20A8,8 0 0,0 20,12A8,8 0 0,0 12,4A8,8 0 0,0 4,12A8,8 0 0,0 12,20M12,2A10,10 0 0,1 22,12A10,10 0 0,1 12,22C6.47,22 2,17.5 2,12A10,10 0 0,1 12,2M12.5,7V12.25L17,14.92L16.25,16.15L11,13V7H12.5Z" />
+                </svg>
+              </button>
+              {isEvalModeMenuOpen && (
+                <div className="capability-menu nodrag">
+                  <div className="capability-menu-title">计算模式</div>
+                  <label className="capability-menu-item">
+                    <input
+                      type="radio"
+                      checked={!evalMode}
+                      onChange={() => changeEvalMode(undefined)}
+                    />
+                    跟随画布（{EVAL_MODE_LABELS[canvasEvalMode.mode]}）
+                  </label>
+                  {(Object.keys(EVAL_MODE_LABELS) as CanvasEvalMode[]).map((mode) => (
+                    <label key={mode} className="capability-menu-item">
+                      <input
+                        type="radio"
+                        checked={evalMode?.mode === mode}
+                        onChange={() => changeEvalMode(mode)}
+                      />
+                      {EVAL_MODE_LABELS[mode]}
+                    </label>
+                  ))}
+                  {evalMode?.mode === 'debounced' && (
+                    <label className="capability-menu-item" title="停止修改多久后重新计算">
+                      <input
+                        className="eval-debounce-input"
+                        type="number"
+                        min={0}
+                        step={100}
+                        value={evalMode.debounceMs}
+                        onChange={changeEvalDebounceMs}
+                      />
+                      毫秒
+                    </label>
+                  )}
+                  <div className="capability-menu-title">时间预算</div>
+                  <label className="capability-menu-item" title="单次执行超过该时长即终止；留空使用默认值">
+                    <input
+                      className="eval-debounce-input"
+                      type="number"
+                      min={100}
+                      step={1000}
+                      placeholder={String(DEFAULT_NODE_TIMEOUT_MS)}
+                      value={timeoutMs ?? ''}
+                      onChange={changeTimeoutMs}
+                    />
+                    毫秒
+                  </label>
+                </div>
+              )}
+            </div>
+            <div className="capability-menu-anchor">
+              <button
+                className={`control-button${capabilities.length > 0 ? ' has-capabilities' : ''}`}
+                onClick={() => setIsCapabilityMenuOpen((open) => !open)}
+                title="沙箱权限"
+              >
+                <svg viewBox="0 0 24 24" width="16" height="16">
+                  <path fill="currentColor" d="M12,1L3,5V11C3,16.55 6.84,21.74 12,23C17.16,21.74 21,16.55 21,11V5L12,1M12,3.18L19,6.3V11.22C19,15.54 16.02,19.5 12,20.68C7.98,19.5 5,15.54 5,11.22V6.3L12,3.18Z" />
+                </svg>
+              </button>
+              {isCapabilityMenuOpen && (
+                <div className="capability-menu nodrag">
+                  <div className="capability-menu-title">沙箱权限</div>
+                  {(Object.keys(NODE_CAPABILITIES) as NodeCapability[]).map((capability) => (
+                    <label key={capability} className="capability-menu-item" title={NODE_CAPABILITIES[capability].description}>
+                      <input
+                        type="checkbox"
+                        checked={capabilities.includes(capability)}
+                        onChange={() => toggleCapability(capability)}
+                      />
+                      {NODE_CAPABILITIES[capability].label}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+            <button
+              className={`control-button${semantics === 'local' ? ' local-semantics' : ''}`}
+              onClick={toggleSemantics}
+              title={semantics === 'local'
+                ? '局部语义：只通过连线传值（点击切换为全局语义）'
+                : '全局语义：顶层定义可被其他节点直接引用（点击切换为局部语义）'}
+            >
+              <svg viewBox="0 0 24 24" width="16" height="16">
+                {semantics === 'local' ? (
+                  <path fill="currentColor" d="M12,17A2,2 0 0,0 14,15C14,13.89 13.1,13 12,13A2,2 0 0,0 10,15A2,2 0 0,0 12,17M18,8A2,2 0 0,1 20,10V20A2,2 0 0,1 18,22H6A2,2 0 0,1 4,20V10C4,8.89 4.9,8 6,8H7V6A5,5 0 0,1 12,1A5,5 0 0,1 17,6V8H18M12,3A3,3 0 0,0 9,6V8H15V6A3,3 0 0,0 12,3Z" />
+                ) : (
+                  <path fill="currentColor" d="M17.9,17.39C17.64,16.59 16.89,16 16,16H15V13A1,1 0 0,0 14,12H8V10H10A1,1 0 0,0 11,9V7H13A2,2 0 0,0 15,5V4.59C17.93,5.77 20,8.64 20,12C20,14.08 19.2,15.97 17.9,17.39M11,19.93C7.05,19.44 4,16.08 4,12C4,11.38 4.08,10.78 4.21,10.21L9,15V16A2,2 0 0,0 11,18M12,2A10,10 0 0,0 2,12A10,10 0 0,0 12,22A10,10 0 0,0 22,12A10,10 0 0,0 12,2Z" />
+                )}
+              </svg>
+            </button>
+            {referencesRandom(code) && (
+              <button
+                className="control-button"
+                onClick={reseed}
+                title="重新播种：为本节点换一个随机种子"
+              >
+                <svg viewBox="0 0 24 24" width="16" height="16">
+                  <path fill="currentColor" d="M5,3H19A2,2 0 0,1 21,5V19A2,2 0 0,1 19,21H5A2,2 0 0,1 3,19V5A2,2 0 0,1 5,3M7.5,6A1.5,1.5 0 0,0 6,7.5A1.5,1.5 0 0,0 7.5,9A1.5,1.5 0 0,0 9,7.5A1.5,1.5 0 0,0 7.5,6M16.5,15A1.5,1.5 0 0,0 15,16.5A1.5,1.5 0 0,0 16.5,18A1.5,1.5 0 0,0 18,16.5A1.5,1.5 0 0,0 16.5,15M16.5,6A1.5,1.5 0 0,0 15,7.5A1.5,1.5 0 0,0 16.5,9A1.5,1.5 0 0,0 18,7.5A1.5,1.5 0 0,0 16.5,6M7.5,15A1.5,1.5 0 0,0 6,16.5A1.5,1.5 0 0,0 7.5,18A1.5,1.5 0 0,0 9,16.5A1.5,1.5 0 0,0 7.5,15M12,10.5A1.5,1.5 0 0,0 10.5,12A1.5,1.5 0 0,0 12,13.5A1.5,1.5 0 0,0 13.5,12A1.5,1.5 0 0,0 12,10.5Z" />
+                </svg>
+              </button>
+            )}
             <button
               className="control-button"
               onClick={() => toggleHideSection('inputs')}
@@ -498,6 +741,8 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
             initialText={code || ''}
             onTextChange={handleTextChange}
             onExitEdit={handleExitEdit}
+            diagnostics={diagnostics}
+            inlineHints={inlineHints}
             style={{
               width: '100%'
             }}
@@ -513,6 +758,11 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
         </>
       )}
 
+      {/* 预期的输入输出区域 */}
+      {!isCollapsed && !hasEvalResult && analysis && (
+        <ExpectedPortsDisplay analysis={analysis} portTypes={extractPortTypes(code)} />
+      )}
+
       {/* 输入区域 */}
       {!isCollapsed && (!hiddenSections.inputs || animatingOut.inputs) && controls.length > 0 && (
         <div className={`text-node-section text-node-inputs-section ${animatingOut.inputs ? 'animate-fade-out-down' : 'animate-fade-in-up'}`}>
@@ -542,6 +792,7 @@ const TextNode: React.FC<NodeProps<TextNodeFlowData>> = ({ id, selected }) => {
       {!isCollapsed && (!hiddenSections.outputs || animatingOut.outputs) && Object.keys(outputs).length > 0 && (
         <OutputDisplay
           outputs={outputs}
+          outputTypes={extractPortTypes(code).outputs}
           isAnimatingOut={animatingOut.outputs}
           nodeId={id}
         />
@@ -0,0 +1,52 @@
+import type { CodeEditorDiagnostic } from './types';
+
+export const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+/**
+ * 生成诊断标记层的 HTML：文本与代码完全相同（由样式设为透明），
+ * 诊断范围包裹在 .code-editor-diagnostic 中，叠放在高亮层之上显示波浪线。
+ * 诊断可能来自上一次执行，与正在编辑的文本不完全对应，超出范围的部分一律截断。
+ */
+export const renderDiagnosticsHtml = (code: string, diagnostics: CodeEditorDiagnostic[]): string => {
+  const lines = code.split('\n');
+  const lineStarts: number[] = [];
+  lines.reduce((offset, lineText) => {
+    lineStarts.push(offset);
+    return offset + lineText.length + 1;
+  }, 0);
+
+  const toOffset = (line: number, column = 1) => {
+    const lineIndex = Math.min(Math.max(line, 1), lines.length) - 1;
+    const columnIndex = Math.min(Math.max(column, 1) - 1, lines[lineIndex].length);
+    return lineStarts[lineIndex] + columnIndex;
+  };
+
+  const ranges = diagnostics
+    .map((diagnostic) => {
+      let start = toOffset(diagnostic.line, diagnostic.column);
+      let end = diagnostic.endLine !== undefined
+        ? toOffset(diagnostic.endLine, diagnostic.endColumn)
+        : start + 1;
+      // 至少标出一个字符；位于文末时向前借一个字符
+      if (start >= code.length) start = Math.max(0, code.length - 1);
+      if (end <= start) end = start + 1;
+      return { start, end: Math.min(end, code.length), severity: diagnostic.severity };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  let html = '';
+  let cursor = 0;
+  ranges.forEach(({ start, end, severity }) => {
+    // 与前一个范围重叠的部分不再重复标记
+    if (start < cursor) return;
+    html += escapeHtml(code.slice(cursor, start));
+    html += `<span class="code-editor-diagnostic ${severity}">${escapeHtml(code.slice(start, end))}</span>`;
+    cursor = end;
+  });
+  return html + escapeHtml(code.slice(cursor));
+};
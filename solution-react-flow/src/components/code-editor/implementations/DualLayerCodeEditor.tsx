@@ -3,6 +3,8 @@ import Prism from 'prismjs';
 import 'prismjs/components/prism-javascript';
 import { useKeyPress } from '@xyflow/react';
 
+import { renderDiagnosticsHtml } from '../diagnostics';
+import { renderInlineHintsHtml } from '../inlineHints';
 import type { CodeEditorComponent } from '../types';
 
 /**
@@ -14,10 +16,14 @@ export const DualLayerCodeEditor: CodeEditorComponent = ({
   onTextChange,
   onExitEdit,
   className = '',
-  style = {}
+  style = {},
+  diagnostics = [],
+  inlineHints = [],
 }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const mirrorRef = useRef<HTMLPreElement>(null);
+  const diagnosticsRef = useRef<HTMLPreElement>(null);
+  const inlineHintsRef = useRef<HTMLPreElement>(null);
 
   // 使用 Prism 生成语法高亮的 HTML 片段
   const highlightCode = useCallback((code: string): string => {
@@ -46,6 +52,18 @@ export const DualLayerCodeEditor: CodeEditorComponent = ({
     textareaRef.current.value = initialText;
   }, [initialText, highlightCode]);
 
+  // 诊断标记层跟随诊断信息与当前文本更新
+  useEffect(() => {
+    if (!diagnosticsRef.current || !textareaRef.current) return;
+    diagnosticsRef.current.innerHTML = renderDiagnosticsHtml(textareaRef.current.value, diagnostics);
+  }, [initialText, diagnostics]);
+
+  // 行内提示层同样跟随提示与当前文本更新
+  useEffect(() => {
+    if (!inlineHintsRef.current || !textareaRef.current) return;
+    inlineHintsRef.current.innerHTML = renderInlineHintsHtml(textareaRef.current.value, inlineHints);
+  }, [initialText, inlineHints]);
+
 
   // ------------------
   // 按住 Shift 键，强制进入全部位可拖动状态
@@ -66,6 +84,12 @@ export const DualLayerCodeEditor: CodeEditorComponent = ({
     if (mirrorRef.current) {
       mirrorRef.current.innerHTML = highlightCode(value);
     }
+    if (diagnosticsRef.current) {
+      diagnosticsRef.current.innerHTML = renderDiagnosticsHtml(value, diagnostics);
+    }
+    if (inlineHintsRef.current) {
+      inlineHintsRef.current.innerHTML = renderInlineHintsHtml(value, inlineHints);
+    }
     onTextChange(value);
   };
 
@@ -91,6 +115,41 @@ export const DualLayerCodeEditor: CodeEditorComponent = ({
           pointerEvents: 'none',
         }}
       />
+      <pre
+        ref={diagnosticsRef}
+        className="code-editor-dual__diagnostics"
+        aria-hidden
+        style={{
+          position: 'absolute',
+          inset: 0,
+          margin: 0,
+          padding: '10px',
+          fontFamily: 'JetBrains Mono, AlimamaFangYuanTi, monospace',
+          fontSize: '14px',
+          lineHeight: '1.5',
+          whiteSpace: 'pre-wrap',
+          color: 'transparent',
+          pointerEvents: 'none',
+        }}
+      />
+      <pre
+        ref={inlineHintsRef}
+        className="code-editor-dual__inline-hints"
+        aria-hidden
+        style={{
+          position: 'absolute',
+          inset: 0,
+          margin: 0,
+          padding: '10px',
+          fontFamily: 'JetBrains Mono, AlimamaFangYuanTi, monospace',
+          fontSize: '14px',
+          lineHeight: '1.5',
+          whiteSpace: 'pre-wrap',
+          color: 'transparent',
+          overflow: 'hidden',
+          pointerEvents: 'none',
+        }}
+      />
       <textarea
         ref={textareaRef}
         defaultValue={initialText}
@@ -2,6 +2,7 @@ import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react'
 import Prism from 'prismjs';
 import 'prismjs/components/prism-javascript';
 
+import { renderInlineHintsHtml } from '../inlineHints';
 import type { CodeEditorComponent } from '../types';
 
 export const MonacoLikeCodeEditor: CodeEditorComponent = ({
@@ -9,7 +10,8 @@ export const MonacoLikeCodeEditor: CodeEditorComponent = ({
   onTextChange,
   onExitEdit,
   className = '',
-  style = {}
+  style = {},
+  inlineHints = [],
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [text, setText] = useState(initialText);
@@ -48,6 +50,9 @@ export const MonacoLikeCodeEditor: CodeEditorComponent = ({
   // 语法高亮HTML
   const highlightedHtml = useMemo(() => generateHighlightedCode(text), [text, generateHighlightedCode]);
 
+  // 行内提示层HTML
+  const inlineHintsHtml = useMemo(() => renderInlineHintsHtml(text, inlineHints), [text, inlineHints]);
+
   // 计算光标位置并更新 textarea 位置
   const updateCursorPosition = useCallback(() => {
     if (!textareaRef.current) return;
@@ -396,6 +401,32 @@ export const MonacoLikeCodeEditor: CodeEditorComponent = ({
         }}
       />
 
+      {/* 行内提示层 - 文字透明，只显示接在行尾的提示 */}
+      {inlineHints.length > 0 && (
+        <div
+          className="code-editor-inline-hints"
+          aria-hidden
+          dangerouslySetInnerHTML={{ __html: inlineHintsHtml }}
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            fontFamily: 'JetBrains Mono, AlimamaFangYuanTi, monospace',
+            fontSize: '14px',
+            lineHeight: '1.5',
+            margin: 0,
+            padding: '8px',
+            whiteSpace: 'pre-wrap',
+            boxSizing: 'border-box',
+            color: 'transparent',
+            overflow: 'hidden',
+            pointerEvents: 'none'
+          }}
+        />
+      )}
+
       {/* 1x1 textarea 用于输入 */}
       <textarea
         ref={textareaRef}
@@ -0,0 +1,18 @@
+import { escapeHtml } from './diagnostics';
+import type { CodeEditorInlineHint } from './types';
+
+/**
+ * 生成行内提示层的 HTML：文本与代码完全相同（由样式设为透明），
+ * 提示以绝对定位的 .code-editor-inline-hint 接在对应行的末尾，不会把后面的行挤下去。
+ * 提示可能来自上一次执行，超出当前文本行数的提示直接忽略。
+ */
+export const renderInlineHintsHtml = (code: string, hints: CodeEditorInlineHint[]): string => {
+  const hintsByLine = new Map(hints.map((hint) => [hint.line, hint.text]));
+  return code
+    .split('\n')
+    .map((lineText, index) => {
+      const hint = hintsByLine.get(index + 1);
+      return escapeHtml(lineText) + (hint === undefined ? '' : `<span class="code-editor-inline-hint">${escapeHtml(hint)}</span>`);
+    })
+    .join('\n');
+};
@@ -1,11 +1,29 @@
 import type React from 'react';
 
+// 需要在代码中标出的位置；行、列从 1 开始，end 不含，缺省时只标出起始处的一个字符
+export interface CodeEditorDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+// 显示在某一行末尾的淡色提示（例如行内值）；行号从 1 开始
+export interface CodeEditorInlineHint {
+  line: number;
+  text: string;
+}
+
 export interface CodeEditorProps {
   initialText: string;
   onTextChange: (text: string) => void;
   onExitEdit: () => void;
   className?: string;
   style?: React.CSSProperties;
+  diagnostics?: CodeEditorDiagnostic[];
+  inlineHints?: CodeEditorInlineHint[];
 }
 
 export type CodeEditorComponent = React.FC<CodeEditorProps>;
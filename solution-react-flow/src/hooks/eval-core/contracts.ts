@@ -1,9 +1,20 @@
-import type { ExecutionResult } from '@/services/jsExecutor';
-import type { CanvasEdgeUIData } from '@/types/canvas';
+import type { ExecutionResult, NodeLateReport, NodeLibrarySource } from '@/services/jsExecutor';
+import type { NodeModuleSource } from '@/services/nodeModules';
+import type { NodeCapability } from '@/services/sandbox';
+import type { CanvasEdgeUIData, CanvasNodeUIData } from '@/types/canvas';
 
+/**
+ * 依赖关系：
+ * - incomingByTarget / outgoingBySource：节点级别的依赖；
+ * - portMappingByTarget[target][source]：该依赖边上的端口映射（源输出名 -> 目标输入名），
+ *   没有配置映射的边不出现在这里，表示全部输出按原名传入；
+ * - referenceSourcesByTarget[target]：与 target 之间的连线设置了按引用传递的上游节点。
+ */
 export interface ResolvedDepIOs {
   incomingByTarget: Record<string, string[]>;
   outgoingBySource: Record<string, string[]>;
+  portMappingByTarget: Record<string, Record<string, Record<string, string>>>;
+  referenceSourcesByTarget: Record<string, string[]>;
 }
 
 export interface ResolvedDPIOs {
@@ -11,23 +22,82 @@ export interface ResolvedDPIOs {
   outgoingBySource: Record<string, Record<string, string>>;
 }
 
+/**
+ * 全局语义下的符号依赖：
+ * - importsByTarget[target][name] = source：target 引用的自由变量 name 由 source 的顶层定义提供；
+ * - exportsBySource[source]：source 需要对外提供的顶层定义名；
+ * - modulesByTarget[target][nodeName] = source：target 以 import ... from "@node/nodeName" 引用的模块节点；
+ * - librariesByTarget[target]：target（TextNode 或共享库）直接引用了其中定义的共享库节点；共享库的 exportsBySource 为它的全部顶层定义。
+ */
+export interface ResolvedGlobalIOs {
+  importsByTarget: Record<string, Record<string, string>>;
+  exportsBySource: Record<string, string[]>;
+  modulesByTarget: Record<string, Record<string, string>>;
+  librariesByTarget: Record<string, string[]>;
+}
+
 /**
  * 依赖解析器契约：
- * - 输入当前 UI 边集合；
- * - 输出 eval 需要的依赖映射结构。
+ * - 输入当前 UI 边集合与节点集合；
+ * - 输出 eval 需要的依赖映射结构；
+ * - 只依赖边的解析器可以忽略 nodes，也不必输出 globalIOs。
  */
 export interface EvalDependencyResolver {
-  resolve: (edges: CanvasEdgeUIData[]) => {
+  resolve: (edges: CanvasEdgeUIData[], nodes: Map<string, CanvasNodeUIData>) => {
     depIOs: ResolvedDepIOs;
     DPIOs: ResolvedDPIOs;
+    globalIOs?: ResolvedGlobalIOs;
   };
 }
 
+/**
+ * 单次节点执行的上下文：
+ * - nodeId 让引擎可以按节点隔离运行时（例如每个节点一个 Worker）；
+ * - timeoutMs 为该节点本次执行的时间预算，未提供时由引擎自行决定；
+ * - signal 触发时引擎应尽快结束本次执行，并以错误结果返回；节点代码可通过 node_signal 感知；
+ * - globals 为全局语义下从上游导入的定义，exportNames 为需要回传给下游的顶层定义名；
+ * - capabilities 为节点申请的沙箱能力，只有提供隔离 realm 的引擎才能据此限制节点代码；
+ * - modules 为节点（直接或间接）导入的模块节点源码，按依赖顺序排列，由引擎在执行前实例化；
+ * - libraries 为节点引用的共享库源码，由引擎在执行前执行并把其顶层定义注入节点作用域；
+ * - time 为本轮计算的时钟时间（秒），节点代码通过 node_time() 读取；
+ * - randomSeed 为节点的随机种子，node_random() 每次执行都从它重新开始；replaceMathRandom 时 Math.random 同样使用它；
+ * - referenceInputs 为按引用传入的输入名，引擎应在开发环境下阻止节点代码修改它们；
+ * - inlineValues 时引擎应记录顶层语句的值，经 ExecutionResult.lineValues 返回；
+ * - onEmit 接收节点在执行中途产出的全部输出（与最终输出一样已编码），引擎需等它完成后才让节点继续产出；
+ * - onLateReport 接收执行结束后由节点代码启动的回调（定时器、Promise 等）产生的日志与错误，可能在之后任意时刻调用。
+ */
+export interface EvalExecutionContext {
+  nodeId: string;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  globals?: Record<string, unknown>;
+  exportNames?: string[];
+  capabilities?: NodeCapability[];
+  modules?: NodeModuleSource[];
+  libraries?: NodeLibrarySource[];
+  time?: number;
+  randomSeed?: number;
+  replaceMathRandom?: boolean;
+  referenceInputs?: string[];
+  inlineValues?: boolean;
+  onEmit?: (outputs: Record<string, unknown>) => Promise<void> | void;
+  onLateReport?: (report: NodeLateReport) => void;
+}
+
 /**
  * 执行引擎契约：
  * - 输入 code 与已解析输入值；
- * - 返回统一 ExecutionResult，便于后续替换运行时引擎。
+ * - 返回统一 ExecutionResult，便于后续替换运行时引擎；
+ * - 输出按 portableValues 的策略编码（函数、类实例转为可克隆的描述），输入在执行前解码。
+ * - release/dispose 为可选的资源回收入口，无状态引擎可以不实现；
+ * - maxConcurrency 为引擎可同时执行的节点数上限，缺省视为 1（只能串行）；
+ * - copiesInputs 表示引擎自身会复制输入（例如经由 postMessage），调用方不必再为按值传递的输入做拷贝；
+ *   这样的引擎无法按引用传递，连线上的按引用传递设置不起作用。
  */
 export interface EvalExecutionEngine {
-  executeCode: (code: string, inputs: Record<string, any>) => Promise<ExecutionResult>;
+  maxConcurrency?: number;
+  copiesInputs?: boolean;
+  executeCode: (code: string, inputs: Record<string, unknown>, context?: EvalExecutionContext) => Promise<ExecutionResult>;
+  release?: (nodeId: string) => void;
+  dispose?: () => void;
 }
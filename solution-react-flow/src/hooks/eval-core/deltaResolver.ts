@@ -0,0 +1,461 @@
+import { produce } from 'immer';
+import type { Control } from '@/services/jsExecutor';
+import type { NodeCapability } from '@/services/sandbox';
+import { deriveNodeSeed } from '@/services/seededRandom';
+import { CanvasNodeKind, type CanvasEdgeUIData, type CanvasNodeUIData, type CanvasUIData } from '@/types/canvas';
+import type { EvalTriggerReason } from './evalProfiler';
+import type {
+  CanvasEvalDeltaDPEdge,
+  CanvasEvalDeltaDepEdge,
+  CanvasEvalNode,
+  CanvasEvalNodes,
+  CanvasEvalStoreState,
+  ResolvedCanvasIOs,
+} from './evalState';
+
+/**
+ * delta 解析：比较最新 UI 数据与上一版已完成的计算状态，得出需要重新计算的节点及原因，
+ * 并据此构建下一版节点状态。
+ */
+
+type NodeRandomState = Pick<CanvasEvalNode, 'randomSeed' | 'replaceMathRandom'>;
+
+// 执行代码的节点（TextNode 与共享库节点）的随机状态：种子由画布种子、节点 id 与 TextNode 的重新播种偏移派生
+const resolveNodeRandom = (uiData: CanvasUIData, nodeId: string, node: CanvasNodeUIData): NodeRandomState => {
+  if (node.type === CanvasNodeKind.DesmosPreviewNode) return {};
+  return {
+    randomSeed: deriveNodeSeed(
+      uiData.random.seed,
+      nodeId,
+      node.type === CanvasNodeKind.TextNode ? node.data.randomSeed : undefined,
+    ),
+    replaceMathRandom: uiData.random.replaceMathRandom,
+  };
+};
+
+// create initial node data
+const createInitialNodeData = (
+  type: CanvasNodeUIData['type'],
+  code: string,
+  controls: Control[],
+  timeoutMs?: number,
+  capabilities?: NodeCapability[],
+  random: NodeRandomState = {},
+  inlineValues?: boolean,
+): CanvasEvalNode => ({
+  type,
+  code,
+  timeoutMs,
+  capabilities,
+  ...random,
+  inlineValues,
+  isEvaluating: false,
+  controls: controls.map((control) => ({ ...control })),
+  outputs: {},
+  logs: [],
+  errors: [],
+  warnings: [],
+});
+
+// --- 增量更新解析相关 ---
+
+
+const isSameCapabilities = (a: NodeCapability[] = [], b: NodeCapability[] = []) =>
+  a.length === b.length && a.every((capability) => b.includes(capability));
+
+// 为边生成唯一键，便于在 diff 过程中进行集合对比
+const createEdgeKey = ({ source, target }: Pick<CanvasEdgeUIData, 'source' | 'target'>) => `${source}->${target}`;
+
+// 描述一次 CanvasEvalInput 变化中我们关心的增量信息
+export interface CanvasEvalDelta {
+  addedNodeIds: string[];
+  removedNodeIds: string[];
+  updatedNodeIds: string[];
+  addedDepEdges: CanvasEvalDeltaDepEdge[];
+  removedDepEdges: CanvasEvalDeltaDepEdge[];
+  // 端口映射发生变化的依赖边（边本身仍在）
+  remappedDepEdges: CanvasEvalDeltaDepEdge[];
+  addedDPEdges: CanvasEvalDeltaDPEdge[];
+  removedDPEdges: CanvasEvalDeltaDPEdge[];
+  // 对外提供的全局定义名发生变化的节点：需要重新执行以导出新的名字
+  exportChangedNodeIds: string[];
+  impactedNodeIds: string[];
+  // 每个 impacted 节点被纳入计算的直接原因
+  triggerReasons: Record<string, EvalTriggerReason>;
+  hasChanges: boolean;
+}
+
+interface EvalComparableNode extends NodeRandomState {
+  id: string;
+  code: string;
+  controls: Control[];
+  timeoutMs?: number;
+  capabilities?: NodeCapability[];
+  inlineValues?: boolean;
+}
+
+
+// 从 lastCompletedState（或本次解析结果）中提取边信息，用于比较
+const extractEdgesFromState = (state: Pick<CanvasEvalStoreState, 'depIOs' | 'DPIOs'>): { dep: CanvasEvalDeltaDepEdge[], DP: CanvasEvalDeltaDPEdge[] } => {
+  const depEdges: CanvasEvalDeltaDepEdge[] = [];
+  const DPEdges: CanvasEvalDeltaDPEdge[] = [];
+  Object.entries(state.depIOs.outgoingBySource).forEach(([source, targets]) => {
+    targets.forEach((target) => {
+      depEdges.push({ source, target });
+    });
+  });
+  Object.entries(state.DPIOs.outgoingBySource).forEach(([source, targets]) => {
+    Object.entries(targets).forEach(([sourceOutputName, target]) => {
+      DPEdges.push({ source, target, data: { sourceOutputName } });
+    });
+  });
+  return { dep: depEdges, DP: DPEdges };
+};
+
+// 计算 currentInput 与 lastCompletedState 之间的差异，并推断需要重新计算的节点集合
+// 改为基于 lastCompletedState 而非历史 input 来比较，这样能捕获所有状态变化（包括通过 requestEvaluation 等触发的）
+// 依赖边取自 resolver 的解析结果（含符号推断出的依赖），而不是只看画布上画出的边
+export const resolveDeltaByUIData = (
+  lastCompletedState: CanvasEvalStoreState | null,
+  uiData: CanvasUIData,
+  resolved: ResolvedCanvasIOs,
+): CanvasEvalDelta => {
+  const currEdges = extractEdgesFromState(resolved);
+
+  // 如果没有上次完成的状态，则认为所有节点都是新增的
+  if (!lastCompletedState) {
+    const addedNodeIds = Array.from(uiData.nodes.keys());
+    const impactedNodeIds = addedNodeIds;
+    return {
+      addedNodeIds,
+      removedNodeIds: [],
+      updatedNodeIds: [],
+      addedDepEdges: currEdges.dep,
+      removedDepEdges: [],
+      remappedDepEdges: [],
+      addedDPEdges: currEdges.DP,
+      removedDPEdges: [],
+      exportChangedNodeIds: [],
+      impactedNodeIds,
+      triggerReasons: Object.fromEntries(addedNodeIds.map((id) => [id, 'added' as const])),
+      hasChanges: true,
+    };
+  }
+
+  // 从 lastCompletedState 中提取节点和边信息
+  const prevNodeMap = new Map<string, EvalComparableNode>(
+    Object.entries(lastCompletedState.nodes)
+      .map(([id, nodeData]) => [id, {
+        id,
+        code: nodeData.code,
+        controls: nodeData.controls,
+        timeoutMs: nodeData.timeoutMs,
+        capabilities: nodeData.capabilities,
+        inlineValues: nodeData.inlineValues,
+        randomSeed: nodeData.randomSeed,
+        replaceMathRandom: nodeData.replaceMathRandom,
+      }])
+  );
+  const currNodeMap = new Map<string, EvalComparableNode>(Array.from(uiData.nodes.entries()).map(([id, node]) => [
+    id,
+    {
+      id,
+      code: node.type === CanvasNodeKind.TextNode || node.type === CanvasNodeKind.LibraryNode ? node.data.code : '',
+      controls: node.type === CanvasNodeKind.TextNode ? (node.data.controls as Control[]) : [],
+      timeoutMs: node.type === CanvasNodeKind.TextNode ? node.data.timeoutMs : undefined,
+      capabilities: node.type === CanvasNodeKind.TextNode ? node.data.capabilities : undefined,
+      inlineValues: node.type === CanvasNodeKind.TextNode ? node.data.inlineValues : undefined,
+      ...resolveNodeRandom(uiData, id, node),
+    }
+  ]));
+
+  const addedNodeIds: string[] = [];
+  const removedNodeIds: string[] = [];
+  const updatedNodeIds: string[] = [];
+  const updateReasons = new Map<string, EvalTriggerReason>();
+
+  // 逐一检查当前节点，识别新增与修改节点
+  currNodeMap.forEach((currNode) => {
+    const prevNode = prevNodeMap.get(currNode.id);
+    if (!prevNode) {
+      addedNodeIds.push(currNode.id);
+      return;
+    }
+    // 检查 code 变化
+    if (prevNode.code !== currNode.code) {
+      updatedNodeIds.push(currNode.id);
+      updateReasons.set(currNode.id, 'code');
+      return;
+    }
+    // 时间预算变化同样需要重新执行（例如放宽预算后重试超时节点）
+    if (prevNode.timeoutMs !== currNode.timeoutMs) {
+      updatedNodeIds.push(currNode.id);
+      updateReasons.set(currNode.id, 'timeout');
+      return;
+    }
+    // 能力开放与否会改变执行结果（例如 fetch 从报错变为可用）
+    if (!isSameCapabilities(prevNode.capabilities, currNode.capabilities)) {
+      updatedNodeIds.push(currNode.id);
+      updateReasons.set(currNode.id, 'capabilities');
+      return;
+    }
+    // 开启行内值后需要重新执行才能记录到值；关闭时重新执行以清除显示
+    if (Boolean(prevNode.inlineValues) !== Boolean(currNode.inlineValues)) {
+      updatedNodeIds.push(currNode.id);
+      updateReasons.set(currNode.id, 'inlineValues');
+      return;
+    }
+    // 种子变化时，用到随机数的节点结果会变化；其余节点会因缓存命中而跳过执行
+    if (prevNode.randomSeed !== currNode.randomSeed || prevNode.replaceMathRandom !== currNode.replaceMathRandom) {
+      updatedNodeIds.push(currNode.id);
+      updateReasons.set(currNode.id, 'seed');
+      return;
+    }
+    // 检查 controls 变化
+    const prevControlsMap = new Map(prevNode.controls.map(c => [c.name, c]));
+    const currControlsMap = new Map(currNode.controls.map((c: Control) => [c.name, c]));
+
+    currControlsMap.forEach((currControl) => {
+      const prevControl = prevControlsMap.get(currControl.name);
+      if (!prevControl
+        || prevControl.defaultValue !== currControl.defaultValue
+        || prevControl.type !== currControl.type
+        || prevControl.value !== currControl.value
+        || prevControl.min !== currControl.min
+        || prevControl.max !== currControl.max
+        || prevControl.step !== currControl.step
+      ) {
+        updatedNodeIds.push(currNode.id);
+        updateReasons.set(currNode.id, 'controls');
+        return;
+      }
+    });
+
+    prevControlsMap.forEach((prevControl) => {
+      if (!currControlsMap.has(prevControl.name)) {
+        updatedNodeIds.push(currNode.id);
+        updateReasons.set(currNode.id, 'controls');
+        return;
+      }
+    });
+  });
+
+  // 找出已经不存在的节点
+  prevNodeMap.forEach((_, nodeId) => {
+    if (!currNodeMap.has(nodeId)) {
+      removedNodeIds.push(nodeId);
+    }
+  });
+
+  const extractedPrevEdges = extractEdgesFromState(lastCompletedState);
+  const prevDepEdges = extractedPrevEdges.dep;
+  const currDepEdges = currEdges.dep;
+  const prevDepEdgeSet = new Set(prevDepEdges.map(createEdgeKey));
+  const currDepEdgeSet = new Set(currDepEdges.map(createEdgeKey));
+
+  const addedDepEdges: CanvasEvalDeltaDepEdge[] = [];
+  const removedDepEdges: CanvasEvalDeltaDepEdge[] = [];
+
+  currDepEdges.forEach((edge) => {
+    if (!prevDepEdgeSet.has(createEdgeKey(edge))) {
+      addedDepEdges.push(edge);
+    }
+  });
+
+  prevDepEdges.forEach((edge) => {
+    if (!currDepEdgeSet.has(createEdgeKey(edge))) {
+      removedDepEdges.push(edge);
+    }
+  });
+
+  const remappedDepEdges: CanvasEvalDeltaDepEdge[] = [];
+  const prevMappings = lastCompletedState.depIOs.portMappingByTarget;
+  const currMappings = resolved.depIOs.portMappingByTarget;
+  const prevReferences = lastCompletedState.depIOs.referenceSourcesByTarget;
+  const currReferences = resolved.depIOs.referenceSourcesByTarget;
+  // 端口映射或传递方式变化的边：依赖关系不变，但目标节点需要重新计算
+  currDepEdges.forEach((edge) => {
+    if (!prevDepEdgeSet.has(createEdgeKey(edge))) return;
+    const prevMapping = prevMappings[edge.target]?.[edge.source];
+    const currMapping = currMappings[edge.target]?.[edge.source];
+    const prevByReference = prevReferences[edge.target]?.includes(edge.source) ?? false;
+    const currByReference = currReferences[edge.target]?.includes(edge.source) ?? false;
+    if (JSON.stringify(prevMapping) !== JSON.stringify(currMapping) || prevByReference !== currByReference) {
+      remappedDepEdges.push(edge);
+    }
+  });
+
+  const prevDPEdges = extractedPrevEdges.DP;
+  const currDPEdges = currEdges.DP;
+  const prevDPEdgeSet = new Set(prevDPEdges.map(createEdgeKey));
+  const currDPEdgeSet = new Set(currDPEdges.map(createEdgeKey));
+
+  const addedDPEdges: CanvasEvalDeltaDPEdge[] = [];
+  const removedDPEdges: CanvasEvalDeltaDPEdge[] = [];
+
+  currDPEdges.forEach((edge) => {
+    if (!prevDPEdgeSet.has(createEdgeKey(edge))) {
+      addedDPEdges.push(edge);
+    }
+  });
+
+  prevDPEdges.forEach((edge) => {
+    if (!currDPEdgeSet.has(createEdgeKey(edge))) {
+      removedDPEdges.push(edge);
+    }
+  });
+
+  // 对外导出的名字变了（例如下游新引用了某个定义），源节点需要重新执行才能提供它
+  const exportChangedNodeIds: string[] = [];
+  const prevExports = lastCompletedState.globalIOs.exportsBySource;
+  const currExports = resolved.globalIOs.exportsBySource;
+  new Set([...Object.keys(prevExports), ...Object.keys(currExports)]).forEach((nodeId) => {
+    const prevNames = [...(prevExports[nodeId] ?? [])].sort().join(',');
+    const currNames = [...(currExports[nodeId] ?? [])].sort().join(',');
+    if (prevNames !== currNames) exportChangedNodeIds.push(nodeId);
+  });
+
+  // 汇总需要重新计算的节点集合（同时记录纳入原因，先记录的原因优先）
+  const impacted = new Map<string, EvalTriggerReason>();
+  const addImpacted = (id: string, reason: EvalTriggerReason) => {
+    if (!impacted.has(id)) impacted.set(id, reason);
+  };
+
+  addedNodeIds.forEach((id) => addImpacted(id, 'added'));
+  updatedNodeIds.forEach((id) => addImpacted(id, updateReasons.get(id) ?? 'code'));
+  addedDepEdges.forEach((edge) => addImpacted(edge.target, 'dependency'));
+  removedDepEdges.forEach((edge) => addImpacted(edge.target, 'dependency'));
+  remappedDepEdges.forEach((edge) => addImpacted(edge.target, 'dependency'));
+  addedDPEdges.forEach((edge) => addImpacted(edge.target, 'dependency'));    // Again this is not necessary if incoming data is consistent
+  exportChangedNodeIds.forEach((id) => addImpacted(id, 'dependency'));
+  // no need to add removedDPEdges, because as a desmos preview edge is removed the target preview node will be removed anyway
+
+  // 节点被移除时，其下游节点同样需要重新计算
+  // （兜底，以防输入数据不良，删除节点时没删除边而遗漏下游节点）
+  removedNodeIds.forEach((nodeId) => {
+    const downstream = currDepEdges.filter((edge) => edge.source === nodeId).map((edge) => edge.target);
+    downstream.forEach((targetId) => addImpacted(targetId, 'dependency'));
+  });
+
+  // 仅保留当前图中实际存在的节点，避免无效计算
+  // （removeEdges 等可能会向 impacted 添加不存在的节点，需要过滤掉）
+  const currNodeIds = new Set(currNodeMap.keys());
+  const impactedNodeIds = [...impacted.keys()].filter((id) => currNodeIds.has(id));
+  const triggerReasons = Object.fromEntries(impactedNodeIds.map((id) => [id, impacted.get(id)!]));
+
+  const hasChanges =
+    addedNodeIds.length > 0 ||
+    removedNodeIds.length > 0 ||
+    updatedNodeIds.length > 0 ||
+    addedDepEdges.length > 0 ||
+    removedDepEdges.length > 0 ||
+    remappedDepEdges.length > 0 ||
+    addedDPEdges.length > 0 ||
+    removedDPEdges.length > 0 ||
+    exportChangedNodeIds.length > 0;
+
+  return {
+    addedNodeIds,
+    removedNodeIds,
+    updatedNodeIds,
+    addedDepEdges,
+    removedDepEdges,
+    remappedDepEdges,
+    addedDPEdges,
+    removedDPEdges,
+    exportChangedNodeIds,
+    impactedNodeIds,
+    triggerReasons,
+    hasChanges,
+  };
+};
+
+// 根据最新 UI 数据构建下一版 eval 数据(nodes) --- 全量更新版，用于首次运行
+export const createInitialEvalNodes = (
+  uiData: CanvasUIData,
+): CanvasEvalNodes => {
+  const nextNodes: CanvasEvalNodes = {};
+
+  uiData.nodes.forEach((node, nodeId) => {
+    if (node.type === CanvasNodeKind.TextNode) {
+      nextNodes[nodeId] = createInitialNodeData(
+        CanvasNodeKind.TextNode,
+        node.data.code as string,
+        node.data.controls as Control[],
+        node.data.timeoutMs,
+        node.data.capabilities,
+        resolveNodeRandom(uiData, nodeId, node),
+        node.data.inlineValues,
+      );
+    } else if (node.type === CanvasNodeKind.LibraryNode) {
+      nextNodes[nodeId] = createInitialNodeData(
+        CanvasNodeKind.LibraryNode,
+        node.data.code,
+        [],
+        undefined,
+        undefined,
+        resolveNodeRandom(uiData, nodeId, node),
+      );
+    } else {
+      nextNodes[nodeId] = createInitialNodeData(node.type, '', []);
+    }
+  });
+
+  return nextNodes;
+};
+
+// 根据最新 UI 数据构建下一版 eval 数据(nodes) --- 增量更新版，用于非初次运行
+export const buildNextEvalNodes = (
+  currNodes: CanvasEvalNodes,
+  currUIData: CanvasUIData,
+  delta: CanvasEvalDelta,
+): CanvasEvalNodes =>
+  produce(currNodes, (draft) => {
+    delta.addedNodeIds.forEach((id) => {
+      const node = currUIData.nodes.get(id);
+      if (!node) return;
+      if (node.type === CanvasNodeKind.TextNode) {
+        draft[id] = createInitialNodeData(
+          CanvasNodeKind.TextNode,
+          node.data.code as string,
+          node.data.controls as Control[],
+          node.data.timeoutMs,
+          node.data.capabilities,
+          resolveNodeRandom(currUIData, id, node),
+          node.data.inlineValues,
+        );
+      } else if (node.type === CanvasNodeKind.LibraryNode) {
+        draft[id] = createInitialNodeData(
+          CanvasNodeKind.LibraryNode,
+          node.data.code,
+          [],
+          undefined,
+          undefined,
+          resolveNodeRandom(currUIData, id, node),
+        );
+      } else {
+        draft[id] = createInitialNodeData(node.type, '', []);
+      }
+    });
+
+    delta.removedNodeIds.forEach((id) => {
+      delete draft[id];
+    });
+
+    delta.updatedNodeIds.forEach((id) => {
+      const node = currUIData.nodes.get(id);
+      if (node?.type === CanvasNodeKind.LibraryNode) {
+        draft[id]!.code = node.data.code;
+        Object.assign(draft[id]!, resolveNodeRandom(currUIData, id, node));
+        return;
+      }
+      if (!node || node.type !== CanvasNodeKind.TextNode) return;
+      draft[id]!.type = CanvasNodeKind.TextNode;
+      draft[id]!.code = node.data.code as string;
+      draft[id]!.timeoutMs = node.data.timeoutMs;
+      draft[id]!.capabilities = node.data.capabilities;
+      draft[id]!.inlineValues = node.data.inlineValues;
+      Object.assign(draft[id]!, resolveNodeRandom(currUIData, id, node));
+      draft[id]!.controls = (node.data.controls as Control[]).map((control) => ({ ...control }));
+    });
+  });
@@ -4,6 +4,8 @@ import type { EvalDependencyResolver } from './contracts';
 const buildDepIOs = (edges: CanvasEdgeUIData[]) => {
   const incoming: Record<string, string[]> = {};
   const outgoing: Record<string, string[]> = {};
+  const portMappings: Record<string, Record<string, Record<string, string>>> = {};
+  const referenceSources: Record<string, string[]> = {};
 
   edges.forEach((edge) => {
     const { source, target } = edge;
@@ -12,9 +14,24 @@ const buildDepIOs = (edges: CanvasEdgeUIData[]) => {
 
     if (!outgoing[source]) outgoing[source] = [];
     if (!outgoing[source].includes(target)) outgoing[source].push(target);
+
+    if (edge.type === CanvasEdgeKind.CustomEdge && edge.data?.portMapping) {
+      if (!portMappings[target]) portMappings[target] = {};
+      portMappings[target][source] = { ...edge.data.portMapping };
+    }
+
+    if (edge.type === CanvasEdgeKind.CustomEdge && edge.data?.passByReference) {
+      if (!referenceSources[target]) referenceSources[target] = [];
+      if (!referenceSources[target].includes(source)) referenceSources[target].push(source);
+    }
   });
 
-  return { incomingByTarget: incoming, outgoingBySource: outgoing };
+  return {
+    incomingByTarget: incoming,
+    outgoingBySource: outgoing,
+    portMappingByTarget: portMappings,
+    referenceSourcesByTarget: referenceSources,
+  };
 };
 
 const buildDPIOs = (edges: CanvasEdgeUIData[]) => {
@@ -42,8 +59,8 @@ const buildDPIOs = (edges: CanvasEdgeUIData[]) => {
 };
 
 /**
- * 默认 resolver：根据画布边关系推导依赖。
- * 后续可替换为“符号解析依赖”实现。
+ * 基础 resolver：仅根据画布边关系推导依赖。
+ * 符号解析依赖见 symbolDependencyResolver，它在此基础上叠加推断出的依赖。
  */
 export const edgeDependencyResolver: EvalDependencyResolver = {
   resolve: (edges) => ({
@@ -0,0 +1,98 @@
+import { createStore } from 'zustand/vanilla';
+
+export interface EvalClockState {
+  isPlaying: boolean;
+  // 当前时间（秒），节点代码通过 node_time() 读取
+  time: number;
+  // 自上次重置以来推进的帧数
+  frame: number;
+  // 目标帧率：播放时每秒推进的帧数，每帧时间前进 1 / fps 秒
+  fps: number;
+  // 循环区间（秒）：时间超过 loopEnd 时回到 loopStart；loopEnd 为 null 时不循环
+  loopStart: number;
+  loopEnd: number | null;
+  // 因上一帧尚未算完而丢弃的帧数（自上次重置以来）
+  droppedFrames: number;
+}
+
+export const DEFAULT_CLOCK_FPS = 30;
+export const MAX_CLOCK_FPS = 120;
+
+const CLOCK_REFERENCE_PATTERN = /\bnode_time\b/;
+
+// 引用了 node_time 的代码随时钟推进而需要重新执行
+export const referencesClock = (code: string) => CLOCK_REFERENCE_PATTERN.test(code);
+
+// 浮点累加会产生 0.30000000000000004 这类误差，按微秒取整
+const roundTime = (time: number) => Math.round(time * 1e6) / 1e6;
+
+/**
+ * 画布时钟：
+ * - 只保存时间状态，不负责计时；播放时由 useCanvasEval 按目标帧率调用 advance 并发起一轮计算；
+ * - 时间按固定步长推进（而不是按真实流逝的时间），丢弃的帧不推进时间，结果因此与机器快慢无关；
+ * - 与性能记录一样独立于 external store，不随 lastCompletedState 回滚。
+ */
+export const createEvalClock = () => {
+  const store = createStore<EvalClockState>()(() => ({
+    isPlaying: false,
+    time: 0,
+    frame: 0,
+    fps: DEFAULT_CLOCK_FPS,
+    loopStart: 0,
+    loopEnd: null,
+    droppedFrames: 0,
+  }));
+
+  const advance = () =>
+    store.setState((state) => {
+      const next = roundTime(state.time + 1 / state.fps);
+      const wrapped = state.loopEnd !== null && next > state.loopEnd;
+      return {
+        time: wrapped ? state.loopStart : next,
+        frame: state.frame + 1,
+      };
+    });
+
+  const play = () => store.setState({ isPlaying: true });
+
+  const pause = () => store.setState({ isPlaying: false });
+
+  const reset = () =>
+    store.setState((state) => ({
+      time: state.loopStart,
+      frame: 0,
+      droppedFrames: 0,
+    }));
+
+  const setFps = (fps: number) => {
+    if (!Number.isFinite(fps)) return;
+    store.setState({ fps: Math.min(MAX_CLOCK_FPS, Math.max(1, Math.round(fps))) });
+  };
+
+  // 区间无效（终点不大于起点）时视为不循环；当前时间落在区间外时回到起点
+  const setLoop = (loopStart: number, loopEnd: number | null) => {
+    if (!Number.isFinite(loopStart)) return;
+    const end = loopEnd !== null && Number.isFinite(loopEnd) && loopEnd > loopStart ? loopEnd : null;
+    store.setState((state) => ({
+      loopStart,
+      loopEnd: end,
+      time: state.time < loopStart || (end !== null && state.time > end) ? loopStart : state.time,
+    }));
+  };
+
+  const dropFrame = () => store.setState((state) => ({ droppedFrames: state.droppedFrames + 1 }));
+
+  const getTime = () => store.getState().time;
+
+  return {
+    store,
+    advance,
+    play,
+    pause,
+    reset,
+    setFps,
+    setLoop,
+    dropFrame,
+    getTime,
+  };
+};
@@ -0,0 +1,117 @@
+import { produce } from 'immer';
+import { resolveNodeEvalMode } from '@/services/evalMode';
+import { CanvasNodeKind, type CanvasNodeUIData, type CanvasUIData } from '@/types/canvas';
+import type { CanvasEvalStoreState } from './evalState';
+
+/**
+ * 代码草稿：
+ * - committed 记录计算层已接受的各节点代码；计算层只看到已接受的代码，delta、依赖解析与执行都以它为准；
+ * - live 模式的修改立即被接受；debounced 模式在停止修改 debounceMs 后自动接受，并以最新的 uiData 调用 onDebounceCommit；
+ *   manual 模式的修改一直作为草稿保留，直到调用 commit（Ctrl+S 或节点上的运行按钮）；
+ * - 节点第一次出现时（含画布载入）其代码直接被接受，切回 live 模式的节点立即接受当前草稿；
+ * - 只有代码会被保留为草稿，控件值、连线等其他修改总是立即生效。
+ */
+export const createEvalDrafts = (onDebounceCommit: (uiData: CanvasUIData) => void) => {
+  const committed = new Map<string, string>();
+  // 最近一次 apply 的 uiData：提交草稿时以它为准
+  let latestUIData: CanvasUIData | null = null;
+  // 节点 id -> 计时中的草稿；草稿内容变化时重新计时
+  const debounceTimers = new Map<string, { code: string; timer: ReturnType<typeof setTimeout> }>();
+
+  const clearDebounce = (nodeId: string) => {
+    const scheduled = debounceTimers.get(nodeId);
+    if (!scheduled) return;
+    clearTimeout(scheduled.timer);
+    debounceTimers.delete(nodeId);
+  };
+
+  const scheduleDebounce = (nodeId: string, code: string, debounceMs: number) => {
+    if (debounceTimers.get(nodeId)?.code === code) return;
+    clearDebounce(nodeId);
+    debounceTimers.set(nodeId, {
+      code,
+      timer: setTimeout(() => {
+        debounceTimers.delete(nodeId);
+        const uiData = commit([nodeId]);
+        if (uiData) onDebounceCommit(uiData);
+      }, debounceMs),
+    });
+  };
+
+  /**
+   * 以已接受的代码替换 uiData 中仍是草稿的代码：
+   * 返回计算层应当使用的 uiData，以及各节点尚未生效的草稿（节点 id -> 草稿代码）。
+   */
+  const apply = (uiData: CanvasUIData) => {
+    const drafts: Record<string, string> = {};
+    latestUIData = uiData;
+    let nodes: Map<string, CanvasNodeUIData> | null = null;
+
+    Array.from(committed.keys()).forEach((nodeId) => {
+      if (!uiData.nodes.has(nodeId)) {
+        committed.delete(nodeId);
+        clearDebounce(nodeId);
+      }
+    });
+
+    uiData.nodes.forEach((node, nodeId) => {
+      if (node.type !== CanvasNodeKind.TextNode && node.type !== CanvasNodeKind.LibraryNode) return;
+      const code = node.data.code;
+      const { mode, debounceMs } = resolveNodeEvalMode(uiData, node);
+      const accepted = committed.get(nodeId);
+
+      if (accepted === undefined || mode === 'live' || accepted === code) {
+        committed.set(nodeId, code);
+        clearDebounce(nodeId);
+        return;
+      }
+
+      drafts[nodeId] = code;
+      if (mode === 'debounced') {
+        scheduleDebounce(nodeId, code, debounceMs);
+      } else {
+        clearDebounce(nodeId);
+      }
+      nodes ??= new Map(uiData.nodes);
+      nodes.set(nodeId, { ...node, data: { ...node.data, code: accepted } } as CanvasNodeUIData);
+    });
+
+    return { uiData: nodes ? { ...uiData, nodes } : uiData, drafts };
+  };
+
+  // 接受指定节点（缺省为全部节点）的当前代码；有草稿被接受时返回需要重新计算的 uiData，否则返回 null
+  const commit = (nodeIds?: string[]) => {
+    const uiData = latestUIData;
+    if (!uiData) return null;
+    let changed = false;
+    (nodeIds ?? Array.from(uiData.nodes.keys())).forEach((nodeId) => {
+      const node = uiData.nodes.get(nodeId);
+      if (node?.type !== CanvasNodeKind.TextNode && node?.type !== CanvasNodeKind.LibraryNode) return;
+      const code = node.data.code;
+      if (committed.get(nodeId) === code) return;
+      committed.set(nodeId, code);
+      clearDebounce(nodeId);
+      changed = true;
+    });
+    return changed ? uiData : null;
+  };
+
+  const dispose = () => {
+    Array.from(debounceTimers.keys()).forEach(clearDebounce);
+  };
+
+  return { apply, commit, dispose };
+};
+
+// 把草稿标记到节点状态上（draftCode），供界面显示“已修改、尚未运行”；没有变化时返回原状态
+export const markEvalDrafts = (state: CanvasEvalStoreState, drafts: Record<string, string>) =>
+  produce(state, (draft) => {
+    Object.entries(draft.nodes).forEach(([nodeId, node]) => {
+      const code = drafts[nodeId];
+      if (code === undefined) {
+        if (node.draftCode !== undefined) delete node.draftCode;
+      } else if (node.draftCode !== code) {
+        node.draftCode = code;
+      }
+    });
+  });
@@ -0,0 +1,149 @@
+import { createStore } from 'zustand/vanilla';
+import type { EvalTriggerReason } from './evalProfiler';
+
+export interface EvalHistoryEntry<TState> {
+  // 记录编号，单调递增，不随环形缓冲区淘汰而复用
+  id: number;
+  version: number;
+  finishedAt: number;
+  status: 'completed' | 'stopped';
+  // 本轮计算的起点节点及其被纳入计算的原因
+  reasons: Record<string, EvalTriggerReason>;
+  // 本轮真正执行了（未命中缓存）的节点
+  ranNodeIds: string[];
+  // 本轮计算的时钟时间（秒）
+  time: number;
+  // 本轮计算完成后的完整状态快照
+  state: TState;
+}
+
+export interface EvalHistoryState<TState> {
+  // 最近完成的计算，最旧的在前
+  entries: EvalHistoryEntry<TState>[];
+  // 正在查看的历史记录编号；null 表示查看实时结果
+  viewingId: number | null;
+}
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * 计算历史：
+ * - 每轮计算完成（或被手动停止）时记录一次完整的状态快照，超出 MAX_HISTORY_ENTRIES 时淘汰最旧的记录；
+ *   快照由 immer 产生，未变化的节点与上一版共享引用，记录本身几乎不占额外内存；
+ * - viewingId 指向某条记录时，画布显示该轮计算完成时的输出、日志与错误（时间回溯），新的计算照常进行；
+ *   正在查看的记录被淘汰时回到实时结果；
+ * - 与性能记录一样独立于 external store，不随 lastCompletedState 回滚。
+ */
+export const createEvalHistory = <TState,>() => {
+  const store = createStore<EvalHistoryState<TState>>()(() => ({
+    entries: [],
+    viewingId: null,
+  }));
+  let nextId = 1;
+
+  const record = (entry: Omit<EvalHistoryEntry<TState>, 'id'>) =>
+    store.setState((state) => {
+      const entries = [...state.entries, { ...entry, id: nextId++ }].slice(-MAX_HISTORY_ENTRIES);
+      const viewingId = entries.some((item) => item.id === state.viewingId) ? state.viewingId : null;
+      return { entries, viewingId };
+    });
+
+  // 不存在的记录编号视为回到实时结果
+  const view = (id: number | null) => {
+    const viewingId = store.getState().entries.some((item) => item.id === id) ? id : null;
+    if (viewingId !== store.getState().viewingId) store.setState({ viewingId });
+  };
+
+  const getViewingState = (): TState | null => {
+    const { entries, viewingId } = store.getState();
+    if (viewingId === null) return null;
+    return entries.find((item) => item.id === viewingId)?.state ?? null;
+  };
+
+  const clear = () => store.setState({ entries: [], viewingId: null });
+
+  return {
+    store,
+    record,
+    view,
+    getViewingState,
+    clear,
+  };
+};
+
+// --- 相邻两轮计算之间的节点差异 ---
+
+// 差异比较只关心节点的这些部分
+interface EvalHistoryNodeLike {
+  code: string;
+  controls: { name: string; value?: unknown; defaultValue?: unknown }[];
+  outputs: Record<string, unknown>;
+  errors: { message: string }[];
+}
+
+// before / after 为 undefined 表示该项在对应一轮中不存在
+export interface EvalValueChange {
+  name: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface EvalNodeDiff {
+  codeChanged: boolean;
+  controls: EvalValueChange[];
+  outputs: EvalValueChange[];
+  addedErrors: string[];
+  resolvedErrors: string[];
+}
+
+const EMPTY_NODE: EvalHistoryNodeLike = { code: '', controls: [], outputs: {}, errors: [] };
+
+// 重新执行得到的输出是新对象，引用不同时按序列化结果比较；无法序列化的值只比较引用
+const isSameValue = (a: unknown, b: unknown) => {
+  if (Object.is(a, b)) return true;
+  try {
+    return JSON.stringify(a) === JSON.stringify(b);
+  } catch {
+    return false;
+  }
+};
+
+const diffValues = (before: Record<string, unknown>, after: Record<string, unknown>): EvalValueChange[] => {
+  const names = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return names
+    .filter((name) => !(name in before && name in after && isSameValue(before[name], after[name])))
+    .map((name) => ({ name, before: before[name], after: after[name] }));
+};
+
+const toControlValues = (controls: EvalHistoryNodeLike['controls']) =>
+  Object.fromEntries(controls.map((control) => [control.name, control.value ?? control.defaultValue]));
+
+/**
+ * 比较同一节点在相邻两轮计算完成时的状态：代码是否变化、控件值与输出的增删改、新出现与已消失的错误。
+ * 节点只存在于其中一轮时，另一轮视为空节点。两轮完全相同时返回 null。
+ */
+export const diffHistoryNode = (
+  prev: EvalHistoryNodeLike | undefined,
+  next: EvalHistoryNodeLike | undefined,
+): EvalNodeDiff | null => {
+  if (prev === next) return null;
+  const before = prev ?? EMPTY_NODE;
+  const after = next ?? EMPTY_NODE;
+
+  const prevErrors = before.errors.map((error) => error.message);
+  const nextErrors = after.errors.map((error) => error.message);
+  const diff: EvalNodeDiff = {
+    codeChanged: before.code !== after.code,
+    controls: diffValues(toControlValues(before.controls), toControlValues(after.controls)),
+    outputs: diffValues(before.outputs, after.outputs),
+    addedErrors: nextErrors.filter((message) => !prevErrors.includes(message)),
+    resolvedErrors: prevErrors.filter((message) => !nextErrors.includes(message)),
+  };
+
+  const changed = diff.codeChanged
+    || diff.controls.length > 0
+    || diff.outputs.length > 0
+    || diff.addedErrors.length > 0
+    || diff.resolvedErrors.length > 0;
+  return changed ? diff : null;
+};
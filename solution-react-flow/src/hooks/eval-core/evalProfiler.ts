@@ -0,0 +1,209 @@
+import { createStore } from 'zustand/vanilla';
+
+/**
+ * 节点被纳入本轮计算的原因：
+ * - added / code / controls / timeout / capabilities：节点自身新增或发生变化；
+ * - seed：节点的随机种子变化（修改画布种子、重新播种节点或切换是否替换 Math.random）；
+ * - inlineValues：节点开启或关闭了行内值；
+ * - dependency：指向该节点的依赖边（含端口映射、推断依赖）发生变化；
+ * - upstream：自身未变，因上游重新计算而被带入；
+ * - manual：手动重算；
+ * - clock：节点代码引用了 node_time，随时钟推进而重新计算；
+ * - stream：上游在执行中途产出了中间结果（node_emit 或异步生成器输出）。
+ */
+export type EvalTriggerReason =
+  | 'added'
+  | 'code'
+  | 'controls'
+  | 'timeout'
+  | 'capabilities'
+  | 'seed'
+  | 'inlineValues'
+  | 'dependency'
+  | 'upstream'
+  | 'manual'
+  | 'clock'
+  | 'stream';
+
+// 面板中显示的触发原因
+export const TRIGGER_REASON_LABELS: Record<EvalTriggerReason, string> = {
+  added: '新增',
+  code: '代码',
+  controls: '控件',
+  timeout: '时限',
+  capabilities: '权限',
+  seed: '种子',
+  inlineValues: '行内值',
+  dependency: '依赖',
+  upstream: '上游',
+  manual: '手动',
+  clock: '时钟',
+  stream: '流式',
+};
+
+export interface EvalNodeRunProfile {
+  nodeId: string;
+  reason: EvalTriggerReason;
+  durationMs: number;
+  cacheHit: boolean;
+  // 输出的近似大小（按取样估计的序列化字符数），缓存命中时为 0
+  outputSize: number;
+  success: boolean;
+}
+
+export interface EvalTaskProfile {
+  version: number;
+  startedAt: number;
+  durationMs: number;
+  status: 'completed' | 'superseded' | 'stopped';
+  order: string[];
+  runs: EvalNodeRunProfile[];
+}
+
+export interface EvalNodeProfileStats {
+  runCount: number;
+  cacheHitCount: number;
+  totalMs: number;
+  maxMs: number;
+  lastMs: number;
+  lastOutputSize: number;
+  lastReason: EvalTriggerReason;
+}
+
+export interface EvalProfileState {
+  nodeStats: Record<string, EvalNodeProfileStats>;
+  // 最近的计算任务，最新的在前
+  tasks: EvalTaskProfile[];
+}
+
+export const MAX_PROFILED_TASKS = 20;
+
+// 每个数组/对象最多取样的元素数，以及一次估计最多展开的容器数
+const SIZE_SAMPLE_LIMIT = 32;
+const SIZE_VISIT_BUDGET = 1000;
+
+// 按 JSON 序列化的字符数估计值的体积：容器只均匀取样部分元素再按总数外推，超出展开预算的容器按空容器计
+const estimateValueSize = (value: unknown, budget: { remaining: number }): number => {
+  switch (typeof value) {
+    case 'string':
+      return value.length + 2;
+    case 'number':
+    case 'boolean':
+    case 'bigint':
+      return String(value).length;
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return 0;
+  }
+  if (value === null) return 4;
+  if (budget.remaining <= 0) return 2;
+  budget.remaining -= 1;
+
+  const isArrayLike = Array.isArray(value) || ArrayBuffer.isView(value);
+  const keys = isArrayLike ? null : Object.keys(value as object);
+  const count = keys ? keys.length : (value as ArrayLike<unknown>).length ?? 0;
+  const sampleCount = Math.min(count, SIZE_SAMPLE_LIMIT);
+  let sampledSize = 0;
+  for (let i = 0; i < sampleCount; i++) {
+    const index = Math.floor((i * count) / sampleCount);
+    sampledSize += keys
+      ? keys[index].length + 3 + estimateValueSize((value as Record<string, unknown>)[keys[index]], budget)
+      : estimateValueSize((value as ArrayLike<unknown>)[index], budget);
+  }
+  // 括号与分隔的逗号
+  return 2 + Math.max(0, count - 1) + (sampleCount > 0 ? Math.round((sampledSize * count) / sampleCount) : 0);
+};
+
+/**
+ * 近似估计输出体积（序列化后的字符数）：
+ * 每次节点执行都要估计，因此只做有上限的取样估计，耗时不随输出大小增长；
+ * 无法序列化的值（函数等）与读取时抛错的值不计入。
+ */
+export const estimateOutputSize = (outputs: Record<string, unknown>): number => {
+  const budget = { remaining: SIZE_VISIT_BUDGET };
+  return Object.values(outputs).reduce<number>((size, value) => {
+    try {
+      return size + estimateValueSize(value, budget);
+    } catch {
+      return size;
+    }
+  }, 0);
+};
+
+// 节点“热度”：最近一次执行耗时相对于所有节点中最大值的比例（0~1）
+export const selectNodeHeat = (profile: EvalProfileState, nodeId: string): number => {
+  const stats = profile.nodeStats[nodeId];
+  if (!stats) return 0;
+  const maxLastMs = Math.max(...Object.values(profile.nodeStats).map((item) => item.lastMs));
+  return maxLastMs > 0 ? stats.lastMs / maxLastMs : 0;
+};
+
+const applyRun = (stats: EvalNodeProfileStats | undefined, run: EvalNodeRunProfile): EvalNodeProfileStats => {
+  const prev = stats ?? {
+    runCount: 0,
+    cacheHitCount: 0,
+    totalMs: 0,
+    maxMs: 0,
+    lastMs: 0,
+    lastOutputSize: 0,
+    lastReason: run.reason,
+  };
+
+  // 缓存命中没有真正执行，只计数，不影响耗时统计
+  if (run.cacheHit) {
+    return { ...prev, cacheHitCount: prev.cacheHitCount + 1, lastReason: run.reason };
+  }
+
+  return {
+    runCount: prev.runCount + 1,
+    cacheHitCount: prev.cacheHitCount,
+    totalMs: prev.totalMs + run.durationMs,
+    maxMs: Math.max(prev.maxMs, run.durationMs),
+    lastMs: run.durationMs,
+    lastOutputSize: run.outputSize,
+    lastReason: run.reason,
+  };
+};
+
+/**
+ * 计算性能记录：
+ * - 每轮计算任务结束（完成/被取代/被停止）时整体记录一次；
+ * - 同时累积每个节点的执行次数、耗时与输出体积，供性能面板与热度显示使用。
+ */
+export const createEvalProfiler = () => {
+  const store = createStore<EvalProfileState>()(() => ({
+    nodeStats: {},
+    tasks: [],
+  }));
+
+  const recordTask = (task: EvalTaskProfile) =>
+    store.setState((state) => {
+      const nodeStats = { ...state.nodeStats };
+      task.runs.forEach((run) => {
+        nodeStats[run.nodeId] = applyRun(nodeStats[run.nodeId], run);
+      });
+      return {
+        nodeStats,
+        tasks: [task, ...state.tasks].slice(0, MAX_PROFILED_TASKS),
+      };
+    });
+
+  const forgetNodes = (nodeIds: string[]) => {
+    if (!nodeIds.some((nodeId) => nodeId in store.getState().nodeStats)) return;
+    store.setState((state) => {
+      const nodeStats = { ...state.nodeStats };
+      nodeIds.forEach((nodeId) => delete nodeStats[nodeId]);
+      return { nodeStats };
+    });
+  };
+
+  const clear = () => store.setState({ nodeStats: {}, tasks: [] });
+
+  return {
+    store,
+    recordTask,
+    forgetNodes,
+    clear,
+  };
+};
@@ -0,0 +1,157 @@
+import type { Control, LogEntry, NodeLineValues } from '@/services/jsExecutor';
+import type { NodeCapability } from '@/services/sandbox';
+import type { CanvasNodeUIData } from '@/types/canvas';
+import type { NodeStaticAnalysis } from './nodeAnalysis';
+
+/**
+ * 计算层的状态结构：
+ * - 与 React 无关，useCanvasEval 与无界面运行（headlessCanvas）共用；
+ * - CanvasEvalStoreState 是一版完整的计算状态快照，delta 解析、执行计划与执行都以它为输入。
+ */
+
+export interface ErrorInfo {
+  message: string;
+  line?: number;
+  column?: number;
+  stack?: string;
+}
+
+export interface WarningInfo {
+  message: string;
+  line?: number;
+  column?: number;
+  stack?: string;
+}
+
+// Delta Types
+
+export interface CanvasEvalDeltaNode {
+  id: string;
+  code: string;
+  controls?: Control[];
+}
+
+// Dep: Dependency
+export interface CanvasEvalDeltaDepEdge {
+  source: string;
+  target: string;
+}
+
+// DP: Desmos Preview
+export interface CanvasEvalDeltaDPEdge {
+  source: string;
+  target: string;
+  data: {
+    sourceOutputName: string;
+  };
+}
+
+// Eval Store/State Types
+
+export interface CanvasEvalNode {
+  type: CanvasNodeUIData['type'];
+  code: string;
+  timeoutMs?: number;
+  // 节点申请的沙箱能力（网络、存储等），执行时开放给节点代码
+  capabilities?: NodeCapability[];
+  // 由画布种子与节点自身的重新播种偏移派生的随机种子，node_random() 每次执行都从它重新开始
+  randomSeed?: number;
+  // 执行期间是否把 Math.random 也换成种子化的生成器（画布设置）
+  replaceMathRandom?: boolean;
+  // 是否记录顶层语句的值（行内值），供编辑器在行尾显示
+  inlineValues?: boolean;
+  isEvaluating: boolean;
+  controls: Control[];
+  outputs: Record<string, unknown>;
+  logs: LogEntry[];
+  errors: ErrorInfo[];
+  warnings: WarningInfo[];
+  // 开启行内值时最近一次执行记录到的各行的值
+  lineValues?: NodeLineValues;
+  // 全局语义下对外提供的顶层定义（只包含有下游引用的名字）
+  globals?: Record<string, unknown>;
+  // 上一次无错误执行时的缓存键（代码 + 控件值 + 上游输入等的哈希）；键相同则跳过执行
+  cacheKey?: string;
+  // 防抖或手动模式下尚未生效的代码草稿；code 仍是上一次生效的代码
+  draftCode?: string;
+}
+
+export type CanvasEvalNodes = Record<string, CanvasEvalNode>;
+
+export interface CanvasEvalDepIOs {
+  incomingByTarget: Record<string, string[]>;
+  outgoingBySource: Record<string, string[]>;
+  // target -> source -> { 源输出名: 目标输入名 }；未配置映射的边不出现
+  portMappingByTarget: Record<string, Record<string, Record<string, string>>>;
+  // target -> 连线设置了按引用传递的上游节点 id
+  referenceSourcesByTarget: Record<string, string[]>;
+}
+
+export interface CanvasEvalDPIOs {
+  incomingByTarget: Record<string, { source: string, sourceOutputName: string }>;
+  outgoingBySource: Record<string, Record<string, string>>;
+}
+
+export interface CanvasEvalGlobalIOs {
+  importsByTarget: Record<string, Record<string, string>>;
+  exportsBySource: Record<string, string[]>;
+  // target -> 导入的节点名 -> 模块节点 id
+  modulesByTarget: Record<string, Record<string, string>>;
+  // target -> 其直接引用的共享库节点 id，target 也可以是共享库（共享库的全部顶层定义见 exportsBySource）
+  librariesByTarget: Record<string, string[]>;
+}
+
+export interface CanvasEvalAnalysisState {
+  /**
+   * TextNode 的静态分析结果（见 nodeAnalysis）：节点 id -> 声明的控件、输入、输出、自由变量与语法错误。
+   *
+   * 设计边界说明：
+   * - 每轮计算开始前随下一版 nodes 一起生成，只依赖已生效的代码，不依赖执行结果；
+   * - 界面据此在节点首次执行前显示预期的输入与输出；
+   * - 执行计划据此跳过存在语法错误的节点，直接以语法错误作为它的结果。
+   */
+  nodeAnalysis: Record<string, NodeStaticAnalysis>;
+}
+
+export interface CanvasEvalStoreState {
+  nodes: CanvasEvalNodes;
+  depIOs: CanvasEvalDepIOs;
+  DPIOs: CanvasEvalDPIOs;
+  globalIOs: CanvasEvalGlobalIOs;
+  analysis: CanvasEvalAnalysisState;
+}
+
+// 依赖解析的结果，delta 计算与下一版状态构建共用同一份
+export interface ResolvedCanvasIOs {
+  depIOs: CanvasEvalDepIOs;
+  DPIOs: CanvasEvalDPIOs;
+  globalIOs: CanvasEvalGlobalIOs;
+}
+
+export const createDefaultAnalysisState = (): CanvasEvalAnalysisState => ({
+  nodeAnalysis: {},
+});
+
+export const createEmptyGlobalIOs = (): CanvasEvalGlobalIOs => ({
+  importsByTarget: {},
+  exportsBySource: {},
+  modulesByTarget: {},
+  librariesByTarget: {},
+});
+
+// 尚未接入任何画布数据时的初始状态
+export const createInitialEvalState = (): CanvasEvalStoreState => ({
+  nodes: {},
+  depIOs: {
+    incomingByTarget: {},
+    outgoingBySource: {},
+    portMappingByTarget: {},
+    referenceSourcesByTarget: {},
+  },
+  DPIOs: {
+    incomingByTarget: {},
+    outgoingBySource: {},
+  },
+  globalIOs: createEmptyGlobalIOs(),
+  analysis: createDefaultAnalysisState(),
+});
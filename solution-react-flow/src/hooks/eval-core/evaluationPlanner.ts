@@ -0,0 +1,191 @@
+import type { SourceDiagnostic } from '@/services/nodeSource';
+import { CanvasNodeKind } from '@/types/canvas';
+import type { CanvasEvalStoreState } from './evalState';
+
+const collectEvaluationScope = (
+  entryNodeIds: string[],
+  state: CanvasEvalStoreState,
+) => {
+  const existingTextNodeIds = new Set(Object.keys(state.nodes).filter((id) => state.nodes[id].type === CanvasNodeKind.TextNode));
+  const existingDPNodeIds = new Set(Object.keys(state.nodes).filter((id) => state.nodes[id].type === CanvasNodeKind.DesmosPreviewNode));
+  const existingLibraryNodeIds = new Set(Object.keys(state.nodes).filter((id) => state.nodes[id].type === CanvasNodeKind.LibraryNode));
+
+  const libraryNodesScope = new Set<string>(entryNodeIds.filter((id) => existingLibraryNodeIds.has(id)));
+  const textNodesScope = new Set<string>(entryNodeIds.filter((id) => existingTextNodeIds.has(id)));  // = entryTextNodeIds deduplicated
+  const DPNodesScope = new Set<string>(entryNodeIds.filter((id) => existingDPNodeIds.has(id)));  // = entryDPNodeIds deduplicated
+
+  // 下面先处理 text nodes，后面再在结果后面直接后缀加上 DP nodes
+  // 共享库不参与 TextNode 的拓扑排序，只作为起点把引用它的共享库与 TextNode 纳入 scope
+
+  const discoveryOrder: string[] = [...textNodesScope];   // image of queue, sync operates with it, but without shifts
+  const queue: string[] = [...libraryNodesScope, ...textNodesScope];
+
+  while (queue.length) {
+    const current = queue.shift()!;
+    const downstream = state.depIOs.outgoingBySource[current] || [];
+    downstream.forEach((targetId) => {
+      if (existingLibraryNodeIds.has(targetId)) {
+        if (libraryNodesScope.has(targetId)) return;
+        libraryNodesScope.add(targetId);
+        queue.push(targetId);
+        return;
+      }
+      if (!existingTextNodeIds.has(targetId)) return;
+      if (textNodesScope.has(targetId)) return;
+      textNodesScope.add(targetId);
+      queue.push(targetId);
+      discoveryOrder.push(targetId);
+    });
+  }
+
+  // scope 内 TextNode 的预览节点同样需要刷新
+  textNodesScope.forEach((nodeId) => {
+    Object.values(state.DPIOs.outgoingBySource[nodeId] || {}).forEach((targetId) => {
+      if (existingDPNodeIds.has(targetId)) DPNodesScope.add(targetId);
+    });
+  });
+
+  discoveryOrder.push(...DPNodesScope);
+
+  return { libraryNodesScope, textNodesScope, DPNodesScope, discoveryOrder };
+};
+
+// 共享库之间的拓扑序：被引用的共享库排在引用它的共享库之前；成环的共享库按纳入 scope 的顺序排在最后
+const orderLibraries = (libraryNodesScope: Set<string>, state: CanvasEvalStoreState) => {
+  const inDegree = new Map<string, number>();
+  libraryNodesScope.forEach((nodeId) => {
+    const incoming = state.depIOs.incomingByTarget[nodeId] || [];
+    inDegree.set(nodeId, incoming.filter((sourceId) => libraryNodesScope.has(sourceId)).length);
+  });
+
+  const order: string[] = [];
+  const queue = [...libraryNodesScope].filter((nodeId) => inDegree.get(nodeId) === 0);
+  while (queue.length) {
+    const current = queue.shift()!;
+    order.push(current);
+    (state.depIOs.outgoingBySource[current] || []).forEach((targetId) => {
+      if (!libraryNodesScope.has(targetId)) return;
+      const next = (inDegree.get(targetId) ?? 0) - 1;
+      inDegree.set(targetId, next);
+      if (next === 0) queue.push(targetId);
+    });
+  }
+
+  const ordered = new Set(order);
+  order.push(...[...libraryNodesScope].filter((nodeId) => !ordered.has(nodeId)));
+  return order;
+};
+
+/**
+ * 执行计划：
+ * - order：确定性的拓扑序，也是结果写回 interimResults 的顺序；
+ * - levels：依赖层级，同一层内的节点互不依赖，可并行执行；
+ * - upstreamsInScope：每个 TextNode 在 scope 内的上游节点，供 DAG 调度判断“就绪”；
+ * - 共享库节点自成一步，在所有 TextNode 之前按共享库之间的依赖顺序串行执行（排在 order 最前，不进入 levels）；
+ * - libraryNodesScope 的迭代顺序即共享库的执行顺序；
+ * - syntaxErrors：静态分析发现语法错误的 TextNode，执行时不交给引擎，直接以语法错误作为结果；
+ * - Desmos Preview 节点不参与调度，永远放在最后执行。
+ */
+export interface CanvasEvaluationPlan {
+  libraryNodesScope: Set<string>;
+  textNodesScope: Set<string>;
+  DPNodesScope: Set<string>;
+  order: string[];
+  levels: string[][];
+  upstreamsInScope: Record<string, string[]>;
+  syntaxErrors: Record<string, SourceDiagnostic>;
+}
+
+const collectSyntaxErrors = (textNodesScope: Set<string>, state: CanvasEvalStoreState) => {
+  const syntaxErrors: Record<string, SourceDiagnostic> = {};
+  textNodesScope.forEach((nodeId) => {
+    const syntaxError = state.analysis.nodeAnalysis[nodeId]?.syntaxError;
+    if (syntaxError) syntaxErrors[nodeId] = syntaxError;
+  });
+  return syntaxErrors;
+};
+
+export const createEvaluationPlan = (
+  entryNodeIds: string[],
+  state: CanvasEvalStoreState,
+): CanvasEvaluationPlan => {
+  const scope = collectEvaluationScope(entryNodeIds, state);
+  const { textNodesScope, DPNodesScope, discoveryOrder } = scope;
+  const libraryOrder = orderLibraries(scope.libraryNodesScope, state);
+  const libraryNodesScope = new Set(libraryOrder);
+  const syntaxErrors = collectSyntaxErrors(textNodesScope, state);
+  if (!textNodesScope.size) {
+    return {
+      libraryNodesScope,
+      textNodesScope,
+      DPNodesScope,
+      order: [...libraryOrder, ...discoveryOrder],
+      levels: [],
+      upstreamsInScope: {},
+      syntaxErrors,
+    };
+  }
+
+  // discoveryOrder 里保证：一个节点要么是 entry，要么前方出现至少一个它的 scope 内上游依赖节点
+  // 但真正的执行顺序 (plan.order) 需要保证一个非 entry 节点前方出现它的所有 scope 内上游依赖节点，之后再执行它自己
+
+  // 1. 收集每个节点在 scope 内的上游；入度为 0 的节点构成第一层。这不等于被选定为 entry 的节点范围，因为 entry 节点也可能有(scope 内的)入度
+  const upstreamsInScope: Record<string, string[]> = {};
+  textNodesScope.forEach((nodeId) => {
+    const incoming = state.depIOs.incomingByTarget[nodeId] || [];
+    upstreamsInScope[nodeId] = incoming.filter((sourceId) => textNodesScope.has(sourceId));
+  });
+
+  const localInDegree = new Map<string, number>();
+  textNodesScope.forEach((nodeId) => localInDegree.set(nodeId, upstreamsInScope[nodeId].length));
+
+  let currentLevel = discoveryOrder.filter(
+    (nodeId) => textNodesScope.has(nodeId) && localInDegree.get(nodeId) === 0,
+  );
+
+  // 2. 逐层剥离（分层的 Kahn 算法），保证"计划里每个节点前方必出现它的所有 scope 内上游依赖节点"
+  const order: string[] = [...libraryOrder];
+  const levels: string[][] = [];
+  while (currentLevel.length) {
+    levels.push(currentLevel);
+    order.push(...currentLevel);
+
+    const nextLevel: string[] = [];
+    currentLevel.forEach((current) => {
+      const downstream = state.depIOs.outgoingBySource[current] || [];
+      downstream.forEach((targetId) => {
+        if (!textNodesScope.has(targetId)) return;
+        const next = (localInDegree.get(targetId) ?? 0) - 1;
+        localInDegree.set(targetId, next);
+        if (next === 0) nextLevel.push(targetId);
+      });
+    });
+    currentLevel = nextLevel;
+  }
+
+  if (order.length !== libraryOrder.length + textNodesScope.size) {
+    console.warn('[evaluationPlanner] evaluation scope contains cycle, fallback to discovery order.', {
+      entryNodeIds,
+      scopeSize: textNodesScope.size,
+    });
+    // 有环时退化为按 discoveryOrder 串行：每个节点只依赖它的前一个节点
+    const serialOrder = discoveryOrder.filter((nodeId) => textNodesScope.has(nodeId));
+    const serialUpstreams: Record<string, string[]> = {};
+    serialOrder.forEach((nodeId, index) => {
+      serialUpstreams[nodeId] = index > 0 ? [serialOrder[index - 1]] : [];
+    });
+    return {
+      libraryNodesScope,
+      textNodesScope,
+      DPNodesScope,
+      order: [...libraryOrder, ...discoveryOrder],
+      levels: serialOrder.map((nodeId) => [nodeId]),
+      upstreamsInScope: serialUpstreams,
+      syntaxErrors,
+    };
+  }
+
+  order.push(...DPNodesScope);
+
+  return { libraryNodesScope, textNodesScope, DPNodesScope, order, levels, upstreamsInScope, syntaxErrors };
+};
@@ -0,0 +1,103 @@
+import { produce } from 'immer';
+import type { Control } from '@/services/jsExecutor';
+import type { CanvasUIData } from '@/types/canvas';
+import type { EvalDependencyResolver, EvalExecutionEngine } from './contracts';
+import { createInitialEvalNodes } from './deltaResolver';
+import { createEmptyGlobalIOs, createInitialEvalState, type CanvasEvalNodes, type CanvasEvalStoreState } from './evalState';
+import { createEvaluationPlan } from './evaluationPlanner';
+import { jsExecutionEngine } from './jsExecutionEngine';
+import { analyzeEvalNodes, analyzeNodeCode, type NodeDeclaredControl } from './nodeAnalysis';
+import { DEFAULT_EVAL_CONCURRENCY, runEvaluationPlan } from './planRunner';
+import { createSymbolDependencyResolver } from './symbolDependencyResolver';
+
+export interface HeadlessCanvasOptions {
+  /** 执行引擎，缺省使用主线程引擎（Node.js 中没有 Worker） */
+  engine?: EvalExecutionEngine;
+  /** 依赖解析器，缺省与画布相同：连线 + 全局语义下推断出的依赖 */
+  resolver?: EvalDependencyResolver;
+  /** 同时执行的节点数上限，实际值还会受执行引擎自身能力限制 */
+  maxConcurrency?: number;
+  /** 时钟时间（秒），节点代码通过 node_time() 读取 */
+  time?: number;
+  /** 覆盖控件值：节点 id -> 控件名 -> 值；控件须已记录在存档中或在代码中声明，否则抛错 */
+  controlValues?: Record<string, Record<string, unknown>>;
+  signal?: AbortSignal;
+}
+
+// 节点可以覆盖的控件：存档中记录的控件，加上代码中声明、但存档中尚未记录的控件（节点从未在界面中执行过）
+export const listKnownControls = (controls: Control[], code: string): NodeDeclaredControl[] => {
+  const known = controls.map(({ name, type }) => ({ name, type }));
+  analyzeNodeCode(code).controls.forEach((control) => {
+    if (!known.some((item) => item.name === control.name)) known.push(control);
+  });
+  return known;
+};
+
+const applyControlValues = (
+  nodes: CanvasEvalNodes,
+  controlValues: Record<string, Record<string, unknown>>,
+): CanvasEvalNodes =>
+  produce(nodes, (draft) => {
+    Object.entries(controlValues).forEach(([nodeId, values]) => {
+      const node = draft[nodeId];
+      if (!node) throw new Error(`节点 "${nodeId}" 不存在`);
+      Object.entries(values).forEach(([name, value]) => {
+        const control = node.controls.find((item) => item.name === name);
+        if (control) {
+          control.value = value;
+          return;
+        }
+        const known = listKnownControls(node.controls, node.code);
+        const declared = known.find((item) => item.name === name);
+        if (!declared) {
+          throw new Error(`节点 "${nodeId}" 没有控件 "${name}"（已有控件：${known.map((item) => item.name).join('、') || '无'}）`);
+        }
+        node.controls.push({ name, type: declared.type, defaultValue: value, value });
+      });
+    });
+  });
+
+/**
+ * 无界面运行画布：
+ * - 与 useCanvasEval 共用 delta 解析、执行计划与执行逻辑，但不依赖 React 与浏览器，可在 Node.js 中使用；
+ * - 以全部节点为起点执行一轮完整计算（没有上一版状态，缓存不会命中），返回计算完成后的状态快照；
+ * - 节点输出与界面中一样按 portableValues 编码，Desmos 预览节点的输出为 { desmosState }。
+ * 主线程引擎不提供沙箱隔离，也无法打断死循环，只应运行可信的画布。
+ */
+export const evaluateCanvas = async (
+  uiData: CanvasUIData,
+  options: HeadlessCanvasOptions = {},
+): Promise<CanvasEvalStoreState> => {
+  const engine = options.engine ?? jsExecutionEngine;
+  const resolver = options.resolver ?? createSymbolDependencyResolver();
+  const resolved = resolver.resolve(Array.from(uiData.edges.values()), uiData.nodes);
+
+  const nodes = applyControlValues(createInitialEvalNodes(uiData), options.controlValues ?? {});
+  const state: CanvasEvalStoreState = {
+    ...createInitialEvalState(),
+    nodes,
+    depIOs: resolved.depIOs,
+    DPIOs: resolved.DPIOs,
+    globalIOs: resolved.globalIOs ?? createEmptyGlobalIOs(),
+    analysis: analyzeEvalNodes(undefined, nodes),
+  };
+
+  const plan = createEvaluationPlan(Object.keys(state.nodes), state);
+  const concurrency = Math.min(options.maxConcurrency ?? DEFAULT_EVAL_CONCURRENCY, engine.maxConcurrency ?? 1);
+  // 只有这一轮计算，不存在被新任务取代的情况
+  const results = await runEvaluationPlan(
+    plan,
+    state,
+    engine,
+    { current: 0 },
+    0,
+    options.signal ?? new AbortController().signal,
+    concurrency,
+    new Set(),
+    options.time ?? 0,
+    () => {},
+  );
+
+  // 主线程引擎的顶层定义按原值共享，可能含有读取即抛错的 getter，这里不经 immer 冻结，直接组装结果
+  return { ...state, nodes: { ...state.nodes, ...Object.fromEntries(results ?? []) } };
+};
@@ -1,10 +1,30 @@
 import { jsExecutor } from '@/services/jsExecutor';
+import { decodePortableValues, encodePortableOutputs, encodeResultOutputs } from '@/services/portableValues';
 import type { EvalExecutionEngine } from './contracts';
 
 /**
  * 默认执行引擎：直接桥接现有 jsExecutor。
  * 后续可替换为 Observable Runtime 等引擎实现。
+ * 代码在当前页面中执行，不提供沙箱（capabilities 不生效），仅用于没有 Worker 的环境。
+ * 输入输出与 Worker 引擎一样按 portableValues 的策略编解码，两种引擎下节点之间能传递的值相同。
  */
 export const jsExecutionEngine: EvalExecutionEngine = {
-  executeCode: (code, inputs) => jsExecutor.executeCode(code, inputs),
+  // jsExecutor 是共享状态的单例，只能串行执行
+  maxConcurrency: 1,
+  executeCode: (code, inputs, context) => jsExecutor.executeCode(code, decodePortableValues(inputs), {
+    signal: context?.signal,
+    globals: context?.globals,
+    exportNames: context?.exportNames,
+    sourceName: context?.nodeId,
+    modules: context?.modules,
+    libraries: context?.libraries,
+    time: context?.time,
+    randomSeed: context?.randomSeed,
+    replaceMathRandom: context?.replaceMathRandom,
+    referenceInputs: context?.referenceInputs,
+    inlineValues: context?.inlineValues,
+    // 节点代码在发布后可能继续修改同一个对象（例如逐步细化的数组），中间结果需要拷贝一份
+    onEmit: context?.onEmit && ((outputs) => context.onEmit!(structuredClone(encodePortableOutputs(outputs).outputs))),
+    onLateReport: context?.onLateReport,
+  }).then(encodeResultOutputs),
 };
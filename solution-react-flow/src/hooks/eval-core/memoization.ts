@@ -0,0 +1,123 @@
+/**
+ * 节点执行结果的缓存键：
+ * - 对代码、控件值、上游输入、导入的全局定义等做稳定序列化后取哈希；
+ * - 序列化与对象键顺序无关，相同内容总能得到相同的键；
+ * - 遇到函数、类实例等无法可靠比较内容的值时放弃缓存（返回 null），宁可多算一次；
+ *   读取时抛错的 getter、已撤销的 Proxy 等序列化失败的情况同样只是放弃缓存，不影响调度；
+ * - 上游输出以摘要参与缓存键：按值传递的输出按对象引用缓存摘要，同一个输出对象只序列化一次；
+ *   按引用传递的输出只比较身份，不做序列化。
+ */
+
+// 无法稳定序列化时抛出；序列化中的任何异常都由调用方统一转为 null
+class UnhashableValueError extends Error {}
+
+const serializeValue = (value: unknown, seen: Set<object>): string => {
+  switch (typeof value) {
+    case 'undefined':
+      return 'u';
+    case 'boolean':
+      return value ? 't' : 'f';
+    case 'number':
+      // NaN/Infinity/-0 在 JSON 中会丢失区分，这里直接用字符串形式
+      return `n${Object.is(value, -0) ? '-0' : String(value)}`;
+    case 'bigint':
+      return `b${value.toString()}`;
+    case 'string':
+      return `s${JSON.stringify(value)}`;
+    case 'function':
+    case 'symbol':
+      throw new UnhashableValueError();
+  }
+
+  if (value === null) return 'z';
+
+  const objectValue = value as object;
+  if (seen.has(objectValue)) throw new UnhashableValueError();
+  seen.add(objectValue);
+
+  try {
+    if (Array.isArray(objectValue)) {
+      return `[${objectValue.map((item) => serializeValue(item, seen)).join(',')}]`;
+    }
+    if (ArrayBuffer.isView(objectValue)) {
+      return `${objectValue.constructor.name}(${Array.from(new Uint8Array(objectValue.buffer, objectValue.byteOffset, objectValue.byteLength)).join(',')})`;
+    }
+    if (objectValue instanceof Date) {
+      return `d${objectValue.getTime()}`;
+    }
+    if (objectValue instanceof Map) {
+      const entries = Array.from(objectValue.entries())
+        .map(([key, item]) => `${serializeValue(key, seen)}:${serializeValue(item, seen)}`)
+        .sort();
+      return `M{${entries.join(',')}}`;
+    }
+    if (objectValue instanceof Set) {
+      const items = Array.from(objectValue.values()).map((item) => serializeValue(item, seen)).sort();
+      return `S{${items.join(',')}}`;
+    }
+
+    // 只接受普通对象；类实例可能带有不可见的内部状态
+    const prototype = Object.getPrototypeOf(objectValue);
+    if (prototype !== Object.prototype && prototype !== null) {
+      throw new UnhashableValueError();
+    }
+    const entries = Object.keys(objectValue)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${serializeValue((objectValue as Record<string, unknown>)[key], seen)}`);
+    return `{${entries.join(',')}}`;
+  } finally {
+    seen.delete(objectValue);
+  }
+};
+
+// cyrb53：足够快、碰撞率足够低的 53 位字符串哈希
+const hashString = (input: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const hashValue = (value: unknown): string | null => {
+  try {
+    const serialized = serializeValue(value, new Set());
+    // 同时保留长度，进一步降低不同输入碰撞到同一键的概率
+    return `${hashString(serialized)}:${serialized.length.toString(36)}`;
+  } catch {
+    return null;
+  }
+};
+
+export const computeEvalCacheKey = (parts: Record<string, unknown>): string | null => hashValue(parts);
+
+// 节点输出写入状态后不再被修改，对象值的摘要可以按引用缓存；WeakMap 不阻止旧输出被回收
+const digestCache = new WeakMap<object, string | null>();
+
+// 值的内容摘要；无法序列化时为 null
+export const digestValue = (value: unknown): string | null => {
+  if (value === null || typeof value !== 'object') return hashValue(value);
+  if (digestCache.has(value)) return digestCache.get(value)!;
+  const digest = hashValue(value);
+  digestCache.set(value, digest);
+  return digest;
+};
+
+const identityIds = new WeakMap<object, number>();
+let nextIdentityId = 0;
+
+// 按引用传递的值的身份键：同一个对象得到同一个键，上游产出新对象时键随之变化；原始值按内容比较
+export const identityKeyOf = (value: unknown): string | null => {
+  if (value === null || (typeof value !== 'object' && typeof value !== 'function')) return digestValue(value);
+  let id = identityIds.get(value);
+  if (id === undefined) {
+    id = ++nextIdentityId;
+    identityIds.set(value, id);
+  }
+  return `#${id}`;
+};
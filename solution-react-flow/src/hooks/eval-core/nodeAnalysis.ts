@@ -0,0 +1,135 @@
+import type { AnyNode, Program } from 'acorn';
+import type { Control } from '@/services/jsExecutor';
+import { NODE_IMPORT_FUNCTION, compileNodeModule } from '@/services/nodeModules';
+import { toSyntaxDiagnostic, type SourceDiagnostic } from '@/services/nodeSource';
+import { analyzeNodeSymbols, parseNodeCode } from '@/services/symbolAnalysis';
+import { CanvasNodeKind } from '@/types/canvas';
+import type { CanvasEvalAnalysisState, CanvasEvalNodes } from './evalState';
+
+/**
+ * 执行前的静态分析：
+ * - 每轮计算开始前解析 TextNode 的代码，不需要执行即可得知节点声明的控件、输入与输出；
+ * - 只识别以字符串字面量给出名字的调用；未给名字的控件与输出按执行器的规则依次编号（input_0、output_0…）；
+ * - 语法错误与执行器预解析的结果一致（模块节点按模块解析），执行计划据此跳过这些节点，不再交给引擎；
+ * - 分析基于已生效的代码（不含草稿），代码不变的节点沿用上一次的结果，引用保持不变。
+ */
+
+const CONTROL_TYPES: Record<string, Control['type']> = {
+  Slider: 'slider',
+  InputBox: 'input',
+  Switch: 'switch',
+};
+
+// node_input(new Slider(...), "名称") 声明的控件
+export interface NodeDeclaredControl {
+  name: string;
+  type: Control['type'];
+}
+
+export interface NodeStaticAnalysis {
+  // 分析所基于的代码（与执行器看到的代码相同，不去除首尾空白，位置与编辑器一致）
+  code: string;
+  controls: NodeDeclaredControl[];
+  // node_input("名称", 默认值) 声明的、期望从上游获得的输入
+  inputs: string[];
+  // node_output(值, "名称") 与 node_emit("名称", 值) 声明的输出
+  outputs: string[];
+  // 节点引用、却没有在节点内声明的名字
+  free: string[];
+  syntaxError: SourceDiagnostic | null;
+}
+
+const readStringLiteral = (node: AnyNode | undefined) =>
+  node?.type === 'Literal' && typeof node.value === 'string' ? node.value : undefined;
+
+const forEachChild = (node: AnyNode, visit: (child: AnyNode) => void) => {
+  Object.values(node as unknown as Record<string, unknown>).forEach((value) => {
+    const children = Array.isArray(value) ? value : [value];
+    children.forEach((child) => {
+      if (child && typeof child === 'object' && typeof (child as AnyNode).type === 'string') visit(child as AnyNode);
+    });
+  });
+};
+
+// 按代码中出现的顺序收集 node_input / node_output / node_emit 调用
+const collectPorts = (program: Program) => {
+  const controls: NodeDeclaredControl[] = [];
+  const inputs: string[] = [];
+  const outputs: string[] = [];
+  const addUnique = (names: string[], name: string) => {
+    if (!names.includes(name)) names.push(name);
+  };
+
+  const visit = (node: AnyNode): void => {
+    if (node.type === 'CallExpression' && node.callee.type === 'Identifier') {
+      const [first, second] = node.arguments as AnyNode[];
+      if (node.callee.name === 'node_input') {
+        const inputName = readStringLiteral(first);
+        const controlType = first?.type === 'NewExpression' && first.callee.type === 'Identifier'
+          ? CONTROL_TYPES[first.callee.name]
+          : undefined;
+        if (inputName !== undefined) {
+          addUnique(inputs, inputName);
+        } else if (controlType) {
+          const name = readStringLiteral(second) || `input_${controls.length}`;
+          if (!controls.some((control) => control.name === name)) controls.push({ name, type: controlType });
+        }
+      } else if (node.callee.name === 'node_output') {
+        addUnique(outputs, readStringLiteral(second) ?? `output_${outputs.length}`);
+      } else if (node.callee.name === 'node_emit') {
+        const outputName = readStringLiteral(first);
+        if (outputName !== undefined) addUnique(outputs, outputName);
+      }
+    }
+    forEachChild(node, visit);
+  };
+  visit(program);
+  return { controls, inputs, outputs };
+};
+
+export const analyzeNodeCode = (code: string): NodeStaticAnalysis => {
+  const empty = { code, controls: [], inputs: [], outputs: [], free: [] };
+
+  // 模块节点先改写为函数体，import 改写出的取值函数不算作自由变量
+  const compiled = compileNodeModule(code);
+  if (compiled && 'error' in compiled) return { ...empty, syntaxError: compiled.error };
+  const body = compiled ? compiled.code : code;
+
+  let program: Program;
+  try {
+    program = parseNodeCode(body);
+  } catch (error) {
+    return { ...empty, syntaxError: toSyntaxDiagnostic(error, code) };
+  }
+
+  return {
+    code,
+    ...collectPorts(program),
+    free: (analyzeNodeSymbols(body)?.free ?? []).filter((name) => name !== NODE_IMPORT_FUNCTION),
+    syntaxError: null,
+  };
+};
+
+// 按当前节点重新分析：代码不变的节点沿用原结果，没有任何变化时返回原状态
+export const analyzeEvalNodes = (
+  previous: CanvasEvalAnalysisState | undefined,
+  nodes: CanvasEvalNodes,
+): CanvasEvalAnalysisState => {
+  const previousAnalysis = previous?.nodeAnalysis ?? {};
+  let changed = !previous;
+  const nodeAnalysis: Record<string, NodeStaticAnalysis> = {};
+
+  Object.entries(nodes).forEach(([nodeId, node]) => {
+    if (node.type !== CanvasNodeKind.TextNode) return;
+    const cached = previousAnalysis[nodeId];
+    if (cached && cached.code === node.code) {
+      nodeAnalysis[nodeId] = cached;
+      return;
+    }
+    nodeAnalysis[nodeId] = analyzeNodeCode(node.code);
+    changed = true;
+  });
+
+  if (!changed && Object.keys(nodeAnalysis).length === Object.keys(previousAnalysis).length) return previous!;
+  return { nodeAnalysis };
+};
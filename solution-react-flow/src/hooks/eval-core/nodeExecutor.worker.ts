@@ -0,0 +1,155 @@
+import { JSExecutor, type ExecutionResult, type NodeLateReport } from '@/services/jsExecutor';
+import type { SourceDiagnostic } from '@/services/nodeSource';
+import { decodePortableValues, encodePortableOutputs, encodeResultOutputs } from '@/services/portableValues';
+import { checkSandboxPolicy, createSandboxRealm } from '@/services/sandbox';
+import type { WorkerRunRequest, WorkerRunResponse } from './workerExecutionEngine';
+
+/**
+ * 节点执行 Worker：
+ * - 每个 Worker 独占一个 JSExecutor，只服务于一个节点；
+ * - 输入/输出均经由 structured clone 跨线程传递，其中的函数与类实例按 portableValues 的策略编码；
+ * - 死循环只会卡住本 Worker，由主线程按超时强制 terminate；
+ * - Worker 的全局对象经沙箱锁定，节点代码只能使用白名单内的全局名字与节点申请的能力；
+ * - 执行结束后节点代码留下的定时器等回调仍可能运行，其中的日志与错误以 late 消息回报。
+ */
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRunRequest>) => void) | null;
+  postMessage: (message: WorkerRunResponse) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+// 沙箱锁定后全局对象上不再有 postMessage，这里提前取得
+const postMessage = scope.postMessage.bind(scope);
+const executor = new JSExecutor({ isolated: true });
+
+// 当前一轮执行的取消控制器，node_signal 即来自于此
+let current: { runId: number; controller: AbortController } | null = null;
+// 已发出、尚未被主线程确认的中间结果；确认或取消时 resolve
+let pendingEmitAck: { runId: number; resolve: () => void } | null = null;
+
+// 发布中间结果，等待主线程处理完毕（emit-ack）；无法克隆时放弃本次发布，最终结果中会给出警告
+const publishEmit = (runId: number, outputs: Record<string, unknown>) => new Promise<void>((resolve) => {
+  try {
+    postMessage({ type: 'emit', runId, outputs: encodePortableOutputs(outputs).outputs });
+    pendingEmitAck = { runId, resolve };
+  } catch {
+    resolve();
+  }
+});
+
+const resolveEmitAck = (runId: number) => {
+  if (pendingEmitAck?.runId !== runId) return;
+  pendingEmitAck.resolve();
+  pendingEmitAck = null;
+};
+
+// 日志参数已在记录时克隆为可传递的值，这里只兜底
+const postLateReport = (report: NodeLateReport) => {
+  try {
+    postMessage({ type: 'late', report });
+  } catch {
+    // 无法传递的回报直接丢弃，不影响节点后续的执行
+  }
+};
+
+// 顶层定义可能是函数等不可克隆的值：逐个剔除并记为警告，不影响其余定义与输出
+const pickCloneableGlobals = (result: ExecutionResult): ExecutionResult => {
+  if (!result.globals) return result;
+
+  const globals: Record<string, unknown> = {};
+  const warnings = [...(result.warnings ?? [])];
+  Object.entries(result.globals).forEach(([name, value]) => {
+    try {
+      globals[name] = structuredClone(value);
+    } catch {
+      warnings.push({ message: `全局定义 "${name}" 无法跨线程传递，下游节点将无法引用` });
+    }
+  });
+  return { ...result, globals, warnings };
+};
+
+// 输出里若含有不可克隆的值（函数等），postMessage 会直接抛错，这里转成节点错误回传
+const postResult = (runId: number, result: ExecutionResult) => {
+  try {
+    postMessage({ type: 'result', runId, result: pickCloneableGlobals(encodeResultOutputs(result)) });
+  } catch (error) {
+    postMessage({
+      type: 'result',
+      runId,
+      result: {
+        success: false,
+        outputs: {},
+        controls: result.controls,
+        logs: result.logs,
+        errors: [{
+          message: `输出无法跨线程传递：${error instanceof Error ? error.message : String(error)}`,
+        }],
+        warnings: result.warnings,
+      },
+    });
+  }
+};
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+
+  if (request.type === 'abort') {
+    if (current?.runId === request.runId) current.controller.abort();
+    resolveEmitAck(request.runId);
+    return;
+  }
+
+  if (request.type === 'emit-ack') {
+    resolveEmitAck(request.runId);
+    return;
+  }
+
+  const {
+    runId, code, inputs, globals, exportNames, sourceName, capabilities, modules, libraries,
+    time, randomSeed, replaceMathRandom, referenceInputs, inlineValues,
+  } = request;
+  // 被导入的模块与共享库在本节点的 realm 中执行，同样受本节点权限约束；其中的位置不在本节点内，只保留消息
+  const dependencies = [
+    ...libraries.map((library) => ({ label: '共享库', code: library.code })),
+    ...modules.map((module) => ({ label: `模块 "${module.name}"`, code: module.code })),
+  ];
+  const violation = checkSandboxPolicy(code, capabilities) ?? dependencies.reduce<SourceDiagnostic | null>((found, dependency) => {
+    if (found) return found;
+    const diagnostic = checkSandboxPolicy(dependency.code, capabilities);
+    return diagnostic ? { message: `${dependency.label}：${diagnostic.message}` } : null;
+  }, null);
+  if (violation) {
+    postResult(runId, { success: false, outputs: {}, controls: [], logs: [], errors: [violation], warnings: [] });
+    return;
+  }
+
+  const controller = new AbortController();
+  current = { runId, controller };
+  const { value: result, leakedGlobals } = await realm.run(capabilities, () => executor.executeCode(code, decodePortableValues(inputs), {
+    signal: controller.signal,
+    globals,
+    exportNames,
+    sourceName,
+    modules,
+    libraries,
+    time,
+    randomSeed,
+    replaceMathRandom,
+    referenceInputs,
+    inlineValues,
+    onEmit: (outputs) => publishEmit(runId, outputs),
+    onLateReport: postLateReport,
+  }));
+  if (current?.runId === runId) current = null;
+  postResult(runId, {
+    ...result,
+    warnings: [
+      ...(result.warnings ?? []),
+      ...leakedGlobals.map((name) => ({ message: `节点代码修改了全局变量 "${name}"，已在执行结束后还原` })),
+    ],
+  });
+};
+
+// 处理函数就绪后再锁定全局对象
+const realm = createSandboxRealm();
@@ -0,0 +1,629 @@
+import type { Control, ExecutionResult, NodeLateReport, NodeLibrarySource } from '@/services/jsExecutor';
+import type { NodeModuleSource } from '@/services/nodeModules';
+import type { SourceDiagnostic } from '@/services/nodeSource';
+import {
+  PORT_TYPE_LABELS,
+  describeValueType,
+  extractPortTypes,
+  matchesPortType,
+  type NodePortTypes,
+} from '@/services/portTypes';
+import { referencesRandom } from '@/services/seededRandom';
+import { CanvasNodeKind } from '@/types/canvas';
+import type { EvalExecutionEngine } from './contracts';
+import { referencesClock } from './evalClock';
+import type { EvalTriggerReason } from './evalProfiler';
+import type { CanvasEvalNode, CanvasEvalStoreState, ErrorInfo, WarningInfo } from './evalState';
+import type { CanvasEvaluationPlan } from './evaluationPlanner';
+import { computeEvalCacheKey, digestValue, identityKeyOf } from './memoization';
+
+const mergeControls = (prevControls: Control[], nextControls: Control[]) => {
+  const prevMap = new Map(prevControls.map((c) => [c.name, c]));
+  return nextControls.map((control) => {
+    const prev = prevMap.get(control.name);
+    if (!prev) return control;
+    return { ...control, value: control.value ?? prev.value ?? control.defaultValue };
+  });
+};
+
+/**
+ * 深拷贝辅助函数
+ * 确保数据传递时使用传值而非传引用，避免副作用。
+ * 引擎返回的输出已按 portableValues 编码，总是可以 structuredClone；
+ * 只有主线程引擎的顶层定义可能含有函数等不可克隆的值，此时按原值共享
+ */
+const deepCloneValue = <T>(value: T): T => {
+  try {
+    return structuredClone(value);
+  } catch (error) {
+    // 如果深拷贝失败（例如包含不可序列化的值），记录警告并返回原值
+    console.warn(`[planRunner] 无法深拷贝值，使用原值:`, error);
+    return value;
+  }
+};
+
+
+// 按依赖边收集上游输出：配置了端口映射的边只传入映射中的输出（可改名），其余边按原名传入全部输出；
+// 多个上游提供同名输入时以靠后的上游为准，并以警告提示冲突。
+// 按值传递的边在这里深拷贝（引擎自身会复制输入时跳过），按引用传递的边直接传入上游输出，输入名记入 referenceInputs；
+// 引擎自身会复制输入时按引用传递省不下拷贝，这些边按值传递处理（摘要按内容计算，缓存照常命中）；
+// inputDigests 为各输入参与缓存键的摘要，取自上游输出本身（而非拷贝），按引用传递的输入只取身份
+const collectLatestInputValues = (
+  nodeId: string,
+  state: CanvasEvalStoreState,
+  interimResults: Map<string, CanvasEvalNode>,
+  copiesInputs: boolean,
+) => {
+  const inputs: Record<string, unknown> = {};
+  const providersByInput: Record<string, string[]> = {};
+  const referenceInputs = new Set<string>();
+  const inputDigests: Record<string, string | null> = {};
+  const sources = state.depIOs.incomingByTarget[nodeId] || [];
+  const mappings = state.depIOs.portMappingByTarget[nodeId] || {};
+  const referenceSources = state.depIOs.referenceSourcesByTarget[nodeId] || [];
+
+  sources.forEach((sourceId) => {
+    const sourceState = interimResults.get(sourceId) ?? state.nodes[sourceId];
+    if (!sourceState?.outputs) return;
+
+    const mapping = mappings[sourceId];
+    const byReference = !copiesInputs && referenceSources.includes(sourceId);
+    Object.entries(sourceState.outputs).forEach(([outputName, value]) => {
+      const inputName = mapping ? mapping[outputName] : outputName;
+      if (!inputName) return;
+      inputDigests[inputName] = byReference ? identityKeyOf(value) : digestValue(value);
+      if (byReference) {
+        inputs[inputName] = value;
+        referenceInputs.add(inputName);
+      } else {
+        inputs[inputName] = copiesInputs ? value : deepCloneValue(value);
+        referenceInputs.delete(inputName);
+      }
+      if (!providersByInput[inputName]) providersByInput[inputName] = [];
+      providersByInput[inputName].push(sourceId);
+    });
+  });
+
+  const warnings: WarningInfo[] = Object.entries(providersByInput)
+    .filter(([, providers]) => providers.length > 1)
+    .map(([inputName, providers]) => ({
+      message: `输入 "${inputName}" 同时来自多个上游节点（${providers.join('、')}），已采用 ${providers[providers.length - 1]} 的值；可在连线上配置端口映射以区分`,
+    }));
+
+  return { inputs, referenceInputs: Array.from(referenceInputs), inputDigests, warnings };
+};
+
+// 全局语义下引用的上游定义：按名字从对应源节点的最新 globals 中取值；摘要同样取自源节点的值本身
+const collectImportedGlobals = (
+  nodeId: string,
+  state: CanvasEvalStoreState,
+  interimResults: Map<string, CanvasEvalNode>,
+) => {
+  const globals: Record<string, unknown> = {};
+  const globalDigests: Record<string, string | null> = {};
+  const imports = state.globalIOs.importsByTarget[nodeId] || {};
+
+  Object.entries(imports).forEach(([name, sourceId]) => {
+    const sourceState = interimResults.get(sourceId) ?? state.nodes[sourceId];
+    if (sourceState?.globals && name in sourceState.globals) {
+      globals[name] = deepCloneValue(sourceState.globals[name]);
+      globalDigests[name] = digestValue(sourceState.globals[name]);
+    }
+  });
+
+  return { globals, globalDigests };
+};
+
+// 节点直接或间接导入的模块节点源码，按依赖顺序排列（被依赖者在前）；循环导入时抛错
+const collectModuleSources = (nodeId: string, state: CanvasEvalStoreState): NodeModuleSource[] => {
+  const modules: NodeModuleSource[] = [];
+  const visited = new Set<string>();
+
+  const visit = (targetId: string, path: string[]) => {
+    Object.entries(state.globalIOs.modulesByTarget[targetId] ?? {}).forEach(([name, sourceId]) => {
+      if (sourceId === nodeId || path.includes(name)) {
+        throw new Error(`模块循环导入：本节点 → ${[...path, name].join(' → ')}`);
+      }
+      if (visited.has(sourceId)) return;
+      const sourceState = state.nodes[sourceId];
+      if (!sourceState) return;
+
+      visit(sourceId, [...path, name]);
+      visited.add(sourceId);
+      modules.push({ name, code: sourceState.code, sourceName: sourceId });
+    });
+  };
+
+  visit(nodeId, []);
+  return modules;
+};
+
+// 节点（TextNode 或共享库）引用的共享库源码，含被引用的共享库再引用的共享库，被引用者排在前面；
+// 模块节点还需要它导入的模块（moduleIds）所引用的共享库。成环的引用只取一次。
+// 共享库节点的代码在本轮计划中不会变化，直接取快照中的值
+const collectLibrarySources = (
+  nodeId: string,
+  state: CanvasEvalStoreState,
+  moduleIds: string[] = [],
+): NodeLibrarySource[] => {
+  const libraries: NodeLibrarySource[] = [];
+  const visited = new Set<string>([nodeId]);
+
+  const visit = (targetId: string) => {
+    (state.globalIOs.librariesByTarget[targetId] ?? []).forEach((libraryId) => {
+      if (visited.has(libraryId) || state.nodes[libraryId]?.type !== CanvasNodeKind.LibraryNode) return;
+      visited.add(libraryId);
+      visit(libraryId);
+      libraries.push({
+        code: state.nodes[libraryId].code,
+        sourceName: libraryId,
+        exportNames: state.globalIOs.exportsBySource[libraryId] ?? [],
+      });
+    });
+  };
+
+  visit(nodeId);
+  moduleIds.forEach(visit);
+  return libraries;
+};
+
+// 一轮计算任务的触发信息：各 entry 节点的纳入原因，以及需要忽略缓存强制执行的节点
+export interface EvalTaskTrigger {
+  reasons: Record<string, EvalTriggerReason>;
+  forcedNodeIds: Set<string>;
+}
+
+// 执行前按声明的输入类型检查上游传入的值；控件值与默认值不经过连线，不在检查之列
+const checkInputTypes = (portTypes: NodePortTypes, upstreamInputs: Record<string, unknown>): ErrorInfo[] =>
+  Object.entries(portTypes.inputs).flatMap(([name, type]) => {
+    if (!(name in upstreamInputs) || matchesPortType(type, upstreamInputs[name])) return [];
+    return [{ message: `类型不匹配：输入 "${name}" 应为 ${type}，上游传入的是 ${describeValueType(upstreamInputs[name])}` }];
+  });
+
+// 执行后检查节点自身的输出是否符合声明；同时提示无法识别的类型名
+const checkOutputTypes = (portTypes: NodePortTypes, outputs: Record<string, unknown>): WarningInfo[] => [
+  ...portTypes.unknown.map((type) => ({
+    message: `未知的端口类型 "${type}"，该声明将被忽略；可用的类型：${Object.keys(PORT_TYPE_LABELS).join('、')}`,
+  })),
+  ...Object.entries(portTypes.outputs).flatMap(([name, type]) => {
+    if (!(name in outputs) || matchesPortType(type, outputs[name])) return [];
+    return [{ message: `输出 "${name}" 声明为 ${type}，实际为 ${describeValueType(outputs[name])}` }];
+  }),
+];
+
+// 手动“全部停止”时使用的 abort reason，用于和“被新任务取代”区分
+export const EVAL_STOP_REASON = 'canvas-eval-stop';
+
+// 单个 TextNode 的执行：收集输入 -> 调用引擎 -> 生成新的节点状态；
+// 执行期间被取消时返回 null，表示该节点的结果不可信；
+// 缓存命中时原样返回节点当前状态（引用不变），下游因此也会命中缓存，传播就此停止；
+// onEmit 接收执行中途产出的中间结果，未提供时中间结果被忽略，只保留最终输出；
+// onLateReport 接收执行结束后回调中产生的日志与错误
+const evaluateTextNode = async (
+  nodeId: string,
+  stateSnapshot: CanvasEvalStoreState,
+  interimResults: Map<string, CanvasEvalNode>,
+  engine: EvalExecutionEngine,
+  signal: AbortSignal,
+  forceRun: boolean,
+  time: number,
+  onEmit?: (outputs: Record<string, unknown>) => Promise<void>,
+  onLateReport?: (report: NodeLateReport) => void,
+): Promise<CanvasEvalNode | null> => {
+  const nodeState = stateSnapshot.nodes[nodeId];
+
+  // 只在判断是否为空时去除空白，执行与分析的都是编辑器中的原文，错误位置与行内值才能对上编辑器的行列
+  const { code } = nodeState;
+  if (!code.trim()) {
+    return {
+      ...nodeState,
+      isEvaluating: false,
+      outputs: {},
+      logs: [],
+      errors: [],
+      warnings: [],
+      globals: {},
+      lineValues: undefined,
+      cacheKey: undefined,
+    };
+  }
+
+  const {
+    inputs: upstreamInputs,
+    referenceInputs: upstreamReferenceInputs,
+    inputDigests,
+    warnings: inputWarnings,
+  } = collectLatestInputValues(nodeId, stateSnapshot, interimResults, engine.copiesInputs ?? false);
+  const controlInputs = nodeState.controls.reduce<Record<string, unknown>>((acc, control) => {
+    const value = control.value ?? control.defaultValue;
+    if (value !== undefined) acc[control.name] = value;
+    return acc;
+  }, {});
+  const inputs = { ...upstreamInputs, ...controlInputs };
+  // 被控件值覆盖的输入不再是上游的引用
+  const referenceInputs = upstreamReferenceInputs.filter((name) => !(name in controlInputs));
+  const { globals, globalDigests } = collectImportedGlobals(nodeId, stateSnapshot, interimResults);
+  const exportNames = stateSnapshot.globalIOs.exportsBySource[nodeId] ?? [];
+
+  let modules: NodeModuleSource[];
+  try {
+    modules = collectModuleSources(nodeId, stateSnapshot);
+  } catch (error) {
+    return {
+      ...nodeState,
+      isEvaluating: false,
+      outputs: {},
+      globals: {},
+      logs: [],
+      errors: [{ message: error instanceof Error ? error.message : String(error) }],
+      warnings: inputWarnings,
+      lineValues: undefined,
+      cacheKey: undefined,
+    };
+  }
+
+  const libraries = collectLibrarySources(
+    nodeId,
+    stateSnapshot,
+    modules.flatMap((module) => (module.sourceName ? [module.sourceName] : [])),
+  );
+  // 只有（直接或经由模块、共享库）引用了 node_time 的节点，缓存才随时钟时间失效；随机种子同理
+  const sources = [code, ...modules.map((module) => module.code), ...libraries.map((library) => library.code)];
+  const usesClock = sources.some(referencesClock);
+  const usesRandom = sources.some(referencesRandom);
+
+  // 上游输入与全局定义以摘要参与缓存键，被控件值覆盖的输入以控件值为准；任一摘要缺失时放弃缓存
+  const upstreamDigests = Object.fromEntries(
+    Object.entries(inputDigests).filter(([name]) => !(name in controlInputs)),
+  );
+  const cacheable = [...Object.values(upstreamDigests), ...Object.values(globalDigests)].every((digest) => digest !== null);
+  const cacheKey = cacheable ? computeEvalCacheKey({
+    code,
+    timeoutMs: nodeState.timeoutMs,
+    capabilities: nodeState.capabilities,
+    inputs: { upstream: upstreamDigests, controls: controlInputs },
+    globals: globalDigests,
+    exportNames,
+    modules,
+    libraries,
+    time: usesClock ? time : undefined,
+    random: usesRandom ? [nodeState.randomSeed, nodeState.replaceMathRandom] : undefined,
+    inlineValues: nodeState.inlineValues,
+  }) ?? undefined : undefined;
+  if (!forceRun && cacheKey !== undefined && cacheKey === nodeState.cacheKey) {
+    return nodeState;
+  }
+
+  // 上游传入的值与声明的类型不符时不执行节点，直接在本节点报错，而不是在更下游出现难以理解的运行时错误
+  const portTypes = extractPortTypes(code);
+  const typeErrors = checkInputTypes(portTypes, upstreamInputs);
+  if (typeErrors.length > 0) {
+    return {
+      ...nodeState,
+      isEvaluating: false,
+      outputs: {},
+      globals: {},
+      logs: [],
+      errors: typeErrors,
+      warnings: inputWarnings,
+      lineValues: undefined,
+      cacheKey: undefined,
+    };
+  }
+
+  try {
+    const result: ExecutionResult = await engine.executeCode(code, inputs, {
+      nodeId,
+      timeoutMs: nodeState.timeoutMs,
+      signal,
+      globals,
+      exportNames,
+      capabilities: nodeState.capabilities,
+      modules,
+      libraries,
+      time,
+      randomSeed: nodeState.randomSeed,
+      replaceMathRandom: nodeState.replaceMathRandom,
+      referenceInputs,
+      inlineValues: nodeState.inlineValues,
+      onEmit,
+      onLateReport,
+    });
+
+    if (signal.aborted) {
+      return null;
+    }
+
+    if (result.success) {
+      const errors = result.errors || [];
+      // 输出原样存储：按值传递的下游在收集输入时各自拷贝，按引用传递的下游共享这份数据
+      return {
+        ...nodeState,
+        isEvaluating: false,
+        controls: result.controls,
+        outputs: result.outputs,
+        globals: deepCloneValue(result.globals ?? {}),
+        logs: result.logs,
+        // 成功执行也可能附带错误（例如未被 await 的 Promise 拒绝）
+        errors,
+        warnings: [...inputWarnings, ...(result.warnings || []), ...checkOutputTypes(portTypes, result.outputs)],
+        lineValues: result.lineValues,
+        // 带错误的结果不进入缓存，下次仍会重新执行
+        cacheKey: errors.length ? undefined : cacheKey,
+      };
+    }
+    return {
+      ...nodeState,
+      isEvaluating: false,
+      controls: mergeControls(nodeState.controls, result.controls),
+      outputs: {},
+      globals: {},
+      logs: result.logs,
+      errors: result.errors || [{ message: 'Unknown execution error' }],
+      warnings: [...inputWarnings, ...(result.warnings || [])],
+      lineValues: result.lineValues,
+      cacheKey: undefined,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      ...nodeState,
+      isEvaluating: false,
+      errors: [{ message, stack: error instanceof Error ? error.stack : undefined }],
+      lineValues: undefined,
+      cacheKey: undefined,
+    };
+  }
+};
+
+// 静态分析已发现语法错误的节点不经过引擎，结果与引擎预解析失败时相同；控件保留上一次的声明
+const createSyntaxErrorResult = (nodeState: CanvasEvalNode, syntaxError: SourceDiagnostic): CanvasEvalNode => ({
+  ...nodeState,
+  isEvaluating: false,
+  outputs: {},
+  globals: {},
+  logs: [],
+  errors: [syntaxError],
+  warnings: [],
+  lineValues: undefined,
+  cacheKey: undefined,
+});
+
+// 执行过程中在引擎之外意外抛出的异常（如读取上游值时 getter 抛错）记为该节点的错误，不中断整轮调度
+const runGuarded = async (
+  nodeState: CanvasEvalNode,
+  run: () => Promise<CanvasEvalNode | null>,
+): Promise<CanvasEvalNode | null> => {
+  try {
+    return await run();
+  } catch (error) {
+    return {
+      ...nodeState,
+      isEvaluating: false,
+      outputs: {},
+      globals: {},
+      logs: [],
+      errors: [{ message: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined }],
+      warnings: [],
+      lineValues: undefined,
+      cacheKey: undefined,
+    };
+  }
+};
+
+// 共享库节点的执行：只检查库代码本身（连同它引用的共享库）能否正常运行，错误与日志显示在共享库节点上；
+// 顶层定义不回传（函数无法跨 Worker 传递），引用它的 TextNode 会在自己的执行环境中重新执行库代码
+const evaluateLibraryNode = async (
+  nodeId: string,
+  stateSnapshot: CanvasEvalStoreState,
+  engine: EvalExecutionEngine,
+  signal: AbortSignal,
+  forceRun: boolean,
+  time: number,
+  onLateReport?: (report: NodeLateReport) => void,
+): Promise<CanvasEvalNode | null> => {
+  const nodeState = stateSnapshot.nodes[nodeId];
+
+  const { code } = nodeState;
+  if (!code.trim()) {
+    return {
+      ...nodeState,
+      isEvaluating: false,
+      logs: [],
+      errors: [],
+      warnings: [],
+      cacheKey: undefined,
+    };
+  }
+
+  const libraries = collectLibrarySources(nodeId, stateSnapshot);
+  const sources = [code, ...libraries.map((library) => library.code)];
+  const cacheKey = computeEvalCacheKey({
+    code,
+    libraries,
+    time: sources.some(referencesClock) ? time : undefined,
+    random: sources.some(referencesRandom) ? [nodeState.randomSeed, nodeState.replaceMathRandom] : undefined,
+  }) ?? undefined;
+  if (!forceRun && cacheKey !== undefined && cacheKey === nodeState.cacheKey) {
+    return nodeState;
+  }
+
+  try {
+    const result = await engine.executeCode(code, {}, {
+      nodeId,
+      signal,
+      libraries,
+      time,
+      randomSeed: nodeState.randomSeed,
+      replaceMathRandom: nodeState.replaceMathRandom,
+      onLateReport,
+    });
+    if (signal.aborted) {
+      return null;
+    }
+    const errors = result.errors || [];
+    return {
+      ...nodeState,
+      isEvaluating: false,
+      logs: result.logs,
+      errors,
+      warnings: result.warnings || [],
+      cacheKey: errors.length ? undefined : cacheKey,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      ...nodeState,
+      isEvaluating: false,
+      errors: [{ message, stack: error instanceof Error ? error.stack : undefined }],
+      cacheKey: undefined,
+    };
+  }
+};
+
+export const DEFAULT_EVAL_CONCURRENCY = 4;
+
+/**
+ * 按 DAG 调度执行计划：
+ * - 共享库节点先于所有 TextNode，按 plan.libraryNodesScope 的顺序（共享库之间的依赖顺序）串行执行；
+ * - 上游全部完成的节点即为“就绪”，最多 maxConcurrency 个同时执行；
+ * - 就绪队列按 plan.order 排序，保证相同输入下的启动顺序稳定；
+ * - 结果先暂存，最终按 plan.order 写入 interimResults，与完成先后无关；
+ * - forcedNodeIds 中的节点忽略缓存、必定重新执行（用于手动重算）；
+ * - plan.syntaxErrors 中的节点不执行，直接以语法错误作为结果，下游照常按没有该节点的输出执行；
+ * - 本轮所有节点读取同一个时钟时间 time；
+ * - 每个节点得到结果（含缓存命中）时回调 onNodeSettled，附带该节点的执行耗时，供性能记录使用；
+ * - 节点执行中在引擎之外意外抛出的异常记为该节点的错误，回调出错也不会中断调度；
+ * - TextNode 在执行中途产出中间结果时回调 onEmit，节点在它完成前不会继续产出；
+ * - 节点执行结束后由其代码启动的回调产生日志或错误时回调 onLateReport，可能发生在本轮结束之后。
+ */
+export const runEvaluationPlan = async (
+  plan: CanvasEvaluationPlan,
+  stateSnapshot: CanvasEvalStoreState,
+  engine: EvalExecutionEngine,
+  latestVersionRef: { current: number },
+  version: number,
+  signal: AbortSignal,
+  maxConcurrency: number,
+  forcedNodeIds: Set<string>,
+  time: number,
+  onNodeSettled: (nodeId: string, result: CanvasEvalNode, durationMs: number) => void,
+  onEmit?: (nodeId: string, outputs: Record<string, unknown>) => Promise<void>,
+  onLateReport?: (nodeId: string, report: NodeLateReport) => void,
+) => {
+  const { order, upstreamsInScope } = plan;
+  const orderIndex = new Map(order.map((nodeId, index) => [nodeId, index]));
+  const isStale = () => latestVersionRef.current !== version;
+
+  // 调度过程中的结果表：下游节点从这里读取已完成上游的输出
+  const settledResults = new Map<string, CanvasEvalNode>();
+  const textNodeIds = order.filter((nodeId) => stateSnapshot.nodes[nodeId]?.type === CanvasNodeKind.TextNode);
+  const remainingUpstreams = new Map(textNodeIds.map((nodeId) => [nodeId, (upstreamsInScope[nodeId] ?? []).length]));
+  const downstreamInScope = new Map<string, string[]>();
+  textNodeIds.forEach((nodeId) => {
+    (upstreamsInScope[nodeId] ?? []).forEach((sourceId) => {
+      if (!downstreamInScope.has(sourceId)) downstreamInScope.set(sourceId, []);
+      downstreamInScope.get(sourceId)!.push(nodeId);
+    });
+  });
+
+  const ready = textNodeIds.filter((nodeId) => remainingUpstreams.get(nodeId) === 0);
+  const limit = Math.max(1, maxConcurrency);
+
+  // 共享库步骤
+  for (const nodeId of plan.libraryNodesScope) {
+    if (isStale() || signal.aborted) break;
+    const startedAt = performance.now();
+    const result = await runGuarded(stateSnapshot.nodes[nodeId], () => evaluateLibraryNode(
+      nodeId, stateSnapshot, engine, signal, forcedNodeIds.has(nodeId), time,
+      onLateReport && ((report) => onLateReport(nodeId, report)),
+    ));
+    if (!result) continue;
+    onNodeSettled(nodeId, result, performance.now() - startedAt);
+    settledResults.set(nodeId, result);
+  }
+
+  await new Promise<void>((resolve) => {
+    let active = 0;
+
+    const pump = () => {
+      // 被取代或被取消后不再启动新节点，等待已启动的节点返回
+      const halted = isStale() || signal.aborted;
+      while (!halted && active < limit && ready.length) {
+        const nodeId = ready.shift()!;
+        active += 1;
+        const startedAt = performance.now();
+        const emit = onEmit && ((outputs: Record<string, unknown>) => onEmit(nodeId, outputs));
+        const lateReport = onLateReport && ((report: NodeLateReport) => onLateReport(nodeId, report));
+        const syntaxError = plan.syntaxErrors[nodeId];
+        runGuarded(stateSnapshot.nodes[nodeId], async () => (syntaxError
+          ? createSyntaxErrorResult(stateSnapshot.nodes[nodeId], syntaxError)
+          : evaluateTextNode(
+            nodeId, stateSnapshot, settledResults, engine, signal, forcedNodeIds.has(nodeId), time, emit, lateReport,
+          )
+        ))
+          .then((result) => {
+            if (!result) return;
+            if (!isStale()) {
+              settledResults.set(nodeId, result);
+              (downstreamInScope.get(nodeId) ?? []).forEach((targetId) => {
+                const next = (remainingUpstreams.get(targetId) ?? 0) - 1;
+                remainingUpstreams.set(targetId, next);
+                if (next === 0) ready.push(targetId);
+              });
+              ready.sort((a, b) => (orderIndex.get(a) ?? 0) - (orderIndex.get(b) ?? 0));
+            }
+            onNodeSettled(nodeId, result, performance.now() - startedAt);
+          })
+          // 回调出错只影响该节点的记录，调度照常继续
+          .catch((error) => {
+            console.warn(`[planRunner] 节点 ${nodeId} 的结果回调出错:`, error);
+          })
+          .finally(() => {
+            active -= 1;
+            pump();
+          });
+      }
+      if (active === 0) resolve();
+    };
+
+    pump();
+  });
+
+  if (isStale()) {
+    return;
+  }
+
+  const interimResults = new Map<string, CanvasEvalNode>();
+  [...plan.libraryNodesScope, ...textNodeIds].forEach((nodeId) => {
+    const result = settledResults.get(nodeId);
+    if (result) interimResults.set(nodeId, result);
+  });
+
+  // 被取消时保留已完成的结果，由调用方决定丢弃（被取代）还是提交（手动停止）
+  if (signal.aborted) {
+    return interimResults;
+  }
+
+  // Desmos Preview 节点只是转发源节点的输出，放在最后串行处理
+  order.forEach((nodeId) => {
+    const nodeState = stateSnapshot.nodes[nodeId];
+    if (nodeState?.type !== CanvasNodeKind.DesmosPreviewNode) return;
+
+    const {source, sourceOutputName} = stateSnapshot.DPIOs.incomingByTarget[nodeId] || [];
+    const desmosState =
+      interimResults.get(source)?.outputs[sourceOutputName]
+      ?? stateSnapshot.nodes[source]?.outputs[sourceOutputName];
+
+    interimResults.set(nodeId, {
+      ...nodeState,
+      isEvaluating: false,
+      outputs: { desmosState },
+      logs: [],
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  return interimResults;
+};
@@ -0,0 +1,167 @@
+import { NODE_IMPORT_FUNCTION, compileNodeModule } from '@/services/nodeModules';
+import { analyzeNodeSymbols, type NodeSymbolInfo } from '@/services/symbolAnalysis';
+import { CanvasNodeKind } from '@/types/canvas';
+import type { EvalDependencyResolver, ResolvedGlobalIOs } from './contracts';
+import { edgeDependencyResolver } from './edgeDependencyResolver';
+
+/**
+ * 符号解析 resolver：
+ * - 先沿用画布边推导出的显式依赖；
+ * - 再解析每个“全局语义”TextNode 的顶层定义与自由变量，
+ *   当 A 的自由变量恰好由 B 在顶层定义时，推断出 B -> A 的依赖；
+ * - “局部语义”节点既不对外提供定义，也不自动获得其他 TextNode 的定义，只走显式边；
+ * - 模块节点（含 import/export 声明）不参与 TextNode 之间的自由变量推断：它通过 import "@node/节点名" 显式引用其他模块，
+ *   按节点名解析出 source -> target 的依赖；重名节点无法确定指向，不建立依赖；
+ * - 共享库节点的顶层定义对所有 TextNode（含局部语义节点与模块节点）可见：自由变量没有 TextNode 提供、
+ *   但由共享库定义时，推断出 共享库 -> TextNode 的依赖（只进入 depIOs 与 librariesByTarget，不作为连线显示）；
+ * - 共享库之间同样按自由变量推断依赖：共享库的自由变量由另一个共享库定义时，推断出 被引用的共享库 -> 共享库 的依赖。
+ *
+ * 同名定义出现在多个节点时，按节点顺序取第一个定义者。
+ * 代码暂时存在语法错误时沿用该节点上一次成功解析的结果，避免输入过程中依赖关系抖动。
+ */
+export const createSymbolDependencyResolver = (): EvalDependencyResolver => {
+  const lastAnalysis = new Map<string, { code: string; info: NodeSymbolInfo }>();
+
+  const analyze = (nodeId: string, code: string): NodeSymbolInfo => {
+    const cached = lastAnalysis.get(nodeId);
+    if (cached?.code === code) return cached.info;
+
+    const info = analyzeNodeSymbols(code);
+    if (!info) return cached?.info ?? { defined: [], free: [] };
+
+    lastAnalysis.set(nodeId, { code, info });
+    return info;
+  };
+
+  // 模块节点的 import 列表与（改写后函数体的）自由变量；非模块节点为 null
+  const lastModuleImports = new Map<string, { code: string; module: { imports: string[]; free: string[] } | null }>();
+
+  const analyzeModule = (nodeId: string, code: string) => {
+    const cached = lastModuleImports.get(nodeId);
+    if (cached?.code === code) return cached.module;
+
+    const compiled = compileNodeModule(code);
+    if (compiled && 'error' in compiled) return cached?.module ?? null;
+
+    const module = compiled
+      ? {
+        imports: compiled.imports,
+        free: (analyzeNodeSymbols(compiled.code)?.free ?? []).filter((name) => name !== NODE_IMPORT_FUNCTION),
+      }
+      : null;
+    lastModuleImports.set(nodeId, { code, module });
+    return module;
+  };
+
+  return {
+    resolve: (edges, nodes) => {
+      const { depIOs, DPIOs } = edgeDependencyResolver.resolve(edges, nodes);
+
+      // 已删除节点的解析缓存一并清理
+      [lastAnalysis, lastModuleImports].forEach((cache) => {
+        Array.from(cache.keys()).forEach((nodeId) => {
+          if (!nodes.has(nodeId)) cache.delete(nodeId);
+        });
+      });
+
+      const addDependency = (sourceId: string, targetId: string) => {
+        if (!depIOs.incomingByTarget[targetId]) depIOs.incomingByTarget[targetId] = [];
+        if (!depIOs.incomingByTarget[targetId].includes(sourceId)) depIOs.incomingByTarget[targetId].push(sourceId);
+
+        if (!depIOs.outgoingBySource[sourceId]) depIOs.outgoingBySource[sourceId] = [];
+        if (!depIOs.outgoingBySource[sourceId].includes(targetId)) depIOs.outgoingBySource[sourceId].push(targetId);
+      };
+
+      const globalIOs: ResolvedGlobalIOs = {
+        importsByTarget: {},
+        exportsBySource: {},
+        modulesByTarget: {},
+        librariesByTarget: {},
+      };
+
+      const symbolsByNode = new Map<string, NodeSymbolInfo>();
+      const definersByName = new Map<string, string[]>();
+      const moduleImportsByNode = new Map<string, string[]>();
+      const nodeIdsByName = new Map<string, string[]>();
+      // 局部语义节点、模块节点与共享库的自由变量只用于匹配共享库中的定义
+      const localFreeByNode = new Map<string, string[]>();
+      const librariesByName = new Map<string, string[]>();
+      nodes.forEach((node, nodeId) => {
+        if (node.type === CanvasNodeKind.LibraryNode) {
+          const { defined, free } = analyze(nodeId, node.data.code ?? '');
+          localFreeByNode.set(nodeId, free);
+          globalIOs.exportsBySource[nodeId] = [...defined];
+          defined.forEach((name) => {
+            librariesByName.set(name, [...(librariesByName.get(name) ?? []), nodeId]);
+          });
+          return;
+        }
+        if (node.type !== CanvasNodeKind.TextNode) return;
+        const name = node.data.nodeName?.trim();
+        if (name) nodeIdsByName.set(name, [...(nodeIdsByName.get(name) ?? []), nodeId]);
+
+        const moduleInfo = analyzeModule(nodeId, node.data.code ?? '');
+        if (moduleInfo) {
+          moduleImportsByNode.set(nodeId, moduleInfo.imports);
+          localFreeByNode.set(nodeId, moduleInfo.free);
+          return;
+        }
+
+        if (node.data.semantics === 'local') {
+          localFreeByNode.set(nodeId, analyze(nodeId, node.data.code ?? '').free);
+          return;
+        }
+        const info = analyze(nodeId, node.data.code ?? '');
+        symbolsByNode.set(nodeId, info);
+        info.defined.forEach((name) => {
+          if (!definersByName.has(name)) definersByName.set(name, []);
+          definersByName.get(name)!.push(nodeId);
+        });
+      });
+
+      moduleImportsByNode.forEach((imports, targetId) => {
+        imports.forEach((name) => {
+          const candidates = nodeIdsByName.get(name) ?? [];
+          if (candidates.length !== 1 || candidates[0] === targetId) return;
+          const sourceId = candidates[0];
+
+          if (!globalIOs.modulesByTarget[targetId]) globalIOs.modulesByTarget[targetId] = {};
+          globalIOs.modulesByTarget[targetId][name] = sourceId;
+          addDependency(sourceId, targetId);
+        });
+      });
+
+      const addLibraryDependency = (name: string, targetId: string) => {
+        const libraryId = librariesByName.get(name)?.find((id) => id !== targetId);
+        if (!libraryId) return;
+        if (!globalIOs.librariesByTarget[targetId]) globalIOs.librariesByTarget[targetId] = [];
+        if (!globalIOs.librariesByTarget[targetId].includes(libraryId)) globalIOs.librariesByTarget[targetId].push(libraryId);
+        addDependency(libraryId, targetId);
+      };
+
+      localFreeByNode.forEach((free, targetId) => {
+        free.forEach((name) => addLibraryDependency(name, targetId));
+      });
+
+      symbolsByNode.forEach((info, targetId) => {
+        info.free.forEach((name) => {
+          const sourceId = (definersByName.get(name) ?? []).find((id) => id !== targetId);
+          if (!sourceId) {
+            addLibraryDependency(name, targetId);
+            return;
+          }
+
+          if (!globalIOs.importsByTarget[targetId]) globalIOs.importsByTarget[targetId] = {};
+          globalIOs.importsByTarget[targetId][name] = sourceId;
+
+          if (!globalIOs.exportsBySource[sourceId]) globalIOs.exportsBySource[sourceId] = [];
+          if (!globalIOs.exportsBySource[sourceId].includes(name)) globalIOs.exportsBySource[sourceId].push(name);
+
+          addDependency(sourceId, targetId);
+        });
+      });
+
+      return { depIOs, DPIOs, globalIOs };
+    },
+  };
+};
@@ -0,0 +1,256 @@
+import type { ExecutionResult, NodeLateReport, NodeLibrarySource } from '@/services/jsExecutor';
+import type { NodeModuleSource } from '@/services/nodeModules';
+import type { NodeCapability } from '@/services/sandbox';
+import type { EvalExecutionEngine } from './contracts';
+
+// 主线程 -> Worker：一次执行请求 / 取消某次执行 / 确认某次中间结果已被下游处理
+export type WorkerRunRequest =
+  | {
+    type: 'run';
+    runId: number;
+    code: string;
+    inputs: Record<string, unknown>;
+    globals: Record<string, unknown>;
+    exportNames: string[];
+    sourceName?: string;
+    capabilities: NodeCapability[];
+    modules: NodeModuleSource[];
+    libraries: NodeLibrarySource[];
+    time: number;
+    randomSeed: number;
+    replaceMathRandom: boolean;
+    referenceInputs: string[];
+    inlineValues: boolean;
+  }
+  | { type: 'abort'; runId: number }
+  | { type: 'emit-ack'; runId: number };
+
+// Worker -> 主线程：一次执行结果 / 执行中途产出的中间结果（已按 portableValues 编码）/
+// 执行结束后回调中产生的日志与错误（不属于某一轮，归属于该 Worker 服务的节点）
+export type WorkerRunResponse =
+  | { type: 'result'; runId: number; result: ExecutionResult }
+  | { type: 'emit'; runId: number; outputs: Record<string, unknown> }
+  | { type: 'late'; report: NodeLateReport };
+
+export interface WorkerExecutionEngineOptions {
+  /** 默认的单节点时间预算（毫秒），可被 EvalExecutionContext.timeoutMs 覆盖 */
+  timeoutMs?: number;
+}
+
+interface PendingRun {
+  runId: number;
+  resolve: (result: ExecutionResult) => void;
+  timer: ReturnType<typeof setTimeout>;
+  // 收到中间结果时重新开始计时，并把它交给调用方
+  onEmit: (outputs: Record<string, unknown>) => void;
+}
+
+interface NodeWorkerSlot {
+  worker: Worker;
+  pending: PendingRun | null;
+  // 已被取消、但 Worker 尚未真正结束的那一轮
+  drainingRunId: number | null;
+  // 最近一轮执行的 context.onLateReport
+  onLateReport?: (report: NodeLateReport) => void;
+}
+
+export const DEFAULT_NODE_TIMEOUT_MS = 3000;
+export const MAX_NODE_TIMEOUT_MS = 10 * 60 * 1000;
+
+// 节点单独设置的时间预算；空值、非正数等无效值视为未设置，使用引擎的默认值
+export const normalizeNodeTimeoutMs = (timeoutMs: number) =>
+  (Number.isFinite(timeoutMs) && timeoutMs > 0 ? Math.min(MAX_NODE_TIMEOUT_MS, Math.round(timeoutMs)) : undefined);
+
+// 取消后留给节点代码响应 node_signal 的宽限时间，超过则强制重建 Worker
+const ABORT_GRACE_MS = 100;
+
+// 未提供 nodeId 的调用共用同一个 Worker
+const SHARED_SLOT_KEY = '__shared__';
+
+const spawnWorker = () =>
+  new Worker(new URL('./nodeExecutor.worker.ts', import.meta.url), { type: 'module' });
+
+const createFailureResult = (message: string): ExecutionResult => ({
+  success: false,
+  outputs: {},
+  controls: [],
+  logs: [],
+  errors: [{ message }],
+  warnings: [],
+});
+
+/**
+ * Worker 执行引擎：
+ * - 每个节点一个专属 Worker，节点代码不再占用主线程；
+ * - 输入/输出通过 structured clone 传递，天然是“传值”语义；
+ * - 超过时间预算时 terminate 并重建该节点的 Worker，超时以普通 ExecutionResult 错误返回；
+ * - 同一节点上一轮尚未结束又来新一轮时，旧一轮视为被取代，同样重建 Worker；
+ * - 传入的 AbortSignal 触发时，Worker 内的 node_signal 同步 abort，并在宽限时间后兜底重建；
+ * - 节点产出中间结果时转交 context.onEmit，处理完后回复 emit-ack；等待下游处理期间不计时，回复 emit-ack 时重新计算超时；
+ * - 执行结束后回调中产生的日志与错误转交最近一轮的 context.onLateReport；Worker 被重建时这些回调随之结束。
+ */
+export const createWorkerExecutionEngine = (
+  options: WorkerExecutionEngineOptions = {},
+): EvalExecutionEngine => {
+  const defaultTimeoutMs = options.timeoutMs ?? DEFAULT_NODE_TIMEOUT_MS;
+  const slots = new Map<string, NodeWorkerSlot>();
+  let nextRunId = 0;
+
+  const settle = (slot: NodeWorkerSlot, result: ExecutionResult) => {
+    const pending = slot.pending;
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    slot.pending = null;
+    pending.resolve(result);
+  };
+
+  const createSlot = (key: string): NodeWorkerSlot => {
+    const slot: NodeWorkerSlot = { worker: spawnWorker(), pending: null, drainingRunId: null };
+
+    slot.worker.onmessage = (event: MessageEvent<WorkerRunResponse>) => {
+      if (event.data.type === 'late') {
+        slot.onLateReport?.(event.data.report);
+        return;
+      }
+      if (slot.drainingRunId === event.data.runId) {
+        slot.drainingRunId = null;
+        return;
+      }
+      if (slot.pending?.runId !== event.data.runId) return;
+      if (event.data.type === 'emit') {
+        slot.pending.onEmit(event.data.outputs);
+        return;
+      }
+      settle(slot, event.data.result);
+    };
+
+    slot.worker.onerror = (event) => {
+      event.preventDefault();
+      settle(slot, createFailureResult(`执行环境异常：${event.message || '未知错误'}`));
+      recycle(key);
+    };
+
+    slots.set(key, slot);
+    return slot;
+  };
+
+  // 强制结束某个节点的 Worker 并立即重建，保证下一次执行拿到干净的运行时
+  const recycle = (key: string, reason?: string) => {
+    const slot = slots.get(key);
+    if (!slot) return;
+    slot.worker.terminate();
+    slots.delete(key);
+    if (reason) settle(slot, createFailureResult(reason));
+    createSlot(key);
+  };
+
+  // 取消当前一轮：立即以错误结果返回，并通知 Worker 内的 node_signal；
+  // 节点代码若未在宽限时间内结束（例如同步死循环），则强制重建 Worker
+  const abortRun = (key: string, runId: number) => {
+    const slot = slots.get(key);
+    if (!slot || slot.pending?.runId !== runId) return;
+
+    slot.worker.postMessage({ type: 'abort', runId } satisfies WorkerRunRequest);
+    settle(slot, createFailureResult('计算已取消'));
+    slot.drainingRunId = runId;
+
+    setTimeout(() => {
+      if (slots.get(key) === slot && slot.drainingRunId === runId) {
+        recycle(key);
+      }
+    }, ABORT_GRACE_MS);
+  };
+
+  const executeCode: EvalExecutionEngine['executeCode'] = (code, inputs, context) => {
+    const key = context?.nodeId ?? SHARED_SLOT_KEY;
+    const timeoutMs = context?.timeoutMs ?? defaultTimeoutMs;
+    const signal = context?.signal;
+
+    if (signal?.aborted) {
+      return Promise.resolve(createFailureResult('计算已取消'));
+    }
+
+    const busySlot = slots.get(key);
+    if (busySlot?.pending || busySlot?.drainingRunId) {
+      recycle(key, '执行已被新的一轮计算取代');
+    }
+    const slot = slots.get(key) ?? createSlot(key);
+
+    return new Promise<ExecutionResult>((resolve) => {
+      const runId = ++nextRunId;
+      const onAbort = () => abortRun(key, runId);
+      const startTimer = () => setTimeout(() => {
+        recycle(key, `执行超时：超过 ${timeoutMs}ms 仍未结束，已终止该节点的执行环境`);
+      }, timeoutMs);
+      const pending: PendingRun = {
+        runId,
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        timer: startTimer(),
+        // 下游处理中间结果期间 Worker 等待 emit-ack、本节点并未执行，计时暂停，回执发出时重新计时
+        onEmit: (outputs) => {
+          clearTimeout(pending.timer);
+          void Promise.resolve(context?.onEmit?.(outputs)).finally(() => {
+            if (slot.pending === pending) {
+              pending.timer = startTimer();
+              slot.worker.postMessage({ type: 'emit-ack', runId } satisfies WorkerRunRequest);
+            }
+          });
+        },
+      };
+      slot.pending = pending;
+      slot.onLateReport = context?.onLateReport;
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      try {
+        const request: WorkerRunRequest = {
+          type: 'run',
+          runId,
+          code,
+          inputs,
+          globals: context?.globals ?? {},
+          exportNames: context?.exportNames ?? [],
+          sourceName: context?.nodeId,
+          capabilities: context?.capabilities ?? [],
+          modules: context?.modules ?? [],
+          libraries: context?.libraries ?? [],
+          time: context?.time ?? 0,
+          randomSeed: context?.randomSeed ?? 0,
+          replaceMathRandom: context?.replaceMathRandom ?? false,
+          referenceInputs: context?.referenceInputs ?? [],
+          inlineValues: context?.inlineValues ?? false,
+        };
+        slot.worker.postMessage(request);
+      } catch (error) {
+        // 输入中含有不可克隆的值时 postMessage 会同步抛错
+        settle(slot, createFailureResult(
+          `输入无法跨线程传递：${error instanceof Error ? error.message : String(error)}`,
+        ));
+      }
+    });
+  };
+
+  const release = (nodeId: string) => {
+    const slot = slots.get(nodeId);
+    if (!slot) return;
+    slot.worker.terminate();
+    slots.delete(nodeId);
+    settle(slot, createFailureResult('节点已被移除'));
+  };
+
+  const dispose = () => {
+    Array.from(slots.keys()).forEach(release);
+  };
+
+  return {
+    // 每个节点独占 Worker，不同节点之间可以任意并行
+    maxConcurrency: Number.POSITIVE_INFINITY,
+    // 输入经 postMessage 结构化克隆，本身就是副本
+    copiesInputs: true,
+    executeCode,
+    release,
+    dispose,
+  };
+};
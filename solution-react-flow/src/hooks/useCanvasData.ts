@@ -4,12 +4,18 @@ import { CanvasEvalApi } from './useCanvasEval';
 import type {
   CanvasNodeUIData,
   CanvasEdgeUIData,
+  CanvasEvalModeSettings,
+  CanvasRandomSettings,
+  CanvasUIData,
   CustomEdgePayload,
+  LibraryNodePayload,
   TextNodePayload,
 } from '@/types/canvas';
 import { CanvasEdgeKind, CanvasNodeKind } from '@/types/canvas';
 import type { Control } from '@/services/jsExecutor';
-import { DesmosPreviewNodeUIData, TextNodeUIData } from '@/types/nodeData';
+import { DEFAULT_RANDOM_SETTINGS, createRandomSeed, normalizeRandomSeed } from '@/services/seededRandom';
+import { DEFAULT_EVAL_MODE_SETTINGS, normalizeEvalDebounceMs } from '@/services/evalMode';
+import { DesmosPreviewNodeUIData, LibraryNodeUIData, TextNodeUIData } from '@/types/nodeData';
 import defaultCanvas from '@/components/Canvas/defaultCanvas';
 import { immer } from 'zustand/middleware/immer';
 import { enableMapSet } from 'immer';
@@ -22,7 +28,7 @@ enableMapSet();
 
 /**
  * 单一数据源（canvas store）：
- * - uiData: 业务层数据（code、controls、折叠状态等）
+ * - uiData: 业务层数据（code、controls、折叠状态、画布随机设置与计算模式等）
  * - flowData: React Flow 渲染层数据（position、连线、viewport）
  *
  * 使用方式仍保持拆分：
@@ -32,15 +38,14 @@ enableMapSet();
 export interface CanvasStoreState {
   nodes: Map<string, CanvasNodeUIData>;
   edges: Map<string, CanvasEdgeUIData>;
+  random: CanvasRandomSettings;
+  evalMode: CanvasEvalModeSettings;
   flowNodes: CanvasNodeFlowData[];
   flowEdges: CanvasEdgeFlowData[];
   viewport: Viewport;
 }
 
-export interface CanvasUIData {
-  nodes: Map<string, CanvasNodeUIData>;
-  edges: Map<string, CanvasEdgeUIData>;
-}
+export type { CanvasUIData };
 
 export interface FlowData {
   nodes: CanvasNodeFlowData[];
@@ -53,7 +58,7 @@ export interface CanvasDataApi {
     // ---- UI 快照读取 ----
     getUISnapShot: () => CanvasUIData;
     useUIData: <T>(selector: (data: CanvasUIData) => T) => T;
-    useNodeUIData: (id: string) => TextNodeUIData | DesmosPreviewNodeUIData | undefined;
+    useNodeUIData: (id: string) => TextNodeUIData | DesmosPreviewNodeUIData | LibraryNodeUIData | undefined;
     defaultTextNodeData: TextNodeUIData;
   };
   readFlow: {
@@ -75,6 +80,9 @@ export interface CanvasDataApi {
     updateNodeData: (id: string, updates: Record<string, unknown>) => void;
     updateNodeControlValues: (nodeId: string, values: Record<string, unknown>) => void;
     updateNodeControlValue: (nodeId: string, controlName: string, value: unknown) => void;
+    updateEdgeData: (id: string, updates: Partial<CustomEdgePayload>) => void;
+    updateRandomSettings: (updates: Partial<CanvasRandomSettings>) => void;
+    updateEvalModeSettings: (updates: Partial<CanvasEvalModeSettings>) => void;
   };
   writeFlow: {
     // ---- Flow 非结构写入（视口/交互变更）----
@@ -85,6 +93,7 @@ export interface CanvasDataApi {
   graph: {
     // ---- 图结构入口（会同步更新 uiData + flowData）----
     // 返回值只用于标识新创建实体的 identity，不代表可变数据快照。
+    // 两端声明的端口类型不兼容时给出警告，连线仍会创建。
     createDepEdge: (input: {
       id?: string;
       sourceId: string;
@@ -97,6 +106,12 @@ export interface CanvasDataApi {
       position?: { x: number; y: number };
       data?: Partial<TextNodePayload>;
     }) => string;
+    // 返回新建共享库节点 id。
+    createLibraryNode: (input?: {
+      id?: string;
+      position?: { x: number; y: number };
+      data?: Partial<LibraryNodePayload>;
+    }) => string;
     // 若 source/output 组合已存在预览边，则返回 null（幂等保护）。
     createDesmosPreviewNode: (input: {
       nodeId?: string;
@@ -135,6 +150,19 @@ const defaultTextNodeData: TextNodeUIData = {
   },
 };
 
+const defaultLibraryNodeData: LibraryNodeUIData = {
+  code: '',
+  nodeName: '',
+  isCollapsed: false,
+};
+
+// 画布中合法的节点类型；无法识别的类型按 TextNode 处理
+const toNodeKind = (type: unknown): CanvasNodeKind => {
+  if (type === CanvasNodeKind.DesmosPreviewNode) return CanvasNodeKind.DesmosPreviewNode;
+  if (type === CanvasNodeKind.LibraryNode) return CanvasNodeKind.LibraryNode;
+  return CanvasNodeKind.TextNode;
+};
+
 const defaultViewport: Viewport = { x: 0, y: 0, zoom: 1 };
 const VIEWPORT_EPSILON = 0.0001;
 const isSameViewport = (a: Viewport, b: Viewport) => (
@@ -159,6 +187,13 @@ const normalizeUINodes = (nodes: RawNodeRecord): Map<string, CanvasNodeUIData> =
       });
       return;
     }
+    if (node?.type === CanvasNodeKind.LibraryNode) {
+      mapped.set(id, {
+        type: CanvasNodeKind.LibraryNode,
+        data: { ...defaultLibraryNodeData, ...(node?.data ?? {}) },
+      });
+      return;
+    }
 
     mapped.set(id, {
       type: CanvasNodeKind.TextNode,
@@ -200,7 +235,7 @@ const normalizeUIEdges = (edges: RawEdgeRecord): Map<string, CanvasEdgeUIData> =
 const normalizeFlowNodes = (nodes: any[]): CanvasNodeFlowData[] =>
   nodes.map((node) => ({
     id: String(node.id),
-    type: node?.type === CanvasNodeKind.DesmosPreviewNode ? CanvasNodeKind.DesmosPreviewNode : CanvasNodeKind.TextNode,
+    type: toNodeKind(node?.type),
     position: node?.position ?? { x: 0, y: 0 },
     data: {},
     selected: Boolean(node?.selected),
@@ -222,6 +257,8 @@ const normalizeFlowEdges = (edges: any[]): CanvasEdgeFlowData[] =>
 const getDefaultUIData = (): CanvasUIData => ({
   nodes: normalizeUINodes(defaultCanvas.uiData.nodes),
   edges: normalizeUIEdges(defaultCanvas.uiData.edges),
+  random: defaultCanvas.uiData.random ?? DEFAULT_RANDOM_SETTINGS,
+  evalMode: defaultCanvas.uiData.evalMode ?? DEFAULT_EVAL_MODE_SETTINGS,
 });
 
 const getDefaultFlowData = (): FlowData => ({
@@ -235,6 +272,8 @@ const createCanvasStore = (initial?: Partial<CanvasArchiveState>) =>
     immer(() => ({
       nodes: normalizeUINodes(initial?.uiData?.nodes ?? defaultCanvas.uiData.nodes),
       edges: normalizeUIEdges(initial?.uiData?.edges ?? defaultCanvas.uiData.edges),
+      random: initial?.uiData?.random ?? getDefaultUIData().random,
+      evalMode: initial?.uiData?.evalMode ?? getDefaultUIData().evalMode,
       flowNodes: initial?.flowData?.nodes ?? getDefaultFlowData().nodes,
       flowEdges: initial?.flowData?.edges ?? getDefaultFlowData().edges,
       viewport: initial?.flowData?.viewport ?? getDefaultFlowData().viewport,
@@ -245,6 +284,8 @@ const createCanvasStore = (initial?: Partial<CanvasArchiveState>) =>
 const toUIDataSlice = (state: CanvasStoreState): CanvasUIData => ({
   nodes: state.nodes,
   edges: state.edges,
+  random: state.random,
+  evalMode: state.evalMode,
 });
 
 const toFlowDataSlice = (state: CanvasStoreState): FlowData => ({
@@ -263,6 +304,13 @@ const serializeUINodes = (nodesMap: Map<string, CanvasNodeUIData>): Record<strin
       };
       return;
     }
+    if (node.type === CanvasNodeKind.LibraryNode) {
+      serialized[id] = {
+        type: CanvasNodeKind.LibraryNode,
+        data: node.data as LibraryNodeUIData,
+      };
+      return;
+    }
     serialized[id] = {
       type: CanvasNodeKind.DesmosPreviewNode,
       data: node.data as DesmosPreviewNodeUIData,
@@ -391,7 +439,7 @@ export const useCanvasData = (): CanvasDataApi => {
       });
     };
 
-    const useNodeUIData = (id: string): TextNodeUIData | DesmosPreviewNodeUIData | undefined =>
+    const useNodeUIData = (id: string): TextNodeUIData | DesmosPreviewNodeUIData | LibraryNodeUIData | undefined =>
       useUIData((data) => data.nodes.get(id)?.data);
 
     // ----------------------------------------------------------------
@@ -426,6 +474,11 @@ export const useCanvasData = (): CanvasDataApi => {
             ...node,
             data: { ...node.data, ...updates },
           });
+        } else if (node.type === CanvasNodeKind.LibraryNode) {
+          nextNodes.set(id, {
+            ...node,
+            data: { ...node.data, ...updates },
+          });
         } else {
           nextNodes.set(id, {
             ...node,
@@ -479,8 +532,17 @@ export const useCanvasData = (): CanvasDataApi => {
       });
     };
 
+    // 新的空白画布使用新的随机种子
     const clearCanvas = () => {
-      store.setState({ nodes: new Map(), edges: new Map(), flowNodes: [], flowEdges: [], viewport: defaultViewport });
+      store.setState({
+        nodes: new Map(),
+        edges: new Map(),
+        random: { ...DEFAULT_RANDOM_SETTINGS, seed: createRandomSeed() },
+        evalMode: DEFAULT_EVAL_MODE_SETTINGS,
+        flowNodes: [],
+        flowEdges: [],
+        viewport: defaultViewport,
+      });
     };
 
     const resetToDefault = () => {
@@ -545,6 +607,8 @@ export const useCanvasData = (): CanvasDataApi => {
       store.setState({
         nodes: normalizeUINodes(state.uiData.nodes ?? {}),
         edges: normalizeUIEdges(state.uiData.edges ?? {}),
+        random: state.uiData.random ?? DEFAULT_RANDOM_SETTINGS,
+        evalMode: state.uiData.evalMode ?? DEFAULT_EVAL_MODE_SETTINGS,
         flowNodes: normalizeFlowNodes(state.flowData.nodes ?? []),
         flowEdges: normalizeFlowEdges(state.flowData.edges ?? []),
         viewport: state.flowData.viewport ?? defaultViewport,
@@ -557,6 +621,8 @@ export const useCanvasData = (): CanvasDataApi => {
         uiData: {
           nodes: serializeUINodes(state.nodes),
           edges: serializeUIEdges(state.edges),
+          random: state.random,
+          evalMode: state.evalMode,
         },
         flowData: exportFlowData(),
       };
@@ -626,6 +692,34 @@ export const useCanvasData = (): CanvasDataApi => {
       return nodeId;
     };
 
+    // 共享库节点不参与连线，只需要同时写入 uiData 与 flowData。
+    const createLibraryNode = (input?: {
+      id?: string;
+      position?: { x: number; y: number };
+      data?: Partial<LibraryNodePayload>;
+    }) => {
+      const nodeId = input?.id ?? `library-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+      const uiNode: CanvasNodeUIData = {
+        type: CanvasNodeKind.LibraryNode,
+        data: { ...defaultLibraryNodeData, ...(input?.data ?? {}) },
+      };
+      const flowNode: CanvasNodeFlowData = {
+        id: nodeId,
+        type: CanvasNodeKind.LibraryNode,
+        position: input?.position ?? { x: 0, y: 0 },
+        data: {},
+      };
+      store.setState((state) => {
+        const nextNodes = new Map(state.nodes);
+        nextNodes.set(nodeId, uiNode);
+        return {
+          nodes: nextNodes,
+          flowNodes: [...state.flowNodes, flowNode],
+        };
+      });
+      return nodeId;
+    };
+
     // 预览节点创建是幂等的：同 sourceNodeId+sourceOutputName 已存在时不重复创建。
     const createDesmosPreviewNode = (input: {
       nodeId?: string;
@@ -743,6 +837,37 @@ export const useCanvasData = (): CanvasDataApi => {
         return { nodes: nextNodes };
       });
 
+    // 只更新依赖边（CustomEdge）的业务字段，例如端口映射
+    const updateEdgeData = (id: string, updates: Partial<CustomEdgePayload>) =>
+      store.setState((state) => {
+        const edge = state.edges.get(id);
+        if (!edge || edge.type !== CanvasEdgeKind.CustomEdge) return state;
+        const nextEdges = new Map(state.edges);
+        nextEdges.set(id, {
+          ...edge,
+          data: { ...edge.data, ...updates },
+        });
+        return { edges: nextEdges };
+      });
+
+    const updateRandomSettings = (updates: Partial<CanvasRandomSettings>) =>
+      store.setState((state) => {
+        const next = { ...state.random, ...updates, seed: normalizeRandomSeed(updates.seed ?? state.random.seed) };
+        if (next.seed === state.random.seed && next.replaceMathRandom === state.random.replaceMathRandom) return state;
+        return { random: next };
+      });
+
+    const updateEvalModeSettings = (updates: Partial<CanvasEvalModeSettings>) =>
+      store.setState((state) => {
+        const next = {
+          ...state.evalMode,
+          ...updates,
+          debounceMs: normalizeEvalDebounceMs(updates.debounceMs ?? state.evalMode.debounceMs),
+        };
+        if (next.mode === state.evalMode.mode && next.debounceMs === state.evalMode.debounceMs) return state;
+        return { evalMode: next };
+      });
+
     return {
       readUI: {
         getUISnapShot,
@@ -765,6 +890,9 @@ export const useCanvasData = (): CanvasDataApi => {
         updateNodeData,
         updateNodeControlValues,
         updateNodeControlValue,
+        updateEdgeData,
+        updateRandomSettings,
+        updateEvalModeSettings,
       },
       writeFlow: {
         setViewport,
@@ -774,6 +902,7 @@ export const useCanvasData = (): CanvasDataApi => {
       graph: {
         createDepEdge,
         createTextNode,
+        createLibraryNode,
         createDesmosPreviewNode,
         removeNode,
         removeEdge,
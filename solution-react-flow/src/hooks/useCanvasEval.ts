@@ -1,109 +1,90 @@
-import { useCallback, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { useStore } from 'zustand';
 import { createStore } from 'zustand/vanilla';
 import { immer } from 'zustand/middleware/immer';
-import { Control, ExecutionResult } from '@/services/jsExecutor';
 import { produce } from 'immer';
-import type { CanvasDataApi, CanvasUIData } from './useCanvasData';
-import {
-  CanvasEdgeKind,
-  CanvasEdgeUIData,
-  CanvasNodeKind,
-  CanvasNodeUIData,
-} from '@/types/canvas';
+import type { CanvasDataApi } from './useCanvasData';
+import { CanvasNodeKind, type CanvasUIData } from '@/types/canvas';
+import type { NodeLateReport } from '@/services/jsExecutor';
 import type { EvalDependencyResolver, EvalExecutionEngine } from './eval-core/contracts';
-import { edgeDependencyResolver } from './eval-core/edgeDependencyResolver';
+import { buildNextEvalNodes, createInitialEvalNodes, resolveDeltaByUIData } from './eval-core/deltaResolver';
+import { createEvaluationPlan } from './eval-core/evaluationPlanner';
 import { jsExecutionEngine } from './eval-core/jsExecutionEngine';
-
-export interface ErrorInfo {
-  message: string;
-  line?: number;
-  column?: number;
-  stack?: string;
-}
-
-export interface WarningInfo {
-  message: string;
-  line?: number;
-  column?: number;
-  stack?: string;
-}
-
-// Delta Types
-
-export interface CanvasEvalDeltaNode {
-  id: string;
-  code: string;
-  controls?: Control[];
-}
-
-// Dep: Dependency
-export interface CanvasEvalDeltaDepEdge {
-  source: string;
-  target: string;
-}
-
-// DP: Desmos Preview
-export interface CanvasEvalDeltaDPEdge {
-  source: string;
-  target: string;
-  data: {
-    sourceOutputName: string;
-  };
-}
-
-// Eval Store/State Types
-
-export interface CanvasEvalNode {
-  type: CanvasNodeUIData['type'];
-  code: string;
-  isEvaluating: boolean;
-  controls: Control[];
-  outputs: Record<string, any>;
-  logs: string[];
-  errors: ErrorInfo[];
-  warnings: WarningInfo[];
-}
-
-export type CanvasEvalNodes = Record<string, CanvasEvalNode>;
-
-export interface CanvasEvalDepIOs {
-  incomingByTarget: Record<string, string[]>;
-  outgoingBySource: Record<string, string[]>;
-}
-
-export interface CanvasEvalDPIOs {
-  incomingByTarget: Record<string, { source: string, sourceOutputName: string }>;
-  outgoingBySource: Record<string, Record<string, string>>;
-}
-
-export interface CanvasEvalAnalysisState {
-  /**
-   * 预留字段：后续用于存放语法分析/符号分析结果。
-   *
-   * 设计边界说明：
-   * - 第三步先完成 external-store 形态改造，保持现有计算行为不变；
-   * - analysis 只作为“快照结构占位”，当前不参与 delta / plan / execute；
-   * - 后续引入预处理器、符号解析、Observable runtime 时，可以在不破坏
-   *   现有 nodes 快照 API 的前提下，把分析结果并入同一外部存储体系。
-   */
-  nodeAnalysis: Record<string, unknown>;
-}
-
-interface CanvasEvalStoreState {
-  nodes: CanvasEvalNodes;
-  depIOs: CanvasEvalDepIOs;
-  DPIOs: CanvasEvalDPIOs;
-  analysis: CanvasEvalAnalysisState;
-}
+import {
+  createEmptyGlobalIOs,
+  createInitialEvalState,
+  type CanvasEvalAnalysisState,
+  type CanvasEvalGlobalIOs,
+  type CanvasEvalNode,
+  type CanvasEvalNodes,
+  type CanvasEvalStoreState,
+} from './eval-core/evalState';
+import {
+  DEFAULT_EVAL_CONCURRENCY,
+  EVAL_STOP_REASON,
+  runEvaluationPlan,
+  type EvalTaskTrigger,
+} from './eval-core/planRunner';
+import { createEvalClock, referencesClock, type EvalClockState } from './eval-core/evalClock';
+import { createEvalDrafts, markEvalDrafts } from './eval-core/evalDrafts';
+import { createEvalHistory, type EvalHistoryState } from './eval-core/evalHistory';
+import {
+  createEvalProfiler,
+  estimateOutputSize,
+  type EvalNodeRunProfile,
+  type EvalProfileState,
+  type EvalTriggerReason,
+} from './eval-core/evalProfiler';
+import { analyzeEvalNodes } from './eval-core/nodeAnalysis';
+import { createSymbolDependencyResolver } from './eval-core/symbolDependencyResolver';
+import { createWorkerExecutionEngine } from './eval-core/workerExecutionEngine';
+
+// 计算层的状态类型与执行计划由 eval-core 提供，这里转出以保持原有的导入路径
+export type {
+  CanvasEvalAnalysisState,
+  CanvasEvalDeltaDPEdge,
+  CanvasEvalDeltaDepEdge,
+  CanvasEvalDeltaNode,
+  CanvasEvalDPIOs,
+  CanvasEvalDepIOs,
+  CanvasEvalGlobalIOs,
+  CanvasEvalNode,
+  CanvasEvalNodes,
+  CanvasEvalStoreState,
+  ErrorInfo,
+  WarningInfo,
+} from './eval-core/evalState';
+export type { CanvasEvaluationPlan } from './eval-core/evaluationPlanner';
+export type { NodeDeclaredControl, NodeStaticAnalysis } from './eval-core/nodeAnalysis';
+export { DEFAULT_EVAL_CONCURRENCY };
 
 export interface CanvasEvalApi {
   read: {
     getSnapshot: () => CanvasEvalNodes;
     useEvalStore: <T>(selector: (state: CanvasEvalNodes) => T) => T;
+    useGlobalIOs: () => CanvasEvalGlobalIOs;
+    useAnalysis: <T>(selector: (analysis: CanvasEvalAnalysisState) => T) => T;
+    useProfile: <T>(selector: (profile: EvalProfileState) => T) => T;
+    useClock: <T>(selector: (clock: EvalClockState) => T) => T;
+    useHistory: <T>(selector: (history: EvalHistoryState<CanvasEvalStoreState>) => T) => T;
+    // 当前执行引擎是否支持按引用传递；Worker 引擎的输入总会跨线程复制，不支持
+    supportsPassByReference: () => boolean;
   };
   manual: {
     requestRecomputeNode: (nodeId: string) => Promise<void>;
     recomputeAll: () => Promise<void>;
+    // 接受指定节点（缺省为全部节点）的代码草稿并重新计算；没有草稿时不做任何事
+    commitDrafts: (nodeIds?: string[]) => Promise<void>;
+    stopAll: () => void;
+    clearProfile: () => void;
+    playClock: () => void;
+    pauseClock: () => void;
+    stepClock: () => Promise<void>;
+    resetClock: () => Promise<void>;
+    setClockFps: (fps: number) => void;
+    setClockLoop: (loopStart: number, loopEnd: number | null) => void;
+    viewHistory: (entryId: number | null) => void;
+    clearHistory: () => void;
   };
   subscribe: {
     onData: (callback: (data: CanvasEvalNodes) => void) => () => void;
@@ -133,543 +114,9 @@ export interface CanvasEvalApi {
  * 
  */
 
-// create initial node data
-const createInitialNodeData = (type: CanvasNodeUIData['type'], code: string, controls: Control[]): CanvasEvalNode => ({
-  type,
-  code,
-  isEvaluating: false,
-  controls: controls.map((control) => ({ ...control })),
-  outputs: {},
-  logs: [],
-  errors: [],
-  warnings: [],
-});
-
-const mergeControls = (prevControls: Control[], nextControls: Control[]) => {
-  const prevMap = new Map(prevControls.map((c) => [c.name, c]));
-  return nextControls.map((control) => {
-    const prev = prevMap.get(control.name);
-    if (!prev) return control;
-    return { ...control, value: control.value ?? prev.value ?? control.defaultValue };
-  });
-};
-
-
-
-// --- 增量更新解析相关 ---
-
-
-// 为边生成唯一键，便于在 diff 过程中进行集合对比
-const createEdgeKey = ({ source, target }: Pick<CanvasEdgeUIData, 'source' | 'target'>) => `${source}->${target}`;
-
-// 描述一次 CanvasEvalInput 变化中我们关心的增量信息
-interface CanvasEvalDelta {
-  addedNodeIds: string[];
-  removedNodeIds: string[];
-  updatedNodeIds: string[];
-  addedDepEdges: CanvasEvalDeltaDepEdge[];
-  removedDepEdges: CanvasEvalDeltaDepEdge[];
-  addedDPEdges: CanvasEvalDeltaDPEdge[];
-  removedDPEdges: CanvasEvalDeltaDPEdge[];
-  impactedNodeIds: string[];
-  hasChanges: boolean;
-}
-
-interface EvalComparableNode {
-  id: string;
-  code: string;
-  controls: Control[];
-}
-
-
-// 从 lastCompletedState 中提取边信息，用于比较
-const extractEdgesFromState = (state: CanvasEvalStoreState): { dep: CanvasEvalDeltaDepEdge[], DP: CanvasEvalDeltaDPEdge[] } => {
-  const depEdges: CanvasEvalDeltaDepEdge[] = [];
-  const DPEdges: CanvasEvalDeltaDPEdge[] = [];
-  Object.entries(state.depIOs.outgoingBySource).forEach(([source, targets]) => {
-    targets.forEach((target) => {
-      depEdges.push({ source, target });
-    });
-  });
-  Object.entries(state.DPIOs.outgoingBySource).forEach(([source, targets]) => {
-    Object.entries(targets).forEach(([sourceOutputName, target]) => {
-      DPEdges.push({ source, target, data: { sourceOutputName } });
-    });
-  });
-  return { dep: depEdges, DP: DPEdges };
-};
-
-// 计算 currentInput 与 lastCompletedState 之间的差异，并推断需要重新计算的节点集合
-// 改为基于 lastCompletedState 而非历史 input 来比较，这样能捕获所有状态变化（包括通过 requestEvaluation 等触发的）
-const resolveDeltaByUIData = (
-  lastCompletedState: CanvasEvalStoreState | null,
-  uiData: CanvasUIData,
-): CanvasEvalDelta => {
-  const currEdges = Array.from(uiData.edges.values());
-
-  // 如果没有上次完成的状态，则认为所有节点都是新增的
-  if (!lastCompletedState) {
-    const addedNodeIds = Array.from(uiData.nodes.keys());
-    const impactedNodeIds = addedNodeIds;
-    return {
-      addedNodeIds,
-      removedNodeIds: [],
-      updatedNodeIds: [],
-      addedDepEdges: currEdges.filter((edge) => edge.type === CanvasEdgeKind.CustomEdge),
-      removedDepEdges: [],
-      addedDPEdges: currEdges.filter((edge) => edge.type === CanvasEdgeKind.DesmosPreviewEdge),
-      removedDPEdges: [],
-      impactedNodeIds,
-      hasChanges: true,
-    };
-  }
-
-  // 从 lastCompletedState 中提取节点和边信息
-  const prevNodeMap = new Map<string, EvalComparableNode>(
-    Object.entries(lastCompletedState.nodes)
-      .map(([id, nodeData]) => [id, { id, code: nodeData.code, controls: nodeData.controls }])
-  );
-  const currNodeMap = new Map<string, EvalComparableNode>(Array.from(uiData.nodes.entries()).map(([id, node]) => [
-    id,
-    {
-      id,
-      code: node.type === CanvasNodeKind.TextNode ? (node.data.code as string) : '',
-      controls: node.type === CanvasNodeKind.TextNode ? (node.data.controls as Control[]) : []
-    }
-  ]));
-
-  const addedNodeIds: string[] = [];
-  const removedNodeIds: string[] = [];
-  const updatedNodeIds: string[] = [];
-
-  // 逐一检查当前节点，识别新增与修改节点
-  currNodeMap.forEach((currNode) => {
-    const prevNode = prevNodeMap.get(currNode.id);
-    if (!prevNode) {
-      addedNodeIds.push(currNode.id);
-      return;
-    }
-    // 检查 code 变化
-    if (prevNode.code !== currNode.code) {
-      updatedNodeIds.push(currNode.id);
-      return;
-    }
-    // 检查 controls 变化
-    const prevControlsMap = new Map(prevNode.controls.map(c => [c.name, c]));
-    const currControlsMap = new Map(currNode.controls.map((c: Control) => [c.name, c]));
-
-    currControlsMap.forEach((currControl) => {
-      const prevControl = prevControlsMap.get(currControl.name);
-      if (!prevControl
-        || prevControl.defaultValue !== currControl.defaultValue
-        || prevControl.type !== currControl.type
-        || prevControl.value !== currControl.value
-        || prevControl.min !== currControl.min
-        || prevControl.max !== currControl.max
-        || prevControl.step !== currControl.step
-      ) {
-        updatedNodeIds.push(currNode.id);
-        return;
-      }
-    });
-
-    prevControlsMap.forEach((prevControl) => {
-      if (!currControlsMap.has(prevControl.name)) {
-        updatedNodeIds.push(currNode.id);
-        return;
-      }
-    });
-  });
-
-  // 找出已经不存在的节点
-  prevNodeMap.forEach((_, nodeId) => {
-    if (!currNodeMap.has(nodeId)) {
-      removedNodeIds.push(nodeId);
-    }
-  });
-
-  const extractedPrevEdges = extractEdgesFromState(lastCompletedState);
-  const prevDepEdges = extractedPrevEdges.dep;
-  const currDepEdges = currEdges.filter((edge) => edge.type === CanvasEdgeKind.CustomEdge);
-  const prevDepEdgeSet = new Set(prevDepEdges.map(createEdgeKey));
-  const currDepEdgeSet = new Set(currDepEdges.map(createEdgeKey));
-
-  const addedDepEdges: CanvasEvalDeltaDepEdge[] = [];
-  const removedDepEdges: CanvasEvalDeltaDepEdge[] = [];
-
-  currDepEdges.forEach((edge) => {
-    if (!prevDepEdgeSet.has(createEdgeKey(edge))) {
-      addedDepEdges.push(edge);
-    }
-  });
-
-  prevDepEdges.forEach((edge) => {
-    if (!currDepEdgeSet.has(createEdgeKey(edge))) {
-      removedDepEdges.push(edge);
-    }
-  });
-
-  const prevDPEdges = extractedPrevEdges.DP;
-  const currDPEdges = currEdges.filter((edge) => edge.type === CanvasEdgeKind.DesmosPreviewEdge);
-  const prevDPEdgeSet = new Set(prevDPEdges.map(createEdgeKey));
-  const currDPEdgeSet = new Set(currDPEdges.map(createEdgeKey));
-
-  const addedDPEdges: CanvasEvalDeltaDPEdge[] = [];
-  const removedDPEdges: CanvasEvalDeltaDPEdge[] = [];
-  const updatedDPEdges: CanvasEvalDeltaDPEdge[] = [];    // It's ridiculous... but just in case
-
-  currDPEdges.forEach((edge) => {
-    if (!prevDPEdgeSet.has(createEdgeKey(edge))) {
-      addedDPEdges.push(edge);
-      return;
-    }
-    const prevEdge = prevDPEdges.find((e) => e.source === edge.source && e.target === edge.target);
-
-  });
-
-  prevDPEdges.forEach((edge) => {
-    if (!currDPEdgeSet.has(createEdgeKey(edge))) {
-      removedDPEdges.push(edge);
-    }
-  });
-
-  // 汇总需要重新计算的节点集合
-  const impacted = new Set<string>();
-
-  addedNodeIds.forEach((id) => impacted.add(id));
-  updatedNodeIds.forEach((id) => impacted.add(id));
-  addedDepEdges.forEach((edge) => impacted.add(edge.target));
-  removedDepEdges.forEach((edge) => impacted.add(edge.target));
-  addedDPEdges.forEach((edge) => impacted.add(edge.target));    // Again this is not necessary if incoming data is consistent
-  // no need to add removedDPEdges, because as a desmos preview edge is removed the target preview node will be removed anyway
-
-  // 节点被移除时，其下游节点同样需要重新计算
-  // （兜底，以防输入数据不良，删除节点时没删除边而遗漏下游节点）
-  removedNodeIds.forEach((nodeId) => {
-    const downstream = currDepEdges.filter((edge) => edge.source === nodeId).map((edge) => edge.target);
-    downstream.forEach((targetId) => impacted.add(targetId));
-  });
-
-  // 仅保留当前图中实际存在的节点，避免无效计算
-  // （removeEdges 等可能会向 impacted 添加不存在的节点，需要过滤掉）
-  const currNodeIds = new Set(currNodeMap.keys());
-  const impactedNodeIds = [...impacted].filter((id) => currNodeIds.has(id));
-
-  const hasChanges =
-    addedNodeIds.length > 0 ||
-    removedNodeIds.length > 0 ||
-    updatedNodeIds.length > 0 ||
-    addedDepEdges.length > 0 ||
-    removedDepEdges.length > 0 ||
-    addedDPEdges.length > 0 ||
-    removedDPEdges.length > 0;
-
-  return {
-    addedNodeIds,
-    removedNodeIds,
-    updatedNodeIds,
-    addedDepEdges,
-    removedDepEdges,
-    addedDPEdges,
-    removedDPEdges,
-    impactedNodeIds,
-    hasChanges,
-  };
-};
-
-// 根据最新 UI 数据构建下一版 eval 数据(nodes) --- 全量更新版，用于首次运行
-const createInitialEvalNodes = (
-  uiData: CanvasUIData,
-): CanvasEvalNodes => {
-  const nextNodes: CanvasEvalNodes = {};
-
-  uiData.nodes.forEach((node, nodeId) => {
-    if (node.type === CanvasNodeKind.TextNode) {
-      nextNodes[nodeId] = createInitialNodeData(CanvasNodeKind.TextNode, node.data.code as string, node.data.controls as Control[]);
-    } else {
-      nextNodes[nodeId] = createInitialNodeData(node.type, '', []);
-    }
-  });
-
-  return nextNodes;
-};
-
-// 根据最新 UI 数据构建下一版 eval 数据(nodes) --- 增量更新版，用于非初次运行
-const buildNextEvalNodes = (
-  currNodes: CanvasEvalNodes,
-  currUIData: CanvasUIData,
-  delta: CanvasEvalDelta,
-): CanvasEvalNodes =>
-  produce(currNodes, (draft) => {
-    delta.addedNodeIds.forEach((id) => {
-      const node = currUIData.nodes.get(id);
-      if (!node) return;
-      if (node.type === CanvasNodeKind.TextNode) {
-        draft[id] = createInitialNodeData(CanvasNodeKind.TextNode, node.data.code as string, node.data.controls as Control[]);
-      } else {
-        draft[id] = createInitialNodeData(node.type, '', []);
-      }
-    });
-
-    delta.removedNodeIds.forEach((id) => {
-      delete draft[id];
-    });
-
-    delta.updatedNodeIds.forEach((id) => {
-      const node = currUIData.nodes.get(id);
-      if (!node || node.type !== CanvasNodeKind.TextNode) return;
-      draft[id]!.type = CanvasNodeKind.TextNode;
-      draft[id]!.code = node.data.code as string;
-      draft[id]!.controls = (node.data.controls as Control[]).map((control) => ({ ...control }));
-    });
-  });
-
-const collectEvaluationScope = (
-  entryNodeIds: string[],
-  state: CanvasEvalStoreState,
-) => {
-  const existingTextNodeIds = new Set(Object.keys(state.nodes).filter((id) => state.nodes[id].type === CanvasNodeKind.TextNode));
-  const existingDPNodeIds = new Set(Object.keys(state.nodes).filter((id) => state.nodes[id].type === CanvasNodeKind.DesmosPreviewNode));
-
-  const textNodesScope = new Set<string>(entryNodeIds.filter((id) => existingTextNodeIds.has(id)));  // = entryTextNodeIds deduplicated
-  const DPNodesScope = new Set<string>(entryNodeIds.filter((id) => existingDPNodeIds.has(id)));  // = entryDPNodeIds deduplicated
-
-  // 下面先处理 text nodes，后面再在结果后面直接后缀加上 DP nodes
-
-  const discoveryOrder: string[] = [...textNodesScope];   // image of queue, sync operates with it, but without shifts
-  const queue: string[] = [...textNodesScope];
-
-  while (queue.length) {
-    const current = queue.shift()!;
-    const downstream = state.depIOs.outgoingBySource[current] || [];
-    downstream.forEach((targetId) => {
-      if (!existingTextNodeIds.has(targetId)) return;
-      if (textNodesScope.has(targetId)) return;
-      textNodesScope.add(targetId);
-      queue.push(targetId);
-      discoveryOrder.push(targetId);
-    });
-  }
-
-  discoveryOrder.push(...DPNodesScope);
-
-  return { textNodesScope, DPNodesScope, discoveryOrder };
-};
-
-// 目前暂时使用简单串行执行的计划方式；Desmos Preview 永远放最后执行
-const createEvaluationPlan = (
-  entryNodeIds: string[],
-  state: CanvasEvalStoreState,
-) => {
-  const { textNodesScope, DPNodesScope, discoveryOrder } = collectEvaluationScope(entryNodeIds, state);
-  if (!textNodesScope.size) {
-    return { textNodesScope, DPNodesScope, order:discoveryOrder };
-  }
-
-  // discoveryOrder 里保证：一个节点要么是 entry，要么前方出现至少一个它的 scope 内上游依赖节点
-  // 但真正的执行顺序 (plan.order) 需要保证一个非 entry 节点前方出现它的所有 scope 内上游依赖节点，之后再执行它自己
-
-  // 1. 寻找 scope 里入度为 0 的节点，加入队列；这不等于被选定为 entry 的节点范围，因为 entry 节点也可能有(scope 内的)入度
-  const inDegree = new Map<string, number>();
-  textNodesScope.forEach((nodeId) => {
-    const incoming = state.depIOs.incomingByTarget[nodeId] || [];
-    let count = 0;
-    incoming.forEach((sourceId) => {
-      if (textNodesScope.has(sourceId)) count += 1;
-    });
-    inDegree.set(nodeId, count);
-  });
-
-  const queue: string[] = [];
-  discoveryOrder.forEach((nodeId) => {
-    if ((inDegree.get(nodeId) ?? 0) === 0) queue.push(nodeId);
-  });
-
-  // 2. 使用队列出/入循环，来构建一个能保证"计划里每个节点前方必出现它的所有 scope 内上游依赖节点"的执行顺序
-  const order: string[] = [];
-  const localInDegree = new Map(inDegree);
-  while (queue.length) {
-    const current = queue.shift()!;
-    order.push(current);
-
-    const downstream = state.depIOs.outgoingBySource[current] || [];
-    downstream.forEach((targetId) => {
-      if (!textNodesScope.has(targetId)) return;
-      const next = (localInDegree.get(targetId) ?? 0) - 1;
-      localInDegree.set(targetId, next);
-      if (next === 0) queue.push(targetId);
-    });
-  }
-
-  if (order.length !== textNodesScope.size) {
-    console.warn('[useCanvasEval] evaluation scope contains cycle, fallback to discovery order.', {
-      entryNodeIds,
-      scopeSize: textNodesScope.size,
-    });
-    return { textNodesScope, DPNodesScope, order: discoveryOrder };
-  }
-
-  order.push(...DPNodesScope);
-
-  return { textNodesScope, DPNodesScope, order };
-};
-
-/**
- * 深拷贝辅助函数
- * 确保数据传递时使用传值而非传引用，避免副作用
- */
-const deepCloneValue = <T>(value: T): T => {
-  try {
-    // 优先使用 structuredClone，如果不支持则回退到 JSON 序列化
-    if (typeof structuredClone === 'function') {
-      return structuredClone(value);
-    } else {
-      // 回退方案：使用 JSON 序列化（可能丢失函数、undefined 等）
-      return JSON.parse(JSON.stringify(value));
-    }
-  } catch (error) {
-    // 如果深拷贝失败（例如包含不可序列化的值），记录警告并返回原值
-    console.warn(`[useCanvasEval] 无法深拷贝值，使用原值:`, error);
-    return value;
-  }
-};
-
-
-const collectLatestInputValues = (
-  nodeId: string,
-  state: CanvasEvalStoreState,
-  interimResults: Map<string, CanvasEvalNode>,
-) => {
-  const inputs: Record<string, any> = {};
-  const sources = state.depIOs.incomingByTarget[nodeId] || [];
-
-  sources.forEach((sourceId) => {
-    const sourceState = interimResults.get(sourceId) ?? state.nodes[sourceId];
-    if (sourceState?.outputs) {
-      Object.assign(inputs, sourceState.outputs);
-    }
-  });
-
-  return inputs;
-};
-
-const runEvaluationPlan = async (
-  order: string[],
-  stateSnapshot: CanvasEvalStoreState,
-  engine: EvalExecutionEngine,
-  latestVersionRef: { current: number },
-  version: number,
-) => {
-  const interimResults = new Map<string, CanvasEvalNode>();
-
-  for (const nodeId of order) {
-    if (latestVersionRef.current !== version) {
-      return;
-    }
-
-    const nodeState = stateSnapshot.nodes[nodeId];
-    if (!nodeState) continue;
-
-    if (nodeState.type === CanvasNodeKind.DesmosPreviewNode) {
-      const {source, sourceOutputName} = stateSnapshot.DPIOs.incomingByTarget[nodeId] || [];
-      const desmosState = 
-        interimResults.get(source)?.outputs[sourceOutputName]
-        ?? stateSnapshot.nodes[source]?.outputs[sourceOutputName];
-
-      interimResults.set(nodeId, {
-        ...nodeState,
-        isEvaluating: false,
-        outputs: { desmosState },
-        logs: [],
-        errors: [],
-        warnings: [],
-      });
-      continue;
-    }
-
-    const trimmedCode = nodeState.code.trim();
-    if (!trimmedCode) {
-      interimResults.set(nodeId, {
-        ...nodeState,
-        isEvaluating: false,
-        outputs: {},
-        logs: [],
-        errors: [],
-        warnings: [],
-      });
-      continue;
-    }
-
-    const upstreamInputs = collectLatestInputValues(nodeId, stateSnapshot, interimResults);
-    const controlInputs = nodeState.controls.reduce<Record<string, any>>((acc, control) => {
-      const value = control.value ?? control.defaultValue;
-      if (value !== undefined) acc[control.name] = value;
-      return acc;
-    }, {});
-
-    try {
-      const result: ExecutionResult = await engine.executeCode(trimmedCode, {
-        ...upstreamInputs,
-        ...controlInputs,
-      });
-
-      if (result.success) {
-        // 深拷贝执行结果，确保存储的数据是独立副本
-        interimResults.set(nodeId, {
-          ...nodeState,
-          isEvaluating: false,
-          controls: result.controls,
-          outputs: deepCloneValue(result.outputs),
-          logs: result.logs,
-          errors: [],
-          warnings: result.warnings || [],
-        });
-      } else {
-        interimResults.set(nodeId, {
-          ...nodeState,
-          isEvaluating: false,
-          controls: mergeControls(nodeState.controls, result.controls),
-          outputs: {},
-          logs: result.logs,
-          errors: result.errors || [{ message: 'Unknown execution error' }],
-          warnings: result.warnings || [],
-        });
-      }
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      interimResults.set(nodeId, {
-        ...nodeState,
-        isEvaluating: false,
-        errors: [{ message, stack: error instanceof Error ? error.stack : undefined }],
-      });
-    }
-  }
-
-  if (latestVersionRef.current !== version) {
-    return;
-  }
-
-  return interimResults;
-};
-
-const createDefaultAnalysisState = (): CanvasEvalAnalysisState => ({
-  nodeAnalysis: {},
-});
-
 const createEvalStore = () => {
   return createStore<CanvasEvalStoreState>()(
-    immer(() => ({
-      nodes: {},
-      depIOs: {
-        incomingByTarget: {},
-        outgoingBySource: {},
-      },
-      DPIOs: {
-        incomingByTarget: {},
-        outgoingBySource: {},
-      },
-      analysis: createDefaultAnalysisState(),
-    })),
+    immer(() => createInitialEvalState()),
   );
 };
 
@@ -685,6 +132,8 @@ const createEvalExternalStore = () => {
   const setState = store.setState;
 
   const getNodesSnapshot = (): CanvasEvalNodes => store.getState().nodes;
+  const getGlobalIOsSnapshot = (): CanvasEvalGlobalIOs => store.getState().globalIOs;
+  const getAnalysisSnapshot = (): CanvasEvalAnalysisState => store.getState().analysis;
 
   /**
    * subscribe/getSnapshot 是 external-store 的最小契约。
@@ -704,70 +153,305 @@ const createEvalExternalStore = () => {
     getState,
     setState,
     getNodesSnapshot,
+    getGlobalIOsSnapshot,
+    getAnalysisSnapshot,
     subscribe,
     subscribeNodes,
   };
 };
 
-export const useCanvasEval = (): CanvasEvalApi => {
+export interface UseCanvasEvalOptions {
+  /** 同时执行的节点数上限，实际值还会受执行引擎自身能力限制 */
+  maxConcurrency?: number;
+  /** 依赖解析器，缺省使用符号解析（画布连线 + 全局语义下推断出的依赖） */
+  resolver?: EvalDependencyResolver;
+}
+
+// 解析结果没有实质变化时沿用上一版的 globalIOs 引用，避免无意义的重渲染
+const isSameGlobalIOs = (a: CanvasEvalGlobalIOs, b: CanvasEvalGlobalIOs) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// 执行结束后持续追加日志的节点（例如带 setInterval 的节点）只保留最近的这些条
+const MAX_NODE_LOG_ENTRIES = 500;
+
+// 把执行结束后产生的日志与错误追加到节点上；出现错误的节点不再命中缓存，下次照常重新执行
+const appendLateReport = (state: CanvasEvalStoreState, nodeId: string, report: NodeLateReport) => {
+  if (!state.nodes[nodeId]) return state;
+  return produce(state, (draft) => {
+    const node = draft.nodes[nodeId];
+    node.logs = [...node.logs, ...report.logs].slice(-MAX_NODE_LOG_ENTRIES);
+    if (report.errors.length > 0) {
+      node.errors = [...node.errors, ...report.errors];
+      node.cacheKey = undefined;
+    }
+  });
+};
+
+export const useCanvasEval = (options: UseCanvasEvalOptions = {}): CanvasEvalApi => {
+  const maxConcurrency = options.maxConcurrency ?? DEFAULT_EVAL_CONCURRENCY;
+
   // 每个 Canvas 独立的 external store 实例（非 React 状态容器）。
   const [evalStore] = useState(() => createEvalExternalStore());
 
+  // 优先使用 Worker 引擎，避免节点代码阻塞主线程；不支持 Worker 的环境回退到主线程执行
+  const [engine] = useState<EvalExecutionEngine>(() =>
+    typeof Worker !== 'undefined' ? createWorkerExecutionEngine() : jsExecutionEngine,
+  );
+
+  useEffect(() => () => engine.dispose?.(), [engine]);
+
+  // 性能记录与 external store 分开保存：它不属于“计算结果快照”，也不随 lastCompletedState 回滚
+  const [profiler] = useState(() => createEvalProfiler());
+
+  // 画布时钟同样独立保存；每帧的计算走与 UI 变更相同的增量计算链路
+  const [clock] = useState(() => createEvalClock());
+
+  // 计算历史：每轮计算完成后的状态快照，供时间回溯与相邻两轮的差异对比
+  const [history] = useState(() => createEvalHistory<CanvasEvalStoreState>());
+
+  // resolver 可能带有解析缓存，同样按 Canvas 实例持有
+  const [resolver] = useState<EvalDependencyResolver>(() =>
+    options.resolver ?? createSymbolDependencyResolver(),
+  );
+
+  // 代码草稿：防抖 / 手动模式下尚未生效的代码修改，计算层只看到已接受的代码
+  const handleUIDataUpdateRef = useRef<((uiData: CanvasUIData) => Promise<void>) | null>(null);
+  const [drafts] = useState(() => createEvalDrafts((uiData) => {
+    void handleUIDataUpdateRef.current?.(uiData);
+  }));
+
+  useEffect(() => () => drafts.dispose(), [drafts]);
+
   const evalTaskVerRef = useRef(0);
   const lastCompletedStateRef = useRef<CanvasEvalStoreState | null>(null);
+  const evalTaskAbortRef = useRef<AbortController | null>(null);
+  // 仍在运行的计算任务数（含已被取代、正在收尾的任务），时钟据此判断上一帧是否已算完
+  const activeTaskCountRef = useRef(0);
+
+  // 开始新任务时取消上一个仍在运行的任务，使其在节点执行中途即可结束
+  const beginEvaluationTask = useCallback(() => {
+    evalTaskAbortRef.current?.abort();
+    const controller = new AbortController();
+    evalTaskAbortRef.current = controller;
+    evalTaskVerRef.current += 1;
+    return { version: evalTaskVerRef.current, signal: controller.signal };
+  }, []);
+
+  // 节点执行结束后回调中产生的日志与错误：同时追加到已完成状态与当前显示的状态
+  const handleLateReport = useCallback((nodeId: string, report: NodeLateReport) => {
+    if (lastCompletedStateRef.current) {
+      lastCompletedStateRef.current = appendLateReport(lastCompletedStateRef.current, nodeId, report);
+    }
+    evalStore.setState(appendLateReport(evalStore.getState(), nodeId, report));
+  }, [evalStore]);
 
   const runEvaluationTask = useCallback(
     async (
       entryNodeIds: string[],
       baseState: CanvasEvalStoreState,
       version: number,
+      signal: AbortSignal,
+      trigger: EvalTaskTrigger = { reasons: {}, forcedNodeIds: new Set() },
     ): Promise<CanvasEvalStoreState | null> => {
       if (!entryNodeIds.length) {
         return null;
       }
 
-      const { order } = createEvaluationPlan(entryNodeIds, baseState);
+      const plan = createEvaluationPlan(entryNodeIds, baseState);
+      const { order } = plan;
       if (!order.length) {
         return baseState;
       }
 
+      const taskStartedAt = Date.now();
+      const taskStartedPerf = performance.now();
+      const runs: EvalNodeRunProfile[] = [];
+      const recordNodeRun = (
+        nodeId: string,
+        result: CanvasEvalNode,
+        durationMs: number,
+        reason: EvalTriggerReason = trigger.reasons[nodeId] ?? 'upstream',
+      ) => {
+        const cacheHit = result === baseState.nodes[nodeId];
+        runs.push({
+          nodeId,
+          reason,
+          durationMs,
+          cacheHit,
+          outputSize: cacheHit ? 0 : estimateOutputSize(result.outputs),
+          success: result.errors.length === 0,
+        });
+      };
+
+      const time = clock.getTime();
+      const concurrency = Math.min(maxConcurrency, engine.maxConcurrency ?? 1);
+      // 本轮已得到结果的节点；中间结果传给下游时，下游的其他上游以这里的最新结果为准
+      const taskResults = new Map<string, CanvasEvalNode>();
+
+      /**
+       * 中间结果的传播：
+       * - 以产出节点的直接下游（含预览节点）为起点单独执行一个计划，结果立即写入 store 以便逐步显示，
+       *   但不作为“已完成状态”，本轮结束时仍以最终结果提交；
+       * - 各次传播串行进行，同一下游节点不会同时执行两次；节点在传播完成前不会继续产出（背压），
+       *   期间的多次产出由执行器合并为最新的一次；
+       * - 传播中重新执行的下游节点不再传播自己的中间结果，只产生最终输出；
+       * - 只能串行执行的引擎无法在产出节点运行期间执行下游，中间结果被忽略，只提交最终输出。
+       */
+      let streamQueue = Promise.resolve();
+      const propagateEmission = (nodeId: string, outputs: Record<string, unknown>) => {
+        const run = streamQueue.then(async () => {
+          if (evalTaskVerRef.current !== version || signal.aborted) return;
+
+          const streamState = produce(baseState, (draft) => {
+            taskResults.forEach((result, settledId) => {
+              draft.nodes[settledId] = result;
+            });
+            draft.nodes[nodeId] = { ...baseState.nodes[nodeId], outputs };
+          });
+          const entryNodeIds = [
+            ...(streamState.depIOs.outgoingBySource[nodeId] ?? []),
+            ...Object.values(streamState.DPIOs.outgoingBySource[nodeId] ?? {}),
+          ].filter((targetId) => targetId !== nodeId);
+          const streamPlan = createEvaluationPlan(entryNodeIds, streamState);
+
+          const streamResults = await runEvaluationPlan(
+            streamPlan,
+            streamState,
+            engine,
+            evalTaskVerRef,
+            version,
+            signal,
+            concurrency,
+            new Set(),
+            time,
+            (settledId, result, durationMs) => recordNodeRun(settledId, result, durationMs, 'stream'),
+            undefined,
+            handleLateReport,
+          );
+          if (!streamResults || evalTaskVerRef.current !== version || signal.aborted) return;
+
+          evalStore.setState(produce(streamState, (draft) => {
+            streamResults.forEach((result, settledId) => {
+              draft.nodes[settledId] = result;
+            });
+          }));
+        });
+        // 某次传播失败不影响后续传播
+        streamQueue = run.catch(() => {});
+        return run;
+      };
+
+      activeTaskCountRef.current += 1;
       const interimResults = await runEvaluationPlan(
-        order,
+        plan,
         baseState,
-        jsExecutionEngine,
+        engine,
         evalTaskVerRef,
-        version
-      );
+        version,
+        signal,
+        concurrency,
+        trigger.forcedNodeIds,
+        time,
+        (nodeId, result, durationMs) => {
+          taskResults.set(nodeId, result);
+          recordNodeRun(nodeId, result, durationMs);
+        },
+        (engine.maxConcurrency ?? 1) > 1 ? propagateEmission : undefined,
+        handleLateReport,
+      ).finally(() => {
+        activeTaskCountRef.current -= 1;
+      });
+
+      const superseded = evalTaskVerRef.current !== version
+        || (signal.aborted && signal.reason !== EVAL_STOP_REASON);
+      profiler.recordTask({
+        version,
+        startedAt: taskStartedAt,
+        durationMs: performance.now() - taskStartedPerf,
+        status: superseded ? 'superseded' : signal.aborted ? 'stopped' : 'completed',
+        order,
+        runs,
+      });
 
       if (!interimResults || evalTaskVerRef.current !== version) {
         return null;
       }
 
+      if (signal.aborted) {
+        // 被新任务取代：结果作废
+        if (signal.reason !== EVAL_STOP_REASON) {
+          return null;
+        }
+        // 手动停止：保留已完成节点的结果，其余待执行的 TextNode 标记为已停止，
+        // 并作为“已完成状态”提交，避免后续无关的 UI 更新把停掉的计算重新拉起
+        order.forEach((nodeId) => {
+          const nodeState = baseState.nodes[nodeId];
+          if (interimResults.has(nodeId) || nodeState?.type !== CanvasNodeKind.TextNode) return;
+          interimResults.set(nodeId, {
+            ...nodeState,
+            isEvaluating: false,
+            outputs: {},
+            errors: [{ message: '计算已被手动停止' }],
+            cacheKey: undefined,
+          });
+        });
+      }
+
       const nextState = produce(baseState, (draft) => {
         interimResults.forEach((result, nodeId) => {
           draft.nodes[nodeId] = result;
         });
       });
 
+      // 返回的状态即为“已完成状态”，由调用方同步提交，这里先记入历史
+      history.record({
+        version,
+        finishedAt: Date.now(),
+        status: signal.aborted ? 'stopped' : 'completed',
+        reasons: Object.fromEntries(
+          entryNodeIds.map((nodeId) => [nodeId, trigger.reasons[nodeId] ?? 'upstream' as const]),
+        ),
+        ranNodeIds: [...new Set(
+          runs.filter((run) => !run.cacheHit && run.reason !== 'stream').map((run) => run.nodeId),
+        )],
+        time,
+        state: nextState,
+      });
+
       return nextState;
-    }, []);
+    }, [evalStore, engine, profiler, clock, history, maxConcurrency, handleLateReport]);
 
   // 处理 UI 数据更新的内部函数
   const handleUIDataUpdate = useCallback(
-    async (uiData: CanvasUIData) => {
+    async (latestUIData: CanvasUIData) => {
 
-      evalTaskVerRef.current += 1;
-      const currentVersion = evalTaskVerRef.current;
+      const { version: currentVersion, signal } = beginEvaluationTask();
 
       const baseState = lastCompletedStateRef.current;
 
+      // 仍是草稿的代码替换为已接受的代码，之后的依赖解析与 delta 都基于替换后的 uiData
+      const { uiData, drafts: nodeDrafts } = drafts.apply(latestUIData);
+
+      // 先解析依赖，delta 需要据此比较依赖边（含推断出的依赖）
+      const resolved = resolver.resolve(Array.from(uiData.edges.values()), uiData.nodes);
+      const resolvedGlobalIOs = resolved.globalIOs ?? createEmptyGlobalIOs();
+      const { depIOs, DPIOs } = resolved;
+      const globalIOs = baseState && isSameGlobalIOs(baseState.globalIOs, resolvedGlobalIOs)
+        ? baseState.globalIOs
+        : resolvedGlobalIOs;
+
       // 基于 lastCompletedState 和 uiData 计算差异
-      const delta = resolveDeltaByUIData(baseState, uiData);
+      const delta = resolveDeltaByUIData(baseState, uiData, { depIOs, DPIOs, globalIOs });
+
+      // 已移除节点的运行时资源（如专属 Worker）及时回收
+      delta.removedNodeIds.forEach((nodeId) => engine.release?.(nodeId));
+      profiler.forgetNodes(delta.removedNodeIds);
 
-      // 如果没有变化，直接恢复上次完成的状态
+      // 如果没有变化，直接恢复上次完成的状态（草稿标记可能有变化）
       if (!delta.hasChanges && baseState) {
-        lastCompletedStateRef.current = baseState;
-        evalStore.setState(baseState);
+        const markedState = markEvalDrafts(baseState, nodeDrafts);
+        lastCompletedStateRef.current = markedState;
+        evalStore.setState(markedState);
         return;
       }
 
@@ -777,15 +461,14 @@ export const useCanvasEval = (): CanvasEvalApi => {
         ? buildNextEvalNodes(baseState.nodes, uiData, delta)
         : createInitialEvalNodes(uiData);
 
-      const uiEdges = Array.from(uiData.edges.values());
-      const { depIOs, DPIOs } = edgeDependencyResolver.resolve(uiEdges);
-
-      const nextState: CanvasEvalStoreState = {
+      const nextState = markEvalDrafts({
         nodes: nextNodes,
         depIOs,
         DPIOs,
-        analysis: baseState?.analysis ?? createDefaultAnalysisState(),
-      };
+        globalIOs,
+        // 静态分析只依赖已生效的代码，执行前即可供界面与执行计划使用
+        analysis: analyzeEvalNodes(baseState?.analysis, nextNodes),
+      }, nodeDrafts);
 
       // 如果没有需要重新计算的节点，直接更新 lastCompletedState
       // 注意：下面每个结束条件中，lastCompletedState 一定要在 store.setState 之前更新，因为 store.setState 是**同步**的，会触发 UI 组件重新渲染，并可能回传到这里
@@ -797,29 +480,97 @@ export const useCanvasEval = (): CanvasEvalApi => {
       }
 
       // 执行计算任务
-      const completedState = await runEvaluationTask(delta.impactedNodeIds, nextState, currentVersion);
+      const completedState = await runEvaluationTask(delta.impactedNodeIds, nextState, currentVersion, signal, {
+        reasons: delta.triggerReasons,
+        forcedNodeIds: new Set(),
+      });
       if (completedState) {
         lastCompletedStateRef.current = completedState;
         evalStore.setState(completedState);
       }
     },
-    [evalStore, runEvaluationTask]
+    [evalStore, engine, profiler, resolver, drafts, beginEvaluationTask, runEvaluationTask]
   );
 
+  useEffect(() => {
+    handleUIDataUpdateRef.current = handleUIDataUpdate;
+  }, [handleUIDataUpdate]);
+
+  // 时钟推进后的一轮计算：以引用了 node_time 的节点为起点，下游按缓存照常判断是否需要执行
+  const evaluateClockDependents = useCallback(async () => {
+    const baseState = evalStore.getState();
+    const entryNodeIds = Object.keys(baseState.nodes).filter((nodeId) => {
+      const node = baseState.nodes[nodeId];
+      return (node.type === CanvasNodeKind.TextNode || node.type === CanvasNodeKind.LibraryNode)
+        && referencesClock(node.code);
+    });
+    if (!entryNodeIds.length) return;
+
+    const { version: currentVersion, signal } = beginEvaluationTask();
+    const completedState = await runEvaluationTask(entryNodeIds, baseState, currentVersion, signal, {
+      reasons: Object.fromEntries(entryNodeIds.map((nodeId) => [nodeId, 'clock' as const])),
+      forcedNodeIds: new Set(),
+    });
+    if (completedState) {
+      lastCompletedStateRef.current = completedState;
+      evalStore.setState(completedState);
+    }
+  }, [evalStore, beginEvaluationTask, runEvaluationTask]);
+
+  // 播放时按目标帧率推进时钟；上一帧（或其他计算任务）尚未结束时丢弃本帧，时间也不推进
+  useEffect(() => {
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    const tick = () => {
+      if (activeTaskCountRef.current > 0) {
+        clock.dropFrame();
+        return;
+      }
+      clock.advance();
+      void evaluateClockDependents();
+    };
+
+    const sync = (state: EvalClockState, prevState?: EvalClockState) => {
+      if (prevState && state.isPlaying === prevState.isPlaying && state.fps === prevState.fps) return;
+      if (timer) clearInterval(timer);
+      timer = state.isPlaying ? setInterval(tick, 1000 / state.fps) : null;
+    };
+
+    sync(clock.store.getState());
+    const unsubscribe = clock.store.subscribe(sync);
+    return () => {
+      unsubscribe();
+      if (timer) clearInterval(timer);
+    };
+  }, [clock, evaluateClockDependents]);
+
   const api = useMemo<CanvasEvalApi>(() => {
     const getSnapshot = () => evalStore.getNodesSnapshot();
 
+    // 画布显示的节点数据：查看历史记录时为该轮计算完成时的快照，否则为实时结果
+    const getDisplayedNodesSnapshot = () => history.getViewingState()?.nodes ?? evalStore.getNodesSnapshot();
+
+    const subscribeDisplayedNodes = (listener: () => void): (() => void) => {
+      const unsubscribeStore = evalStore.subscribe(listener);
+      const unsubscribeHistory = history.store.subscribe(listener);
+      return () => {
+        unsubscribeStore();
+        unsubscribeHistory();
+      };
+    };
+
     /**
      * useSyncExternalStore 选择器读取：
-     * - subscribe/getSnapshot 由 external store 提供；
+     * - subscribe/getSnapshot 由 external store 与计算历史共同提供，查看历史记录时读到的是历史快照；
      * - 使用“快照引用 + 选择结果”缓存，尽量减少无意义重渲染。
+     * getSnapshot 与 subscribe.onData 始终对应实时结果，不受时间回溯影响。
      */
     const useEvalStore = <T,>(selector: (state: CanvasEvalNodes) => T): T => {
       const cacheRef = useRef<{ snapshot: CanvasEvalNodes; selected: T } | null>(null);
       return useSyncExternalStore(
-        evalStore.subscribe,
+        subscribeDisplayedNodes,
         () => {
-          const snapshot = evalStore.getNodesSnapshot();
+          const snapshot = getDisplayedNodesSnapshot();
           const cached = cacheRef.current;
           if (cached && cached.snapshot === snapshot) {
             return cached.selected;
@@ -832,10 +583,32 @@ export const useCanvasEval = (): CanvasEvalApi => {
           cacheRef.current = { snapshot, selected: nextSelected };
           return nextSelected;
         },
-        () => selector(evalStore.getNodesSnapshot()),
+        () => selector(getDisplayedNodesSnapshot()),
       );
     };
 
+    // 全局语义下推断出的符号依赖，供画布绘制“推断连线”
+    const useGlobalIOs = (): CanvasEvalGlobalIOs =>
+      useSyncExternalStore(evalStore.subscribe, evalStore.getGlobalIOsSnapshot, evalStore.getGlobalIOsSnapshot);
+
+    // 静态分析结果读取：选择器应返回稳定引用或原始值（代码不变的节点，其分析结果引用不变）
+    const useAnalysis = <T,>(selector: (analysis: CanvasEvalAnalysisState) => T): T => {
+      const getSelected = () => selector(evalStore.getAnalysisSnapshot());
+      return useSyncExternalStore(evalStore.subscribe, getSelected, getSelected);
+    };
+
+    // 性能记录读取：选择器应返回稳定引用或原始值
+    const useProfile = <T,>(selector: (profile: EvalProfileState) => T): T =>
+      useStore(profiler.store, selector);
+
+    // 时钟状态读取：选择器应返回稳定引用或原始值
+    const useClock = <T,>(selector: (clockState: EvalClockState) => T): T =>
+      useStore(clock.store, selector);
+
+    // 计算历史读取：选择器应返回稳定引用或原始值
+    const useHistory = <T,>(selector: (historyState: EvalHistoryState<CanvasEvalStoreState>) => T): T =>
+      useStore(history.store, selector);
+
     // 订阅来自 UI 的数据变化
     const connectUI = (uiDataApi: CanvasDataApi): (() => void) => {
       const unsubscribe = uiDataApi.subscribe.onData(async (uiData) => handleUIDataUpdate(uiData));
@@ -852,11 +625,14 @@ export const useCanvasEval = (): CanvasEvalApi => {
     const requestEvaluation = async (entryNodeIds: string[]) => {
       if (!entryNodeIds.length) return;
 
-      evalTaskVerRef.current += 1;
-      const currentVersion = evalTaskVerRef.current;
+      const { version: currentVersion, signal } = beginEvaluationTask();
 
       const baseState = evalStore.getState();
-      const completedState = await runEvaluationTask(entryNodeIds, baseState, currentVersion);
+      // 手动请求的节点总是重新执行；其下游仍按缓存判断是否需要执行
+      const completedState = await runEvaluationTask(entryNodeIds, baseState, currentVersion, signal, {
+        reasons: Object.fromEntries(entryNodeIds.map((nodeId) => [nodeId, 'manual' as const])),
+        forcedNodeIds: new Set(entryNodeIds),
+      });
       if (completedState) {
         lastCompletedStateRef.current = completedState;
         evalStore.setState(completedState);
@@ -872,14 +648,55 @@ export const useCanvasEval = (): CanvasEvalApi => {
       await requestEvaluation(ids);
     };
 
+    // Ctrl+S 与节点上的运行按钮：草稿被接受后按最新的 UI 数据走一遍增量计算
+    const commitDrafts = async (nodeIds?: string[]) => {
+      const uiData = drafts.commit(nodeIds);
+      if (uiData) await handleUIDataUpdate(uiData);
+    };
+
+    // 中止当前正在运行的计算任务（不会自动重跑，直到下一次相关变更或手动重算）
+    const stopAll = () => {
+      evalTaskAbortRef.current?.abort(EVAL_STOP_REASON);
+    };
+
+    // 单步：暂停播放并推进一帧；单步由用户触发，不做丢帧判断
+    const stepClock = async () => {
+      clock.pause();
+      clock.advance();
+      await evaluateClockDependents();
+    };
+
+    // 重置：回到循环起点（默认 0 秒）并按该时间重新计算
+    const resetClock = async () => {
+      clock.reset();
+      await evaluateClockDependents();
+    };
+
     return {
       read: {
         getSnapshot,
         useEvalStore,
+        useGlobalIOs,
+        useAnalysis,
+        useProfile,
+        useClock,
+        useHistory,
+        supportsPassByReference: () => !engine.copiesInputs,
       },
       manual: {
         requestRecomputeNode,
         recomputeAll,
+        commitDrafts,
+        stopAll,
+        clearProfile: profiler.clear,
+        playClock: clock.play,
+        pauseClock: clock.pause,
+        stepClock,
+        resetClock,
+        setClockFps: clock.setFps,
+        setClockLoop: clock.setLoop,
+        viewHistory: history.view,
+        clearHistory: history.clear,
       },
       subscribe: {
         onData,
@@ -888,7 +705,7 @@ export const useCanvasEval = (): CanvasEvalApi => {
         connectUI,
       },
     };
-  }, [evalStore, runEvaluationTask, handleUIDataUpdate]);
+  }, [evalStore, engine, profiler, clock, history, drafts, beginEvaluationTask, runEvaluationTask, handleUIDataUpdate, evaluateClockDependents]);
 
   return api;
 };
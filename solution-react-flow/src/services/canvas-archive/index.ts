@@ -1,3 +1,6 @@
+import { CanvasNodeKind, type CanvasNodeUIData, type CanvasUIData } from '@/types/canvas';
+import { DEFAULT_RANDOM_SETTINGS } from '@/services/seededRandom';
+import { DEFAULT_EVAL_MODE_SETTINGS } from '@/services/evalMode';
 import type { CanvasArchive, CanvasArchiveLegacy, CanvasArchiveState } from '@/types/persistence';
 import { v7ToV8 } from './migrations/v7-to-v8';
 import { v8ToV9 } from './migrations/v8-to-v9';
@@ -45,3 +48,18 @@ export const parseCanvasArchiveText = (text: string): CanvasArchiveState | null
   return migrateToLatest(archive).state;
 };
 
+/**
+ * 把存档中的业务层数据转为运行态结构（Map），供无界面运行使用。
+ * 手写或旧版导出的存档中 TextNode 可能缺少 controls，这里补为空数组；缺少随机设置与计算模式时使用默认值。
+ */
+export const toCanvasUIData = (state: CanvasArchiveState): CanvasUIData => ({
+  nodes: new Map(Object.entries(state.uiData.nodes ?? {}).map(([id, node]): [string, CanvasNodeUIData] => [
+    id,
+    node.type === CanvasNodeKind.TextNode
+      ? { ...node, data: { ...node.data, controls: node.data.controls ?? [] } }
+      : node,
+  ])),
+  edges: new Map(Object.entries(state.uiData.edges ?? {})),
+  random: state.uiData.random ?? DEFAULT_RANDOM_SETTINGS,
+  evalMode: state.uiData.evalMode ?? DEFAULT_EVAL_MODE_SETTINGS,
+});
@@ -0,0 +1,250 @@
+import { findStackLocation } from './nodeSource';
+
+/**
+ * 节点执行期间的控制台捕获：
+ * - 每条日志记录级别、时间戳、在节点代码中的行号以及参数的克隆（而非字符串化结果）；
+ * - 克隆结果总是可以 structured clone，因此可以原样跨 Worker 传递；
+ * - 额外支持 console.table / console.group / console.time 系列。
+ */
+
+export type LogLevel = 'log' | 'info' | 'debug' | 'warn' | 'error';
+
+export interface LogTable {
+  columns: string[];
+  rows: Array<{ index: string; cells: Record<string, unknown> }>;
+}
+
+export interface LogEntry {
+  level: LogLevel;
+  timestamp: number;
+  line?: number;
+  column?: number;
+  // 参数的克隆；无法克隆的部分（函数、Symbol 等）以描述字符串代替
+  args: unknown[];
+  // 所在 console.group 的嵌套深度
+  depth: number;
+  // group：分组标题，其后 depth 更深的条目属于该分组；table：表格数据见 table 字段
+  kind?: 'group' | 'table';
+  collapsed?: boolean;
+  table?: LogTable;
+}
+
+// console.table 中没有可展开属性的行，其值放在这一列
+export const LOG_TABLE_VALUE_COLUMN = 'Value';
+
+const DEFAULT_LABEL = 'default';
+
+const describeFunction = (value: (...args: unknown[]) => unknown) => `ƒ ${value.name || 'anonymous'}()`;
+
+// structuredClone 失败时的逐层复制：保留循环引用，不可克隆的叶子替换为描述字符串
+const cloneFallback = (value: unknown, seen: Map<object, unknown>): unknown => {
+  if (typeof value === 'function') return describeFunction(value as (...args: unknown[]) => unknown);
+  if (typeof value === 'symbol') return value.toString();
+  if (value === null || typeof value !== 'object') return value;
+  if (seen.has(value)) return seen.get(value);
+
+  try {
+    const cloned = structuredClone(value);
+    seen.set(value, cloned);
+    return cloned;
+  } catch {
+    // 继续逐层复制
+  }
+
+  if (Array.isArray(value)) {
+    const result: unknown[] = [];
+    seen.set(value, result);
+    value.forEach((item) => result.push(cloneFallback(item, seen)));
+    return result;
+  }
+  if (value instanceof Map) {
+    const result = new Map<unknown, unknown>();
+    seen.set(value, result);
+    value.forEach((item, key) => result.set(cloneFallback(key, seen), cloneFallback(item, seen)));
+    return result;
+  }
+  if (value instanceof Set) {
+    const result = new Set<unknown>();
+    seen.set(value, result);
+    value.forEach((item) => result.add(cloneFallback(item, seen)));
+    return result;
+  }
+
+  const result: Record<string, unknown> = {};
+  seen.set(value, result);
+  Object.keys(value).forEach((key) => {
+    result[key] = cloneFallback((value as Record<string, unknown>)[key], seen);
+  });
+  return result;
+};
+
+export const cloneLogValue = (value: unknown): unknown => {
+  if (typeof value !== 'object' || value === null) {
+    return cloneFallback(value, new Map());
+  }
+  try {
+    return structuredClone(value);
+  } catch {
+    return cloneFallback(value, new Map());
+  }
+};
+
+// 单个值的简短文本形式：用于日志预览与警告消息，深层内容以省略号代替
+export const formatLogValue = (value: unknown, depth = 0): string => {
+  if (typeof value === 'string') return depth === 0 ? value : JSON.stringify(value);
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value === 'function') return describeFunction(value as (...args: unknown[]) => unknown);
+  if (typeof value !== 'object' || value === null) return String(value);
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (value instanceof Date) return value.toISOString();
+  if (depth >= 2) return Array.isArray(value) ? `Array(${value.length})` : '{…}';
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => formatLogValue(item, depth + 1)).join(', ')}]`;
+  }
+  if (value instanceof Map) {
+    const entries = Array.from(value.entries()).map(([key, item]) => `${formatLogValue(key, depth + 1)} => ${formatLogValue(item, depth + 1)}`);
+    return `Map(${value.size}) {${entries.join(', ')}}`;
+  }
+  if (value instanceof Set) {
+    return `Set(${value.size}) {${Array.from(value).map((item) => formatLogValue(item, depth + 1)).join(', ')}}`;
+  }
+  const entries = Object.entries(value).map(([key, item]) => `${key}: ${formatLogValue(item, depth + 1)}`);
+  return `{${entries.join(', ')}}`;
+};
+
+export const formatLogArgs = (args: unknown[]) => args.map((arg) => formatLogValue(arg)).join(' ');
+
+// 按浏览器 console.table 的规则展开：每个属性（或数组元素）一行，行内对象的属性作为列
+const buildLogTable = (data: object, columnFilter?: string[]): LogTable => {
+  const columns: string[] = [];
+  const rows: LogTable['rows'] = [];
+  const addColumn = (column: string) => {
+    if (!columns.includes(column)) columns.push(column);
+  };
+
+  const rowEntries: Array<[string, unknown]> = data instanceof Map
+    ? Array.from(data.entries()).map(([key, value]) => [String(key), value])
+    : Array.isArray(data) || data instanceof Set
+      ? Array.from(data as Iterable<unknown>).map((value, index) => [String(index), value])
+      : Object.entries(data);
+
+  rowEntries.forEach(([index, value]) => {
+    const cells: Record<string, unknown> = {};
+    if (value !== null && typeof value === 'object') {
+      Object.entries(value).forEach(([key, cell]) => {
+        cells[key] = cloneLogValue(cell);
+        addColumn(key);
+      });
+    } else {
+      cells[LOG_TABLE_VALUE_COLUMN] = cloneLogValue(value);
+    }
+    rows.push({ index, cells });
+  });
+
+  // 值列总是排在最后
+  if (rows.some((row) => LOG_TABLE_VALUE_COLUMN in row.cells)) {
+    addColumn(LOG_TABLE_VALUE_COLUMN);
+  }
+
+  return { columns: columnFilter ?? columns, rows };
+};
+
+type ConsoleMethodName =
+  | LogLevel
+  | 'table'
+  | 'group'
+  | 'groupCollapsed'
+  | 'groupEnd'
+  | 'time'
+  | 'timeLog'
+  | 'timeEnd';
+
+export const CAPTURED_CONSOLE_METHODS: ConsoleMethodName[] = [
+  'log', 'info', 'debug', 'warn', 'error',
+  'table', 'group', 'groupCollapsed', 'groupEnd',
+  'time', 'timeLog', 'timeEnd',
+];
+
+/**
+ * 为一次节点执行创建控制台捕获；code 与 sourceUrl 用于从调用栈中定位日志所在的行，
+ * onEntry 在每条日志写入后调用（JSExecutor 借此把 console.warn 同步为警告）。
+ */
+export const createConsoleCapture = (code: string, sourceUrl: string, onEntry?: (entry: LogEntry) => void) => {
+  const entries: LogEntry[] = [];
+  const timers = new Map<string, number>();
+  let depth = 0;
+
+  const push = (level: LogLevel, args: unknown[], extra: Partial<LogEntry> = {}) => {
+    const { line, column } = findStackLocation(new Error().stack ?? '', code, sourceUrl);
+    const entry: LogEntry = {
+      level,
+      timestamp: Date.now(),
+      line,
+      column,
+      args: args.map(cloneLogValue),
+      depth,
+      ...extra,
+    };
+    entries.push(entry);
+    onEntry?.(entry);
+  };
+
+  const createLevelMethod = (level: LogLevel) => (...args: unknown[]) => push(level, args);
+
+  const startGroup = (collapsed: boolean) => (...label: unknown[]) => {
+    push('log', label.length > 0 ? label : ['console.group'], { kind: 'group', collapsed });
+    depth += 1;
+  };
+
+  const readTimer = (label: string) => {
+    const startedAt = timers.get(label);
+    if (startedAt === undefined) {
+      push('warn', [`计时器 "${label}" 不存在`]);
+      return undefined;
+    }
+    return `${label}: ${(performance.now() - startedAt).toFixed(3)} ms`;
+  };
+
+  const methods: Record<ConsoleMethodName, (...args: unknown[]) => void> = {
+    log: createLevelMethod('log'),
+    info: createLevelMethod('info'),
+    debug: createLevelMethod('debug'),
+    warn: createLevelMethod('warn'),
+    error: createLevelMethod('error'),
+    table: (data?: unknown, columns?: unknown) => {
+      if (data === null || typeof data !== 'object') {
+        push('log', [data]);
+        return;
+      }
+      const columnFilter = Array.isArray(columns) ? columns.map(String) : undefined;
+      push('log', [], { kind: 'table', table: buildLogTable(data, columnFilter) });
+    },
+    group: startGroup(false),
+    groupCollapsed: startGroup(true),
+    groupEnd: () => {
+      depth = Math.max(0, depth - 1);
+    },
+    time: (label: unknown = DEFAULT_LABEL) => {
+      const key = String(label);
+      if (timers.has(key)) {
+        push('warn', [`计时器 "${key}" 已存在`]);
+        return;
+      }
+      timers.set(key, performance.now());
+    },
+    timeLog: (label: unknown = DEFAULT_LABEL, ...data: unknown[]) => {
+      const text = readTimer(String(label));
+      if (text !== undefined) push('log', [text, ...data]);
+    },
+    timeEnd: (label: unknown = DEFAULT_LABEL) => {
+      const key = String(label);
+      const text = readTimer(key);
+      if (text === undefined) return;
+      timers.delete(key);
+      push('log', [text]);
+    },
+  };
+
+  return { entries, methods };
+};
@@ -0,0 +1,32 @@
+import {
+  CanvasNodeKind,
+  type CanvasEvalMode,
+  type CanvasEvalModeSettings,
+  type CanvasNodeUIData,
+  type CanvasUIData,
+} from '@/types/canvas';
+
+/**
+ * 计算模式设置：
+ * - 画布有一个计算模式（实时 / 防抖 / 手动），TextNode 可以单独设置，否则跟随画布；
+ * - 防抖模式在停止修改 debounceMs 毫秒后自动接受代码，超出范围的值在写入前被规整。
+ */
+
+export const DEFAULT_EVAL_DEBOUNCE_MS = 500;
+export const MAX_EVAL_DEBOUNCE_MS = 10000;
+
+// 没有记录计算模式的画布（旧版存档）保持原有行为：每次修改立即重新计算
+export const DEFAULT_EVAL_MODE_SETTINGS: CanvasEvalModeSettings = { mode: 'live', debounceMs: DEFAULT_EVAL_DEBOUNCE_MS };
+
+export const EVAL_MODE_LABELS: Record<CanvasEvalMode, string> = {
+  live: '实时',
+  debounced: '防抖',
+  manual: '手动',
+};
+
+export const normalizeEvalDebounceMs = (debounceMs: number) =>
+  (Number.isFinite(debounceMs) ? Math.min(MAX_EVAL_DEBOUNCE_MS, Math.max(0, Math.round(debounceMs))) : DEFAULT_EVAL_DEBOUNCE_MS);
+
+// 节点生效的计算模式：TextNode 可以单独设置，否则跟随画布
+export const resolveNodeEvalMode = (uiData: CanvasUIData, node: CanvasNodeUIData): CanvasEvalModeSettings =>
+  (node.type === CanvasNodeKind.TextNode && node.data.evalMode) || uiData.evalMode;
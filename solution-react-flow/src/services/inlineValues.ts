@@ -0,0 +1,124 @@
+import { parse, type Expression, type Pattern, type Statement } from 'acorn';
+import { formatLogValue } from './consoleCapture';
+import { NODE_IMPORT_FUNCTION } from './nodeModules';
+import { NODE_PARSE_OPTIONS } from './nodeSource';
+
+/**
+ * 行内值：
+ * - 开启后执行前改写节点代码，记录每条顶层表达式语句的值与每个顶层变量声明的值，按代码行汇总后随执行结果返回；
+ * - 表达式语句包裹为 __node_inline__(行, (表达式))，变量声明之后追加 __node_inline__(行, 变量, "变量名")；
+ * - 改写只插入字符、不插入换行，行号保持不变；包裹的前缀插在上一条语句之后，
+ *   被记录的表达式自身的列号也不变（与上一条语句同处一行、或位于第一行的首条语句除外）；
+ * - 值在记录时即转为简短的文本，之后对象再被修改也不影响显示；undefined 不记录（如 node_output(...) 的返回值）。
+ */
+
+// 执行器在执行期间注入的记录函数
+export const NODE_INLINE_VALUE_FUNCTION = '__node_inline__';
+
+const MAX_INLINE_VALUE_LENGTH = 80;
+
+// 行号 -> 该行记录到的值（同一行有多个值时以逗号分隔）
+export type NodeLineValues = Record<number, string>;
+
+interface Insertion {
+  offset: number;
+  text: string;
+}
+
+const collectPatternNames = (pattern: Pattern, names: string[]) => {
+  switch (pattern.type) {
+    case 'Identifier':
+      names.push(pattern.name);
+      break;
+    case 'ObjectPattern':
+      pattern.properties.forEach((property) =>
+        collectPatternNames(property.type === 'RestElement' ? property : property.value, names));
+      break;
+    case 'ArrayPattern':
+      pattern.elements.forEach((element) => element && collectPatternNames(element, names));
+      break;
+    case 'RestElement':
+      collectPatternNames(pattern.argument, names);
+      break;
+    case 'AssignmentPattern':
+      collectPatternNames(pattern.left, names);
+      break;
+  }
+  return names;
+};
+
+// 模块节点中 import 改写出的声明
+const isImportReplacement = (init: Expression | null | undefined) =>
+  init?.type === 'CallExpression' && init.callee.type === 'Identifier' && init.callee.name === NODE_IMPORT_FUNCTION;
+
+const instrumentStatement = (statement: Statement, previousEnd: number, insertions: Insertion[]) => {
+  // 值显示在表达式（声明）结束的那一行
+  if (statement.type === 'ExpressionStatement' && !statement.directive) {
+    const line = statement.expression.loc!.end.line;
+    insertions.push({ offset: previousEnd, text: `;${NODE_INLINE_VALUE_FUNCTION}(${line}, (` });
+    insertions.push({ offset: statement.expression.end, text: '))' });
+    return;
+  }
+
+  if (statement.type === 'VariableDeclaration') {
+    const records = statement.declarations
+      .filter((declarator) => !isImportReplacement(declarator.init))
+      .flatMap((declarator) => collectPatternNames(declarator.id, [])
+        .map((name) => `${NODE_INLINE_VALUE_FUNCTION}(${declarator.loc!.end.line}, ${name}, ${JSON.stringify(name)});`));
+    if (records.length > 0) {
+      insertions.push({ offset: statement.end, text: `;${records.join('')}` });
+    }
+  }
+};
+
+/**
+ * 改写代码以记录顶层语句的值；代码无法按脚本解析时返回 null（由执行器照常报告语法错误）。
+ * 模块节点应传入 compileNodeModule 改写后的函数体，import 改写出的声明不会被记录。
+ */
+export const instrumentInlineValues = (code: string): string | null => {
+  let statements: Statement[];
+  try {
+    statements = parse(code, { ...NODE_PARSE_OPTIONS, locations: true }).body as Statement[];
+  } catch {
+    return null;
+  }
+
+  const insertions: Insertion[] = [];
+  statements.forEach((statement, index) => {
+    instrumentStatement(statement, index > 0 ? statements[index - 1].end : 0, insertions);
+  });
+
+  // 同一位置的插入按生成顺序排列：上一条语句的收尾在前，下一条语句的前缀在后
+  let result = '';
+  let cursor = 0;
+  insertions
+    .map((insertion, order) => ({ ...insertion, order }))
+    .sort((a, b) => a.offset - b.offset || a.order - b.order)
+    .forEach(({ offset, text }) => {
+      result += code.slice(cursor, offset) + text;
+      cursor = offset;
+    });
+  return result + code.slice(cursor);
+};
+
+const truncateInlineValue = (text: string) => {
+  const singleLine = text.replace(/\s*\n\s*/g, ' ');
+  return singleLine.length > MAX_INLINE_VALUE_LENGTH
+    ? `${singleLine.slice(0, MAX_INLINE_VALUE_LENGTH - 1)}…`
+    : singleLine;
+};
+
+// 单个值的行内文本：字符串带引号，以便与数字等区分
+export const formatInlineValue = (value: unknown, name?: string) => {
+  const text = truncateInlineValue(typeof value === 'string' ? JSON.stringify(value) : formatLogValue(value));
+  return name === undefined ? text : `${name} = ${text}`;
+};
+
+// 把一个值记到所在行；返回原值，使包裹后的表达式语义不变
+export const createInlineValueRecorder = (lineValues: NodeLineValues) =>
+  <T,>(line: number, value: T, name?: string): T => {
+    if (value === undefined) return value;
+    const text = formatInlineValue(value, name);
+    lineValues[line] = lineValues[line] === undefined ? text : `${lineValues[line]}, ${text}`;
+    return value;
+  };
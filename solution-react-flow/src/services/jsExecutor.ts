@@ -1,5 +1,32 @@
 // JS代码执行引擎和IO库
 
+import { CAPTURED_CONSOLE_METHODS, createConsoleCapture, formatLogArgs, type LogEntry } from './consoleCapture';
+import {
+  NODE_INLINE_VALUE_FUNCTION,
+  createInlineValueRecorder,
+  instrumentInlineValues,
+  type NodeLineValues,
+} from './inlineValues';
+import {
+  NODE_IMPORT_FUNCTION,
+  compileNodeModule,
+  createModuleExportSuffix,
+  type NodeModuleSource,
+} from './nodeModules';
+import {
+  checkNodeSyntax,
+  compileNodeSource,
+  createNodeSourceUrl,
+  findStackLocation,
+  getTokenRange,
+  type SourceDiagnostic,
+} from './nodeSource';
+import { REFERENCE_GUARD_ENABLED, createReferenceGuard, type ReferenceGuard } from './referenceGuard';
+import { createSeededRandom } from './seededRandom';
+
+export type { LogEntry, LogLevel, LogTable } from './consoleCapture';
+export type { NodeLineValues } from './inlineValues';
+
 export interface Control {
   name: string;
   type: 'slider' | 'input' | 'switch';
@@ -14,19 +41,63 @@ export interface ExecutionResult {
   success: boolean;
   outputs: Record<string, any>;
   controls: Control[];
-  logs: string[];
-  errors?: Array<{
-    message: string;
-    line?: number;
-    column?: number;
-    stack?: string;
-  }>;
-  warnings?: Array<{
-    message: string;
-    line?: number;
-    column?: number;
-    stack?: string;
-  }>;
+  logs: LogEntry[];
+  errors?: SourceDiagnostic[];
+  warnings?: SourceDiagnostic[];
+  // 本次执行对外提供的顶层定义（仅包含 ExecuteCodeOptions.exportNames 中请求的名字）
+  globals?: Record<string, unknown>;
+  // 开启 ExecuteCodeOptions.inlineValues 时，各行顶层语句的值；执行出错时包含出错之前记录到的值
+  lineValues?: NodeLineValues;
+}
+
+export interface ExecuteCodeOptions {
+  // 触发后本次执行以“已取消”错误结束，节点代码可通过 node_signal 感知
+  signal?: AbortSignal;
+  // 执行期间临时挂到全局作用域上的变量，供代码中的自由变量引用
+  globals?: Record<string, unknown>;
+  // 执行结束后需要读取的顶层定义名
+  exportNames?: string[];
+  // 编译时 //# sourceURL 的名字（通常为节点 id），用于在调用栈中定位属于本节点的帧
+  sourceName?: string;
+  // 代码（及其依赖的模块）通过 import 引用的模块节点，按依赖顺序排列，执行前依次实例化
+  modules?: NodeModuleSource[];
+  // 注入到作用域中的共享库：执行前依次执行，其顶层定义与 globals 一样作为自由变量可见（同名时 globals 优先）
+  libraries?: NodeLibrarySource[];
+  // 画布时钟的当前时间（秒），节点代码通过 node_time() 读取
+  time?: number;
+  // 节点的随机种子：node_random() 每次执行都从它重新开始，相同种子得到相同的序列
+  randomSeed?: number;
+  // 执行期间把 Math.random 也换成同一个种子化生成器
+  replaceMathRandom?: boolean;
+  // 按引用传入的输入名：开发环境下这些输入被冻结并以只读视图交给代码，修改尝试会被忽略并记为警告
+  referenceInputs?: string[];
+  // 执行过程中产出的中间结果（node_emit 与异步生成器输出），参数为当时全部输出的快照；
+  // 返回的 Promise 完成前不会再次调用，期间的多次产出合并为最新的一次（背压与合并）
+  onEmit?: (outputs: Record<string, unknown>) => Promise<void> | void;
+  // 执行结束后，由本次执行启动的定时器、Promise 等回调中产生的日志与错误，按批回报
+  onLateReport?: (report: NodeLateReport) => void;
+  // 记录顶层语句的值，经 result.lineValues 返回，供编辑器在行尾显示
+  inlineValues?: boolean;
+}
+
+// 执行结束之后才产生的日志与错误（行号同样按本次执行的代码定位）
+export interface NodeLateReport {
+  logs: LogEntry[];
+  errors: SourceDiagnostic[];
+}
+
+export interface JSExecutorOptions {
+  // 执行器独占所在的 realm（每个节点一个 Worker）：realm 中未捕获的错误、未处理的 Promise 拒绝，
+  // 以及两次执行之间的控制台输出，都归属到最近一次执行
+  isolated?: boolean;
+}
+
+export interface NodeLibrarySource {
+  code: string;
+  // 编译时的 sourceURL 名字（共享库节点 id）
+  sourceName: string;
+  // 需要注入的顶层定义名
+  exportNames: string[];
 }
 
 // 滑动条控件类
@@ -68,60 +139,356 @@ export class Switch {
   }
 }
 
+// 在函数体末尾读取顶层定义；未声明的名字以 undefined 返回
+const createExportSuffix = (exportNames: string[]) => {
+  if (exportNames.length === 0) return '';
+  const entries = exportNames
+    .map((name) => `${JSON.stringify(name)}: typeof ${name} !== 'undefined' ? ${name} : undefined`)
+    .join(', ');
+  return `\n;return { ${entries} };`;
+};
+
+// 模块加载时取得原生的定时器：执行期间全局上的定时器会被换成把回调归属到本次执行的版本
+const nativeTimers = {
+  setTimeout: globalThis.setTimeout.bind(globalThis),
+  setInterval: globalThis.setInterval.bind(globalThis),
+  queueMicrotask: globalThis.queueMicrotask.bind(globalThis),
+  requestAnimationFrame: typeof globalThis.requestAnimationFrame === 'function'
+    ? globalThis.requestAnimationFrame.bind(globalThis)
+    : null,
+};
+
+// 等待一个宏任务，让执行期间产生的 unhandledrejection 事件有机会派发
+const flushMacrotask = () => new Promise<void>((resolve) => nativeTimers.setTimeout(resolve, 0));
+
+// 执行结束后的日志与错误合并回报的间隔，避免高频定时器每次回调都触发一次更新
+const LATE_REPORT_BATCH_MS = 100;
+
+const createLateReporter = (onLateReport: (report: NodeLateReport) => void) => {
+  let pending: NodeLateReport | null = null;
+  return (report: NodeLateReport) => {
+    if (report.logs.length === 0 && report.errors.length === 0) return;
+    if (pending) {
+      pending.logs.push(...report.logs);
+      pending.errors.push(...report.errors);
+      return;
+    }
+    pending = { logs: [...report.logs], errors: [...report.errors] };
+    nativeTimers.setTimeout(() => {
+      const batch = pending!;
+      pending = null;
+      onLateReport(batch);
+    }, LATE_REPORT_BATCH_MS);
+  };
+};
+
+/**
+ * 一次执行的归属信息：由它启动的回调在执行结束后仍按它的代码定位日志与错误。
+ * report 缺省表示调用方不关心执行结束后的输出，此时回调按原生行为运行。
+ */
+interface NodeRun {
+  code: string;
+  sourceUrl: string;
+  finished: boolean;
+  report?: (report: NodeLateReport) => void;
+}
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  (typeof value === 'object' || typeof value === 'function')
+  && value !== null
+  && typeof (value as { then?: unknown }).then === 'function';
+
+// 计算被取消时抛出的错误；主线程无法打断同步代码，只能在 await 处提前结束
+export class EvalAbortError extends Error {
+  constructor() {
+    super('计算已取消');
+    this.name = 'EvalAbortError';
+  }
+}
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof value === 'object' && value !== null && typeof (value as Record<symbol, unknown>)[Symbol.asyncIterator] === 'function';
+
+/**
+ * 中间结果的发布通道：
+ * - 同一时刻最多一次 publish 在进行，期间的多次 emit 只标记“有新值”，结束后以最新快照再发布一次；
+ * - emit 返回的 Promise 在包含本次产出的那次发布完成后 resolve，节点代码 await 它即可按下游的速度产出；
+ * - flush 等待进行中的发布结束，执行器在返回最终结果前调用，保证中间结果不会晚于最终结果到达。
+ */
+const createEmitChannel = (publish: () => Promise<void> | void) => {
+  let inFlight: Promise<void> | null = null;
+  let dirty = false;
+  let waiters: Array<() => void> = [];
+
+  const pump = async () => {
+    while (dirty) {
+      dirty = false;
+      const batch = waiters;
+      waiters = [];
+      try {
+        await publish();
+      } catch {
+        // 发布失败（例如中间结果无法跨线程传递）不影响节点本身的执行，最终结果仍会正常返回
+      }
+      batch.forEach((resolve) => resolve());
+    }
+    inFlight = null;
+  };
+
+  return {
+    emit: () => {
+      dirty = true;
+      const done = new Promise<void>((resolve) => waiters.push(resolve));
+      if (!inFlight) inFlight = pump();
+      return done;
+    },
+    flush: () => inFlight ?? Promise.resolve(),
+  };
+};
+
+// 被导入的模块实例化失败；错误位于其他节点的代码中，不在本节点内定位
+class NodeModuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NodeModuleError';
+  }
+}
+
+// 在 signal 触发时 reject，用于与节点代码的执行过程竞速
+const createAbortRace = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+  if (signal.aborted) {
+    reject(new EvalAbortError());
+    return;
+  }
+  signal.addEventListener('abort', () => reject(new EvalAbortError()), { once: true });
+});
+
+// 模块加载时取得全局事件接口：Worker 中的沙箱随后会把全局对象上的 addEventListener 对节点代码隐藏
+const globalEvents = typeof globalThis.addEventListener === 'function'
+  ? {
+    add: globalThis.addEventListener.bind(globalThis) as <E extends Event>(type: string, listener: (event: E) => void) => void,
+    remove: globalThis.removeEventListener.bind(globalThis) as <E extends Event>(type: string, listener: (event: E) => void) => void,
+  }
+  : null;
+
+// 未处理的 Promise 拒绝的监听：浏览器与 Worker 中为 unhandledrejection 事件，Node.js（命令行）中没有全局事件，
+// 改用 process 的 unhandledRejection 事件。登记了监听后拒绝不再按默认方式处理（Node.js 默认会让进程退出）；
+// 监听返回 false 表示不归它处理，浏览器中仍按默认方式报告
+type RejectionListener = (reason: unknown) => boolean | void;
+
+const nodeProcess = (globalThis as {
+  process?: {
+    on?: (event: 'unhandledRejection', listener: (reason: unknown) => void) => void;
+    off?: (event: 'unhandledRejection', listener: (reason: unknown) => void) => void;
+  };
+}).process;
+
+const createRejectionEvents = () => {
+  if (globalEvents) {
+    const handlers = new Map<RejectionListener, (event: PromiseRejectionEvent) => void>();
+    return {
+      add: (listener: RejectionListener) => {
+        const handler = (event: PromiseRejectionEvent) => {
+          if (listener(event.reason) !== false) event.preventDefault();
+        };
+        handlers.set(listener, handler);
+        globalEvents.add('unhandledrejection', handler);
+      },
+      remove: (listener: RejectionListener) => {
+        const handler = handlers.get(listener);
+        if (!handler) return;
+        handlers.delete(listener);
+        globalEvents.remove('unhandledrejection', handler);
+      },
+    };
+  }
+  if (typeof nodeProcess?.on === 'function' && typeof nodeProcess.off === 'function') {
+    const on = nodeProcess.on.bind(nodeProcess);
+    const off = nodeProcess.off.bind(nodeProcess);
+    return {
+      add: (listener: RejectionListener) => on('unhandledRejection', listener),
+      remove: (listener: RejectionListener) => off('unhandledRejection', listener),
+    };
+  }
+  return null;
+};
+
+const rejectionEvents = createRejectionEvents();
+
+// 以间接 eval 在全局作用域中执行编译后的脚本：节点代码只能看到全局名字，
+// 看不到执行器的 this、方法内的局部变量以及本模块的绑定（保存的原生定时器等）；
+// 结果为 suffix 中 return 的导出表，没有 suffix 时为 undefined
+const evaluateNodeScript = (script: string): Promise<Record<string, unknown> | undefined> => (0, eval)(script);
+
 // JS代码执行器
 export class JSExecutor {
-  private logs: string[] = [];
-  private warnings: Array<{
-    message: string;
-    line?: number;
-    column?: number;
-    stack?: string;
-  }> = [];
+  private readonly isolated: boolean;
+  // 最近一次执行；isolated 时 realm 中无法归属到具体回调的错误与输出都记到它名下
+  private lastRun: NodeRun | null = null;
+  private restoreIdleConsole = () => {};
+
+  private logs: LogEntry[] = [];
+  private warnings: SourceDiagnostic[] = [];
+  private errors: SourceDiagnostic[] = [];
   private outputs: Record<string, any> = {};
   private controls: Control[] = [];
+  private currentCode = '';
+  private currentSourceUrl = createNodeSourceUrl();
   private inputValues: Record<string, any> = {};
-  private originalConsoleLog: any;
-  private originalConsoleWarn: any;
+  // 以异步可迭代对象（如异步生成器）输出的流，在代码执行完后逐个取值产出
+  private streams: Array<{ name: string; iterable: AsyncIterable<unknown> }> = [];
+  private emitChannel: ReturnType<typeof createEmitChannel> | null = null;
+  // 正在实例化被导入的模块或共享库：此时其中的 node_input 只返回默认值，node_output 不产生输出
+  private loadingDependency = false;
+  private restoreConsoleMethods = () => {};
 
-  // 重写console.log和console.warn来捕获日志和警告
-  private setupConsole() {
-    this.originalConsoleLog = console.log;
-    this.originalConsoleWarn = console.warn;
-    
-    console.log = (...args: any[]) => {
-      const message = args.map(arg => 
-        typeof arg === 'object' ? JSON.stringify(arg) : String(arg)
-      ).join(' ');
-      this.logs.push(message);
-      // 可选：保持原有的控制台输出
-      // this.originalConsoleLog(...args);
-    };
-    
-    console.warn = (...args: any[]) => {
-      const message = args.map(arg => 
-        typeof arg === 'object' ? JSON.stringify(arg) : String(arg)
-      ).join(' ');
-      
-      // 创建警告信息
-      const warning = {
-        message,
-        stack: (new Error()).stack // 获取调用栈来提取行号
-      };
-      
-      this.warnings.push(warning);
-      // 可选：保持原有的控制台输出
-      // this.originalConsoleWarn(...args);
+  constructor(options: JSExecutorOptions = {}) {
+    this.isolated = options.isolated ?? false;
+    if (this.isolated) {
+      globalEvents?.add('error', this.handleRealmError);
+      rejectionEvents?.add(this.handleRealmRejection);
+    }
+  }
+
+  // 替换 console 上的方法，返回恢复函数
+  private installConsole(methods: Record<string, (...args: unknown[]) => void>) {
+    const target = console as unknown as Record<string, unknown>;
+    const saved = CAPTURED_CONSOLE_METHODS.map((name) => [name, target[name]] as const);
+    CAPTURED_CONSOLE_METHODS.forEach((name) => {
+      target[name] = methods[name];
+    });
+    return () => {
+      saved.forEach(([name, method]) => {
+        target[name] = method;
+      });
     };
   }
 
-  // 恢复console.log和console.warn
+  // 接管 console：日志按级别结构化记录，console.warn 同时作为节点警告展示
+  private setupConsole() {
+    const capture = createConsoleCapture(this.currentCode, this.currentSourceUrl, (entry) => {
+      if (entry.level !== 'warn') return;
+      this.warnings.push({
+        message: formatLogArgs(entry.args),
+        ...(entry.line !== undefined ? getTokenRange(this.currentCode, entry.line, entry.column ?? 1) : {}),
+      });
+    });
+    this.logs = capture.entries;
+    this.restoreConsoleMethods = this.installConsole(capture.methods);
+  }
+
+  // 恢复 console
   private restoreConsole() {
-    if (this.originalConsoleLog) {
-      console.log = this.originalConsoleLog;
+    this.restoreConsoleMethods();
+    this.restoreConsoleMethods = () => {};
+  }
+
+  // 捕获节点执行期间未被处理的 Promise 拒绝，归属到当前节点的错误列表
+  private handleUnhandledRejection = (reason: unknown) => {
+    if (reason instanceof Error) {
+      const errorInfo = this.parseError(reason);
+      this.errors.push({ ...errorInfo, message: `未处理的 Promise 拒绝：${errorInfo.message}` });
+    } else {
+      this.errors.push({ message: `未处理的 Promise 拒绝：${String(reason)}` });
+    }
+  };
+
+  // isolated 时由常驻的 realm 监听负责，不再重复登记
+  private setupRejectionTracking() {
+    if (!this.isolated) rejectionEvents?.add(this.handleUnhandledRejection);
+  }
+
+  private restoreRejectionTracking() {
+    if (!this.isolated) rejectionEvents?.remove(this.handleUnhandledRejection);
+  }
+
+  // 回调中的错误：执行期间记入本次结果，结束后经 onLateReport 回报
+  private reportRunError(run: NodeRun, label: string, reason: unknown) {
+    const errorInfo: SourceDiagnostic = reason instanceof Error
+      ? this.parseError(reason, run.code, run.sourceUrl)
+      : { message: String(reason) };
+    const diagnostic = { ...errorInfo, message: `${label}：${errorInfo.message}` };
+    if (run.finished) {
+      run.report?.({ logs: [], errors: [diagnostic] });
+    } else {
+      this.errors.push(diagnostic);
+    }
+  }
+
+  private handleRealmError = (event: ErrorEvent) => {
+    if (!this.lastRun) return;
+    event.preventDefault();
+    this.reportRunError(this.lastRun, '未捕获的错误', event.error ?? event.message);
+  };
+
+  private handleRealmRejection = (reason: unknown) => {
+    if (!this.lastRun) return false;
+    this.reportRunError(this.lastRun, '未处理的 Promise 拒绝', reason);
+  };
+
+  // 调用归属于 run 的回调；同步抛出的错误与返回的 Promise 被拒绝都记到 run 名下
+  private invokeRunCallback(run: NodeRun, callback: (...args: unknown[]) => unknown, args: unknown[]) {
+    const onError = (error: unknown) => this.reportRunError(run, '回调出错', error);
+    const call = () => {
+      try {
+        const result = callback(...args);
+        if (isPromiseLike(result)) result.then(undefined, onError);
+      } catch (error) {
+        onError(error);
+      }
+    };
+
+    // 执行期间控制台与定时器都已接管
+    if (!run.finished) {
+      call();
+      return;
+    }
+    if (!run.report) {
+      callback(...args);
+      return;
+    }
+
+    // 执行结束后：临时接管控制台与定时器，回调中的日志与再次启动的定时器仍归属到 run
+    const capture = createConsoleCapture(run.code, run.sourceUrl);
+    const restoreConsole = this.installConsole(capture.methods);
+    const restoreTimers = this.installGlobals(this.createTimerGlobals(run));
+    try {
+      call();
+    } finally {
+      restoreTimers();
+      restoreConsole();
+      run.report({ logs: capture.entries, errors: [] });
     }
-    if (this.originalConsoleWarn) {
-      console.warn = this.originalConsoleWarn;
+  }
+
+  // 节点代码看到的定时器：回调经 invokeRunCallback 调用，返回值与原生定时器相同，可照常清除
+  private createTimerGlobals(run: NodeRun): Record<string, unknown> {
+    const wrap = (callback: unknown) => (typeof callback === 'function'
+      ? (...args: unknown[]) => this.invokeRunCallback(run, callback as (...args: unknown[]) => unknown, args)
+      : callback);
+
+    const timers: Record<string, unknown> = {
+      setTimeout: (callback: unknown, delay?: number, ...args: unknown[]) =>
+        nativeTimers.setTimeout(wrap(callback) as () => void, delay, ...args),
+      setInterval: (callback: unknown, delay?: number, ...args: unknown[]) =>
+        nativeTimers.setInterval(wrap(callback) as () => void, delay, ...args),
+      queueMicrotask: (callback: unknown) => nativeTimers.queueMicrotask(wrap(callback) as () => void),
+    };
+    const { requestAnimationFrame } = nativeTimers;
+    if (requestAnimationFrame) {
+      timers.requestAnimationFrame = (callback: unknown) => requestAnimationFrame(wrap(callback) as FrameRequestCallback);
     }
+    return timers;
+  }
+
+  // isolated 时两次执行之间的控制台输出同样归属到最近一次执行
+  private setupIdleConsole(run: NodeRun) {
+    const report = run.report;
+    if (!this.isolated || !report) return;
+    const capture = createConsoleCapture(run.code, run.sourceUrl, () => {
+      report({ logs: capture.entries.splice(0), errors: [] });
+    });
+    this.restoreIdleConsole = this.installConsole(capture.methods);
   }
 
   // node_input函数实现 - 支持两种模式
@@ -130,6 +497,7 @@ export class JSExecutor {
     if (typeof control === 'string') {
       const varName = control;
       const defaultValue = nameOrValue;
+      if (this.loadingDependency) return defaultValue;
       
       // 首先尝试从连接的节点获取数据
       if (this.inputValues[varName] !== undefined) {
@@ -170,6 +538,8 @@ export class JSExecutor {
       throw new Error('Invalid control type');
     }
 
+    if (this.loadingDependency) return controlInfo.defaultValue;
+
     const value = this.inputValues[actualName] ?? controlInfo.defaultValue;
     controlInfo.value = value;
 
@@ -189,6 +559,8 @@ export class JSExecutor {
 
   // node_output函数实现 - 新格式：node_output(变量名, 值)
   private node_output = (nameOrValue: string | any, value?: any): void => {
+    if (this.loadingDependency) return;
+
     // if (typeof nameOrValue === 'string' && value !== undefined) {
     //   // 新格式：node_output(变量名, 值)
     //   this.outputs[nameOrValue] = value;
@@ -200,127 +572,384 @@ export class JSExecutor {
 
     // 先换回旧格式
     const actualName = (typeof value === 'string') ? value : `output_${Object.keys(this.outputs).length}`;
+    // 异步生成器等异步可迭代对象作为流输出：每产出一个值就发布一次，最终输出为最后一个值
+    if (isAsyncIterable(nameOrValue)) {
+      this.streams.push({ name: actualName, iterable: nameOrValue });
+      return;
+    }
     this.outputs[actualName] = nameOrValue;
   };
 
-  // 解析错误信息，提取行号和列号
-  private parseError(error: Error, code: string): {
-    message: string;
-    line?: number;
-    column?: number;
-    stack?: string;
-  } {
+  // node_emit(名称, 值)：更新该输出并立即发布当前全部输出，下游随之重新计算；
+  // 返回的 Promise 在下游处理完毕后 resolve，await 它即可获得背压
+  private node_emit = (name: string, value: unknown): Promise<void> => {
+    if (this.loadingDependency) return Promise.resolve();
+    this.outputs[name] = value;
+    return this.emitChannel?.emit() ?? Promise.resolve();
+  };
+
+  // 依次取出流输出的值并产出；被取消时结束迭代
+  private async drainStreams(signal: AbortSignal) {
+    await Promise.all(this.streams.map(async ({ name, iterable }) => {
+      const iterator = iterable[Symbol.asyncIterator]();
+      try {
+        while (!signal.aborted) {
+          const { value, done } = await Promise.race([iterator.next(), createAbortRace(signal)]);
+          if (done) break;
+          await this.node_emit(name, value);
+        }
+      } finally {
+        if (signal.aborted) void iterator.return?.();
+      }
+    }));
+  }
+
+  // 解析运行时错误，按本节点的 sourceURL 从调用栈中定位行列与高亮范围
+  private parseError(error: Error, code = this.currentCode, sourceUrl = this.currentSourceUrl): SourceDiagnostic {
     const stack = error.stack || '';
     const message = error.message || '未知错误';
-    
-    // 尝试从栈信息中提取行号和列号
-    let line: number | undefined;
-    let column: number | undefined;
-    
-    // 对于语法错误，尝试从错误消息中提取行号
+
+    // 预解析已排除绝大多数语法错误；剩余的（如引擎特有的早期错误）只能从消息中尽量提取位置
     if (error instanceof SyntaxError) {
-      // JavaScript语法错误通常在消息中包含行号信息
-      const syntaxLineMatch = message.match(/line (\d+)/i) || message.match(/(\d+):(\d+)/);
-      if (syntaxLineMatch) {
-        line = parseInt(syntaxLineMatch[1], 10);
-        if (syntaxLineMatch[2]) {
-          column = parseInt(syntaxLineMatch[2], 10);
+      const syntaxLineMatch = message.match(/line (\d+)/i);
+      const line = syntaxLineMatch ? parseInt(syntaxLineMatch[1], 10) : undefined;
+      return { message, line, stack };
+    }
+
+    return {
+      message,
+      ...findStackLocation(stack, code, sourceUrl),
+      stack,
+    };
+  }
+
+  // 执行期间临时安装全局变量，返回恢复函数；原有同名属性在执行结束后原样恢复
+  private installGlobals(globals: Record<string, unknown>) {
+    const saved = Object.keys(globals).map((name) => ({
+      name,
+      descriptor: Object.getOwnPropertyDescriptor(globalThis, name),
+    }));
+    saved.forEach(({ name }) => {
+      Object.defineProperty(globalThis, name, {
+        value: globals[name],
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    });
+
+    return () => {
+      saved.forEach(({ name, descriptor }) => {
+        if (descriptor) {
+          Object.defineProperty(globalThis, name, descriptor);
+        } else {
+          Reflect.deleteProperty(globalThis, name);
         }
+      });
+    };
+  }
+
+  // 按依赖顺序实例化被导入的模块节点，返回按节点名索引的导出表
+  // 模块在本执行器中以各自的 sourceURL 重新执行一遍，导出的函数、类因此可以直接调用
+  private async instantiateModules(modules: NodeModuleSource[], signal: AbortSignal) {
+    const registry = new Map<string, Record<string, unknown>>();
+    (globalThis as Record<string, unknown>)[NODE_IMPORT_FUNCTION] = (name: string) => {
+      const exports = registry.get(name);
+      if (!exports) throw new Error(`找不到名为 "${name}" 的模块节点`);
+      return exports;
+    };
+
+    for (const module of modules) {
+      const compiled = compileNodeModule(module.code);
+      if (!compiled) throw new NodeModuleError(`节点 "${module.name}" 不是模块节点（没有 export 声明）`);
+      if ('error' in compiled) {
+        const position = compiled.error.line !== undefined ? `第 ${compiled.error.line} 行：` : '';
+        throw new NodeModuleError(`模块 "${module.name}" 存在错误，${position}${compiled.error.message}`);
       }
-    } else {
-      // 对于运行时错误，从堆栈中提取行号
-      // 匹配 eval 调用的行号和列号，特别是 <anonymous>:line:column 格式
-      const evalMatch = stack.match(/<anonymous>:(\d+):(\d+)/) || stack.match(/eval.*?:(\d+):(\d+)/);
-      if (evalMatch) {
-        line = parseInt(evalMatch[1], 10);
-        column = parseInt(evalMatch[2], 10);
-        
-        // 对于eval中的代码，行号就是用户代码中的行号
-        // 不需要额外调整，因为eval的代码就是用户的原始代码
-      } else {
-        // 尝试其他格式的行号匹配
-        const lineMatch = stack.match(/(\d+):(\d+)/);
-        if (lineMatch) {
-          line = parseInt(lineMatch[1], 10);
-          column = parseInt(lineMatch[2], 10);
+
+      const exports = await this.evaluateDependency(
+        `模块 "${module.name}"`,
+        compiled.code,
+        createNodeSourceUrl(module.sourceName ?? module.name),
+        createModuleExportSuffix(compiled.exports),
+        signal,
+      );
+      registry.set(module.name, exports ?? {});
+    }
+  }
+
+  // 按依赖顺序依次执行共享库，每个共享库的顶层定义执行后立即注入，后执行的共享库可以引用先执行的；
+  // 同名定义以先执行的共享库为准，shadowed 中已有的名字不注入。返回撤销全部注入的恢复函数
+  private async instantiateLibraries(libraries: NodeLibrarySource[], shadowed: Record<string, unknown>, signal: AbortSignal) {
+    const installed = new Set(Object.keys(shadowed));
+    const restores: (() => void)[] = [];
+    const restoreAll = () => restores.reverse().forEach((restore) => restore());
+    try {
+      for (const library of libraries) {
+        const syntaxError = checkNodeSyntax(library.code);
+        if (syntaxError) {
+          const position = syntaxError.line !== undefined ? `第 ${syntaxError.line} 行：` : '';
+          throw new NodeModuleError(`共享库存在错误，${position}${syntaxError.message}`);
         }
+
+        const exported = await this.evaluateDependency(
+          '共享库',
+          library.code,
+          createNodeSourceUrl(library.sourceName),
+          createExportSuffix(library.exportNames),
+          signal,
+        );
+        const definitions = Object.fromEntries(
+          Object.entries(exported ?? {}).filter(([name]) => !installed.has(name)),
+        );
+        Object.keys(definitions).forEach((name) => installed.add(name));
+        restores.push(this.installGlobals(definitions));
       }
+    } catch (error) {
+      restoreAll();
+      throw error;
     }
-    
-    // 如果提取到了行号，确保它在有效范围内
-    if (line !== undefined) {
-      const codeLines = code.split('\n').length;
-      if (line > codeLines) {
-        // 如果行号超出代码范围，可能是因为执行环境的额外代码，重置为undefined
-        line = undefined;
-        column = undefined;
-      }
+    return restoreAll;
+  }
+
+  // 以依赖模式执行一段被依赖的代码（模块或共享库），返回其 return 的导出表
+  private async evaluateDependency(label: string, body: string, sourceUrl: string, suffix: string, signal: AbortSignal) {
+    this.loadingDependency = true;
+    try {
+      return await Promise.race([
+        evaluateNodeScript(compileNodeSource(body, sourceUrl, suffix)),
+        createAbortRace(signal),
+      ]);
+    } catch (error) {
+      if (error instanceof EvalAbortError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new NodeModuleError(`${label}初始化失败：${message}`);
+    } finally {
+      this.loadingDependency = false;
     }
-    
-    return {
-      message,
-      line,
-      column,
-      stack: stack
-    };
   }
 
   // 执行JS代码 - 简化版本，无沙箱限制
-  public async executeCode(code: string, inputValues: Record<string, any> = {}): Promise<ExecutionResult> {
+  // 代码作为 async 函数体执行：会等待其完成（含 await 之后的 node_output）再收集输出
+  // signal 以 node_signal 全局变量暴露给节点代码；触发后本次执行以“已取消”错误结束
+  // globals 在执行期间可作为自由变量直接引用；exportNames 中的顶层定义在结束后经 result.globals 返回
+  // 执行前先预解析，语法错误不进入 eval，直接以带范围的错误返回
+  // 含 import/export 声明的代码按模块节点编译：先实例化 modules，再执行改写后的函数体
+  // libraries 按依赖顺序在 modules 之前执行，其顶层定义对后续的共享库、模块与本节点代码都可见
+  // time 为画布时钟的当前时间，节点代码通过 node_time() 读取
+  // node_random() 按 randomSeed 产生可复现的随机数；replaceMathRandom 时 Math.random 与它共用同一个序列
+  // referenceInputs 中的输入按引用传入，见 guardReferenceInputs
+  // node_emit 与异步生成器输出在执行中途经 onEmit 发布中间结果；代码执行完后继续迭代流输出，全部结束才返回
+  // 代码启动的定时器、微任务与动画帧回调归属到本次执行：其中的错误记入错误列表，结束后产生的日志与错误经 onLateReport 回报
+  // inlineValues 时执行改写后的代码以记录顶层语句的值；改写不改变行号，错误仍按原代码定位
+  public async executeCode(
+    code: string,
+    inputValues: Record<string, any> = {},
+    options: ExecuteCodeOptions = {},
+  ): Promise<ExecutionResult> {
+    const {
+      signal = new AbortController().signal,
+      globals = {},
+      exportNames = [],
+      sourceName,
+      modules = [],
+      libraries = [],
+      time = 0,
+      randomSeed = 0,
+      replaceMathRandom = false,
+      referenceInputs = [],
+      onEmit,
+      onLateReport,
+      inlineValues = false,
+    } = options;
+
+    const compiledModule = compileNodeModule(code);
+    const syntaxError = compiledModule
+      ? ('error' in compiledModule ? compiledModule.error : null)
+      : checkNodeSyntax(code);
+    if (syntaxError) {
+      return {
+        success: false,
+        outputs: {},
+        controls: [],
+        logs: [],
+        errors: [syntaxError],
+        warnings: [],
+      };
+    }
+    // 模块节点的顶层定义只经由 export 对外提供
+    const body = compiledModule && !('error' in compiledModule) ? compiledModule.code : code;
+    const suffix = compiledModule ? '' : createExportSuffix(exportNames);
+    const lineValues: NodeLineValues | undefined = inlineValues ? {} : undefined;
+    const executedBody = inlineValues ? instrumentInlineValues(body) ?? body : body;
 
     // 重置状态
+    this.restoreIdleConsole();
+    this.restoreIdleConsole = () => {};
     this.logs = [];
     this.warnings = [];
+    this.errors = [];
     this.outputs = {};
     this.controls = [];
-    this.inputValues = inputValues;
+    this.streams = [];
+    const guard = REFERENCE_GUARD_ENABLED && referenceInputs.length > 0 ? createReferenceGuard() : null;
+    this.inputValues = guard ? guardReferenceInputs(guard, inputValues, referenceInputs) : inputValues;
+    this.currentCode = code;
+    this.currentSourceUrl = createNodeSourceUrl(sourceName);
+    const run: NodeRun = {
+      code,
+      sourceUrl: this.currentSourceUrl,
+      finished: false,
+      report: onLateReport && createLateReporter(onLateReport),
+    };
+    this.lastRun = run;
+    // 发布的是输出的快照；输出里可能引用了按引用传入的只读视图，同样先换回真实的值
+    this.emitChannel = onEmit
+      ? createEmitChannel(() => onEmit(guard ? guard.unwrap({ ...this.outputs }) : { ...this.outputs }))
+      : null;
+    const restoreGlobals = this.installGlobals(globals);
+    const restoreTimers = this.installGlobals(this.createTimerGlobals(run));
+    // 只读视图无法被原生 structuredClone 克隆，执行期间换成先取回真实值再克隆的版本
+    const restoreGuardGlobals = guard
+      ? this.installGlobals({ structuredClone: createGuardedStructuredClone(guard) })
+      : () => {};
+    let restoreLibraryGlobals = () => {};
+    // 共享库与模块在本节点的执行中运行，与节点代码共用同一个生成器
+    const random = createSeededRandom(randomSeed);
+    const nativeMathRandom = Math.random;
 
     try {
       // 设置控制台拦截
       this.setupConsole();
+      this.setupRejectionTracking();
 
       // 创建全局变量供代码使用
-      (window as any).node_input = this.node_input;
-      (window as any).node_output = this.node_output;
-      (window as any).Slider = Slider;
-      (window as any).InputBox = InputBox;
-      (window as any).Switch = Switch;
+      (globalThis as any).node_input = this.node_input;
+      (globalThis as any).node_output = this.node_output;
+      (globalThis as Record<string, unknown>).node_emit = this.node_emit;
+      (globalThis as any).Slider = Slider;
+      (globalThis as any).InputBox = InputBox;
+      (globalThis as any).Switch = Switch;
+      (globalThis as any).node_signal = signal;
+      (globalThis as Record<string, unknown>).node_time = () => time;
+      (globalThis as Record<string, unknown>).node_random = random;
+      if (replaceMathRandom) Math.random = random;
+      if (lineValues) (globalThis as Record<string, unknown>)[NODE_INLINE_VALUE_FUNCTION] = createInlineValueRecorder(lineValues);
 
-      // 直接执行代码
-      eval(code);
+      restoreLibraryGlobals = await this.instantiateLibraries(libraries, globals, signal);
+      await this.instantiateModules(modules, signal);
 
-      return {
+      // 以 async 函数体执行代码，并等待其完成或被取消
+      const exported = await Promise.race([
+        evaluateNodeScript(compileNodeSource(executedBody, this.currentSourceUrl, suffix)),
+        createAbortRace(signal),
+      ]);
+      await this.drainStreams(signal);
+      await Promise.race([this.emitChannel?.flush(), createAbortRace(signal)]);
+      await flushMacrotask();
+
+      const result: ExecutionResult = {
         success: true,
         outputs: this.outputs,
         controls: this.controls,
         logs: this.logs,
-        warnings: this.warnings
+        errors: this.errors,
+        warnings: this.warnings,
+        globals: !compiledModule && exportNames.length > 0 && exported && typeof exported === 'object' ? exported : {},
+        lineValues,
       };
+      return guard ? settleReferenceGuard(guard, result) : result;
 
     } catch (error) {
-      const errorInfo = this.parseError(error as Error, code);
-      
+      if (error instanceof EvalAbortError) {
+        return {
+          success: false,
+          outputs: {},
+          controls: [],
+          logs: this.logs,
+          errors: [{ message: error.message }],
+          warnings: guard ? [...this.warnings, ...createMutationWarnings(guard)] : this.warnings
+        };
+      }
+
+      // 被 await 的 Promise 拒绝时，拒绝原因可能不是 Error 实例；模块实例化失败不在本节点内定位
+      const errorInfo = error instanceof NodeModuleError
+        ? { message: error.message }
+        : error instanceof Error
+          ? this.parseError(error)
+          : { message: `Promise 被拒绝：${String(error)}` };
+
       return {
         success: false,
         outputs: {},
         controls: [],
         logs: this.logs,
-        errors: [errorInfo],
-        warnings: this.warnings
+        errors: [errorInfo, ...this.errors],
+        warnings: guard ? [...this.warnings, ...createMutationWarnings(guard)] : this.warnings,
+        lineValues,
       };
     } finally {
       // 恢复控制台
       this.restoreConsole();
+      this.restoreRejectionTracking();
+      restoreLibraryGlobals();
+      restoreGuardGlobals();
+      restoreTimers();
+      restoreGlobals();
+      run.finished = true;
+      this.setupIdleConsole(run);
       
       // 清理全局变量
-      delete (window as any).node_input;
-      delete (window as any).node_output;
-      delete (window as any).Slider;
-      delete (window as any).InputBox;
-      delete (window as any).Switch;
+      delete (globalThis as any).node_input;
+      delete (globalThis as any).node_output;
+      delete (globalThis as Record<string, unknown>).node_emit;
+      this.emitChannel = null;
+      delete (globalThis as any).Slider;
+      delete (globalThis as any).InputBox;
+      delete (globalThis as any).Switch;
+      delete (globalThis as any).node_signal;
+      delete (globalThis as Record<string, unknown>).node_time;
+      delete (globalThis as Record<string, unknown>).node_random;
+      Math.random = nativeMathRandom;
+      delete (globalThis as Record<string, unknown>)[NODE_IMPORT_FUNCTION];
+      delete (globalThis as Record<string, unknown>)[NODE_INLINE_VALUE_FUNCTION];
     }
   }
 }
 
+// 按引用传入的输入换成只读视图；其余输入原样保留
+const guardReferenceInputs = (
+  guard: ReferenceGuard,
+  inputValues: Record<string, unknown>,
+  referenceInputs: string[],
+): Record<string, unknown> => {
+  const guarded = { ...inputValues };
+  referenceInputs.forEach((name) => {
+    if (name in guarded) guarded[name] = guard.guard(guarded[name], name);
+  });
+  return guarded;
+};
+
+const createGuardedStructuredClone = (guard: ReferenceGuard) => {
+  const nativeStructuredClone = globalThis.structuredClone;
+  return <T,>(value: T, options?: StructuredSerializeOptions): T => nativeStructuredClone(guard.unwrap(value), options);
+};
+
+const createMutationWarnings = (guard: ReferenceGuard): SourceDiagnostic[] => {
+  const paths = guard.getMutations();
+  if (paths.length === 0) return [];
+  return [{
+    message: `按引用传入的输入不可修改，已忽略对 ${paths.join('、')} 的修改；如需修改请先复制（例如 structuredClone）`,
+  }];
+};
+
+// 输出与顶层定义中可能直接引用了输入的只读视图，返回前换回真实的值
+const settleReferenceGuard = (guard: ReferenceGuard, result: ExecutionResult): ExecutionResult => ({
+  ...result,
+  outputs: guard.unwrap(result.outputs),
+  globals: result.globals && guard.unwrap(result.globals),
+  warnings: [...(result.warnings ?? []), ...createMutationWarnings(guard)],
+});
+
 // 单例执行器
 export const jsExecutor = new JSExecutor(); 
\ No newline at end of file
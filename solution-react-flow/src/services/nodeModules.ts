@@ -0,0 +1,214 @@
+import { parse, type ModuleDeclaration, type Node, type Options, type Pattern, type Statement } from 'acorn';
+import { NODE_PARSE_OPTIONS, getTokenRange, offsetToPosition, toSyntaxDiagnostic, type SourceDiagnostic } from './nodeSource';
+
+/**
+ * 模块节点：
+ * - 代码中出现顶层 import / export 声明的 TextNode 视为 ES 模块；
+ * - `import { f } from "@node/节点名"` 按节点名引用其他模块节点的导出；
+ * - 模块代码被改写为普通的函数体再执行：import 声明替换为从模块表中取值的 const 声明，
+ *   export 关键字被抹去，导出表在函数体末尾以 return 返回；
+ * - 改写只在原位置替换字符并保留换行，节点代码的行号保持不变。
+ *
+ * 函数、类无法跨 Worker 传递，因此导入方会在自己的执行环境中按源码重新实例化被导入的模块，
+ * 而不是接收对方执行后的值。
+ */
+
+export const NODE_MODULE_PREFIX = '@node/';
+
+// 执行器在执行期间注入的模块表访问函数，改写后的 import 声明通过它取得导出
+export const NODE_IMPORT_FUNCTION = '__node_import__';
+
+// export default 的值在改写后绑定到这个名字
+const DEFAULT_EXPORT_LOCAL = '__def__';
+
+// 导入方需要在执行前实例化的模块（按依赖顺序排列，被依赖者在前）
+export interface NodeModuleSource {
+  // 导入时使用的节点名
+  name: string;
+  code: string;
+  // 编译时的 sourceURL 名字（通常为节点 id）
+  sourceName?: string;
+}
+
+export interface CompiledNodeModule {
+  // 改写后的函数体
+  code: string;
+  // 引用的节点名（去掉 @node/ 前缀，按出现顺序去重）
+  imports: string[];
+  // 导出名 -> 函数体内的局部名
+  exports: Record<string, string>;
+}
+
+export type NodeModuleCompileResult = CompiledNodeModule | { error: SourceDiagnostic };
+
+const MODULE_SYNTAX_PATTERN = /^\s*(import|export)\b/m;
+
+export const NODE_MODULE_PARSE_OPTIONS: Options = { ...NODE_PARSE_OPTIONS, sourceType: 'module' };
+
+const isModuleDeclaration = (node: Statement | ModuleDeclaration): node is ModuleDeclaration =>
+  node.type === 'ImportDeclaration'
+  || node.type === 'ExportNamedDeclaration'
+  || node.type === 'ExportDefaultDeclaration'
+  || node.type === 'ExportAllDeclaration';
+
+const collectBindingNames = (pattern: Pattern, names: string[]) => {
+  switch (pattern.type) {
+    case 'Identifier':
+      names.push(pattern.name);
+      return;
+    case 'ObjectPattern':
+      pattern.properties.forEach((property) => {
+        collectBindingNames(property.type === 'RestElement' ? property.argument : property.value, names);
+      });
+      return;
+    case 'ArrayPattern':
+      pattern.elements.forEach((element) => {
+        if (element) collectBindingNames(element, names);
+      });
+      return;
+    case 'AssignmentPattern':
+      collectBindingNames(pattern.left, names);
+      return;
+    case 'RestElement':
+      collectBindingNames(pattern.argument, names);
+      return;
+  }
+};
+
+const getModuleExportName = (node: { type: string; name?: string; value?: unknown }) =>
+  node.type === 'Identifier' ? node.name! : String(node.value);
+
+class ModuleSyntaxError extends Error {
+  constructor(message: string, public readonly node: Node) {
+    super(message);
+  }
+}
+
+// 节点名取自 "@node/<节点名>"；其他来源暂不支持
+const getImportedNodeName = (source: { value?: unknown } & Node) => {
+  const specifier = String(source.value);
+  if (!specifier.startsWith(NODE_MODULE_PREFIX) || specifier.length === NODE_MODULE_PREFIX.length) {
+    throw new ModuleSyntaxError(`只支持从 "${NODE_MODULE_PREFIX}<节点名>" 导入`, source);
+  }
+  return specifier.slice(NODE_MODULE_PREFIX.length);
+};
+
+const createImportReplacement = (declaration: Extract<ModuleDeclaration, { type: 'ImportDeclaration' }>, nodeName: string) => {
+  const access = `${NODE_IMPORT_FUNCTION}(${JSON.stringify(nodeName)})`;
+  if (declaration.specifiers.length === 0) return `${access};`;
+
+  const properties: string[] = [];
+  const declarators: string[] = [];
+  declaration.specifiers.forEach((specifier) => {
+    if (specifier.type === 'ImportNamespaceSpecifier') {
+      declarators.push(`${specifier.local.name} = ${access}`);
+    } else if (specifier.type === 'ImportDefaultSpecifier') {
+      properties.push(`default: ${specifier.local.name}`);
+    } else {
+      const imported = getModuleExportName(specifier.imported);
+      properties.push(imported === specifier.local.name
+        ? imported
+        : `${JSON.stringify(imported)}: ${specifier.local.name}`);
+    }
+  });
+  if (properties.length > 0) declarators.unshift(`{ ${properties.join(', ')} } = ${access}`);
+  return `const ${declarators.join(', ')};`;
+};
+
+// 只包含模块声明的代码才按模块处理：快速排除普通节点，再以模块模式解析确认
+export const isNodeModuleCode = (code: string) => MODULE_SYNTAX_PATTERN.test(code);
+
+/**
+ * 把模块节点代码改写为可执行的函数体。
+ * 不是模块代码时返回 null；模块代码存在语法错误或不支持的写法时返回带位置的错误。
+ */
+export const compileNodeModule = (code: string): NodeModuleCompileResult | null => {
+  if (!isNodeModuleCode(code)) return null;
+
+  let body: Array<Statement | ModuleDeclaration>;
+  try {
+    body = parse(code, NODE_MODULE_PARSE_OPTIONS).body;
+  } catch (error) {
+    return { error: toSyntaxDiagnostic(error, code) };
+  }
+  const declarations = body.filter(isModuleDeclaration);
+  if (declarations.length === 0) return null;
+
+  const chars = code.split('');
+  const imports: string[] = [];
+  const exports: Record<string, string> = {};
+
+  // 把 [start, end) 替换为 replacement，剩余位置填空格，保留原有换行
+  const replaceRange = (start: number, end: number, replacement = '') => {
+    for (let index = start; index < end; index++) {
+      if (chars[index] !== '\n') chars[index] = ' ';
+    }
+    if (!replacement) return;
+    const firstLineEnd = code.indexOf('\n', start);
+    const available = (firstLineEnd === -1 || firstLineEnd > end ? end : firstLineEnd) - start;
+    // 替换文本比原文第一行短时原位覆盖；否则把多出的部分并入最后一个字符（只影响该行之后的列号）
+    if (replacement.length <= available) {
+      replacement.split('').forEach((char, offset) => {
+        chars[start + offset] = char;
+      });
+    } else {
+      chars[start] = replacement;
+      for (let index = start + 1; index < start + available; index++) chars[index] = '';
+    }
+  };
+
+  try {
+    declarations.forEach((declaration) => {
+      switch (declaration.type) {
+        case 'ImportDeclaration': {
+          const nodeName = getImportedNodeName(declaration.source);
+          if (!imports.includes(nodeName)) imports.push(nodeName);
+          replaceRange(declaration.start, declaration.end, createImportReplacement(declaration, nodeName));
+          return;
+        }
+        case 'ExportNamedDeclaration': {
+          if (declaration.source) {
+            throw new ModuleSyntaxError('暂不支持 export ... from 形式的转导出', declaration);
+          }
+          if (declaration.declaration) {
+            const inner = declaration.declaration;
+            const names: string[] = [];
+            if (inner.type === 'VariableDeclaration') {
+              inner.declarations.forEach((declarator) => collectBindingNames(declarator.id, names));
+            } else {
+              names.push(inner.id.name);
+            }
+            names.forEach((name) => {
+              exports[name] = name;
+            });
+            replaceRange(declaration.start, inner.start);
+            return;
+          }
+          declaration.specifiers.forEach((specifier) => {
+            exports[getModuleExportName(specifier.exported)] = getModuleExportName(specifier.local);
+          });
+          replaceRange(declaration.start, declaration.end);
+          return;
+        }
+        case 'ExportDefaultDeclaration':
+          exports.default = DEFAULT_EXPORT_LOCAL;
+          replaceRange(declaration.start, declaration.declaration.start, `const ${DEFAULT_EXPORT_LOCAL} =`);
+          return;
+        case 'ExportAllDeclaration':
+          throw new ModuleSyntaxError('暂不支持 export * from 形式的转导出', declaration);
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof ModuleSyntaxError)) throw error;
+    const { line, column } = offsetToPosition(code, error.node.start);
+    return { error: { message: error.message, ...getTokenRange(code, line, column) } };
+  }
+
+  return { code: chars.join(''), imports, exports };
+};
+
+// 在函数体末尾返回导出表
+export const createModuleExportSuffix = (exports: Record<string, string>) => {
+  const entries = Object.entries(exports).map(([exported, local]) => `${JSON.stringify(exported)}: ${local}`);
+  return `\n;return { ${entries.join(', ')} };`;
+};
@@ -0,0 +1,116 @@
+import { parse, type Options } from 'acorn';
+
+/**
+ * 节点代码的编译与源码位置：
+ * - 节点代码包装为 async 函数体、以严格模式执行，包装前缀与用户代码同处第一行，因此行号不变，
+ *   只有第一行的列号需要扣除前缀长度；
+ * - 每个节点以独立的 //# sourceURL 编译，调用栈中可以按 URL 找到属于该节点的帧，
+ *   即使错误发生在其他节点定义的函数里，也能定位到本节点的调用处；
+ * - 执行前先用 acorn 预解析，语法错误直接给出准确的位置与范围。
+ */
+
+// 脚本以间接 eval 执行，不再继承所在模块的严格模式，由前缀中的指令显式开启
+export const ASYNC_WRAPPER_PREFIX = '"use strict";(async () => {';
+const ASYNC_WRAPPER_SUFFIX = '\n})()';
+
+// 与执行时的包装语义一致：允许顶层 await 与顶层 return
+export const NODE_PARSE_OPTIONS: Options = {
+  ecmaVersion: 'latest',
+  sourceType: 'script',
+  allowReturnOutsideFunction: true,
+  allowAwaitOutsideFunction: true,
+};
+
+// 代码中的一段范围；行、列均从 1 开始，end 指向范围之后的位置
+export interface SourceRange {
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+export interface SourceDiagnostic extends SourceRange {
+  message: string;
+  stack?: string;
+}
+
+const DEFAULT_SOURCE_NAME = 'anonymous';
+
+export const createNodeSourceUrl = (sourceName = DEFAULT_SOURCE_NAME) =>
+  `canvas-node/${encodeURIComponent(sourceName)}.js`;
+
+// 组装最终交给 eval 的脚本；suffix 位于用户代码之后（如读取顶层定义的 return 语句）
+export const compileNodeSource = (code: string, sourceUrl: string, suffix = '') =>
+  `${ASYNC_WRAPPER_PREFIX}${code}${suffix}${ASYNC_WRAPPER_SUFFIX}\n//# sourceURL=${sourceUrl}`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 位置所在的单词（标识符、数字）视为高亮范围，其他字符只高亮一个字符
+const WORD_PATTERN = /[\w$]+/y;
+
+export const getTokenRange = (code: string, line: number, column: number): Required<SourceRange> => {
+  const lineText = code.split('\n')[line - 1] ?? '';
+  WORD_PATTERN.lastIndex = column - 1;
+  const match = WORD_PATTERN.exec(lineText);
+  const length = match ? match[0].length : 1;
+  return { line, column, endLine: line, endColumn: column + length };
+};
+
+/**
+ * 在调用栈中找到属于节点代码的第一帧，返回其在用户代码中的位置。
+ * 优先匹配本节点的 sourceURL；不支持 sourceURL 的环境回退到 eval 帧的通用格式
+ * （V8 为 <anonymous>，Firefox 为 "> eval"）。超出代码范围的位置（包装代码）视为未知。
+ */
+export const findStackLocation = (stack: string, code: string, sourceUrl: string): SourceRange => {
+  const match = stack.match(new RegExp(`${escapeRegExp(sourceUrl)}:(\\d+):(\\d+)`))
+    || stack.match(/<anonymous>:(\d+):(\d+)/)
+    || stack.match(/> eval:(\d+):(\d+)/);
+  if (!match) return {};
+
+  const line = parseInt(match[1], 10);
+  let column = parseInt(match[2], 10);
+  if (line > code.split('\n').length) return {};
+  if (line === 1) {
+    column = Math.max(1, column - ASYNC_WRAPPER_PREFIX.length);
+  }
+  return getTokenRange(code, line, column);
+};
+
+interface AcornSyntaxError extends SyntaxError {
+  pos: number;
+  raisedAt: number;
+  loc: { line: number; column: number };
+}
+
+const isAcornSyntaxError = (error: unknown): error is AcornSyntaxError =>
+  error instanceof SyntaxError && typeof (error as Partial<AcornSyntaxError>).loc?.line === 'number';
+
+export const offsetToPosition = (code: string, offset: number) => {
+  const before = code.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+// 把 acorn 的语法错误转为带范围的诊断信息；其他错误原样抛出
+export const toSyntaxDiagnostic = (error: unknown, code: string): SourceDiagnostic => {
+  if (!isAcornSyntaxError(error)) throw error;
+
+  // acorn 的消息末尾带有 "(行:列)"，位置已单独给出
+  const message = error.message.replace(/\s*\(\d+:\d+\)$/, '');
+  const line = error.loc.line;
+  const column = error.loc.column + 1;
+  if (error.raisedAt > error.pos) {
+    const end = offsetToPosition(code, error.raisedAt);
+    return { message, line, column, endLine: end.line, endColumn: end.column };
+  }
+  return { message, ...getTokenRange(code, line, column) };
+};
+
+// 预解析节点代码；存在语法错误时返回带范围的诊断信息，否则返回 null
+export const checkNodeSyntax = (code: string): SourceDiagnostic | null => {
+  try {
+    parse(code, NODE_PARSE_OPTIONS);
+    return null;
+  } catch (error) {
+    return toSyntaxDiagnostic(error, code);
+  }
+};
@@ -0,0 +1,186 @@
+import { parse, type AnyNode, type Program } from 'acorn';
+import { NODE_PARSE_OPTIONS } from './nodeSource';
+import { PORTABLE_TAG, isPortableValue } from './portableValues';
+
+/**
+ * 端口类型：
+ * - 节点以 node_output(值, "名称", "类型") 声明输出类型，以 node_input("名称", 默认值, "类型") 声明期望的输入类型；
+ * - 声明从代码中静态提取（只识别字符串字面量），不需要先执行节点，连线时即可检查两端是否兼容；
+ * - 执行前按声明检查上游传入的值，执行后检查节点自身的输出，不符时分别记为错误与警告；
+ * - 没有声明类型的端口不做任何检查。
+ */
+
+export type PortType = 'number' | 'string' | 'boolean' | 'array' | 'points' | 'desmos' | 'function' | 'object' | 'any';
+
+export const PORT_TYPE_LABELS: Record<PortType, string> = {
+  number: '数值',
+  string: '字符串',
+  boolean: '布尔值',
+  array: '数组',
+  points: '点列（[x, y] 或 { x, y } 的数组）',
+  desmos: 'Desmos 状态',
+  function: '函数',
+  object: '对象',
+  any: '任意',
+};
+
+export const isPortType = (value: unknown): value is PortType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PORT_TYPE_LABELS, value);
+
+export interface NodePortTypes {
+  inputs: Record<string, PortType>;
+  outputs: Record<string, PortType>;
+  // 声明了、但不是已知类型的名字，例如拼错的 "numbr"
+  unknown: string[];
+}
+
+// 两端的类型不兼容的一对端口
+export interface PortTypeMismatch {
+  outputName: string;
+  inputName: string;
+  outputType: PortType;
+  inputType: PortType;
+}
+
+const isPoint = (item: unknown) => {
+  if (Array.isArray(item)) return item.length === 2 && item.every((value) => typeof value === 'number');
+  if (item === null || typeof item !== 'object') return false;
+  const { x, y } = item as { x?: unknown; y?: unknown };
+  return typeof x === 'number' && typeof y === 'number';
+};
+
+const isPlainObject = (value: unknown) =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !isPortableValue(value);
+
+// 值是否符合端口类型；值按 portableValues 编码，函数以可移植的描述出现
+export const matchesPortType = (type: PortType, value: unknown): boolean => {
+  switch (type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return typeof value === type;
+    case 'array':
+      return Array.isArray(value);
+    case 'points':
+      return Array.isArray(value) && value.every(isPoint);
+    case 'desmos': {
+      if (!isPlainObject(value)) return false;
+      const expressions = (value as { expressions?: { list?: unknown } }).expressions;
+      return Array.isArray(expressions?.list);
+    }
+    case 'function':
+      return typeof value === 'function' || (isPortableValue(value) && value[PORTABLE_TAG] === 'function');
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'any':
+      return true;
+  }
+};
+
+// 错误信息中描述实际值的类型
+export const describeValueType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (isPortableValue(value)) return value[PORTABLE_TAG] === 'function' ? 'function' : value.className || 'object';
+  return Array.isArray(value) ? 'array' : typeof value;
+};
+
+// 输出类型能否接入输入类型：点列也是数组，Desmos 状态也是对象
+export const isPortTypeAssignable = (outputType: PortType, inputType: PortType) =>
+  outputType === inputType
+  || outputType === 'any'
+  || inputType === 'any'
+  || (outputType === 'points' && inputType === 'array')
+  || (outputType === 'desmos' && inputType === 'object');
+
+const forEachChild = (node: AnyNode, visit: (child: AnyNode) => void) => {
+  Object.values(node as unknown as Record<string, unknown>).forEach((value) => {
+    const children = Array.isArray(value) ? value : [value];
+    children.forEach((child) => {
+      if (child && typeof child === 'object' && typeof (child as AnyNode).type === 'string') visit(child as AnyNode);
+    });
+  });
+};
+
+const readStringLiteral = (node: AnyNode | undefined) =>
+  node?.type === 'Literal' && typeof node.value === 'string' ? node.value : undefined;
+
+// 模块节点含 import/export 声明，按脚本解析失败时再按模块解析
+const parsePortSource = (code: string): Program | null => {
+  try {
+    return parse(code, NODE_PARSE_OPTIONS);
+  } catch {
+    try {
+      return parse(code, { ...NODE_PARSE_OPTIONS, sourceType: 'module' });
+    } catch {
+      return null;
+    }
+  }
+};
+
+const collectPortTypes = (code: string): NodePortTypes => {
+  const types: NodePortTypes = { inputs: {}, outputs: {}, unknown: [] };
+  const program = parsePortSource(code);
+  if (!program) return types;
+
+  const declare = (target: Record<string, PortType>, name: string | undefined, type: string | undefined) => {
+    if (name === undefined || type === undefined) return;
+    if (isPortType(type)) {
+      target[name] = type;
+    } else if (!types.unknown.includes(type)) {
+      types.unknown.push(type);
+    }
+  };
+
+  const visit = (node: AnyNode): void => {
+    if (node.type === 'CallExpression' && node.callee.type === 'Identifier') {
+      const [first, second, third] = node.arguments as AnyNode[];
+      if (node.callee.name === 'node_output') {
+        declare(types.outputs, readStringLiteral(second), readStringLiteral(third));
+      } else if (node.callee.name === 'node_input') {
+        declare(types.inputs, readStringLiteral(first), readStringLiteral(third));
+      }
+    }
+    forEachChild(node, visit);
+  };
+  visit(program);
+  return types;
+};
+
+// 画布时钟播放时每帧都要检查，按代码缓存最近的解析结果
+const PORT_TYPE_CACHE_LIMIT = 256;
+const portTypeCache = new Map<string, NodePortTypes>();
+
+// 提取节点代码中声明的端口类型；代码存在语法错误时视为没有声明
+export const extractPortTypes = (code: string): NodePortTypes => {
+  const cached = portTypeCache.get(code);
+  if (cached) return cached;
+
+  const types = collectPortTypes(code);
+  portTypeCache.set(code, types);
+  if (portTypeCache.size > PORT_TYPE_CACHE_LIMIT) {
+    portTypeCache.delete(portTypeCache.keys().next().value!);
+  }
+  return types;
+};
+
+/**
+ * 连线两端声明的类型是否兼容：
+ * 源节点的每个已声明类型的输出按端口映射（缺省按原名）找到目标节点的输入，两端都有声明且不兼容时记为一处不匹配。
+ */
+export const findPortTypeMismatches = (
+  sourceCode: string,
+  targetCode: string,
+  portMapping?: Record<string, string>,
+): PortTypeMismatch[] => {
+  const { outputs } = extractPortTypes(sourceCode);
+  const { inputs } = extractPortTypes(targetCode);
+  return Object.entries(outputs).flatMap(([outputName, outputType]) => {
+    const inputName = portMapping ? portMapping[outputName] : outputName;
+    const inputType = inputName === undefined ? undefined : inputs[inputName];
+    if (!inputType || isPortTypeAssignable(outputType, inputType)) return [];
+    return [{ outputName, inputName, outputType, inputType }];
+  });
+};
+
+export const formatPortTypeMismatch = ({ outputName, inputName, outputType, inputType }: PortTypeMismatch) =>
+  `输出 "${outputName}"（${outputType}）不能接入输入 "${inputName}"（${inputType}）`;
@@ -0,0 +1,277 @@
+import { parse, type AnyNode, type Expression } from 'acorn';
+import { analyzeNodeSymbols } from './symbolAnalysis';
+import type { SourceDiagnostic } from './nodeSource';
+import { NODE_PARSE_OPTIONS } from './nodeSource';
+import { SANDBOX_ALLOWED_GLOBALS } from './sandbox';
+
+/**
+ * 节点输出的序列化策略：输出离开产生它的执行环境（主线程执行器或节点 Worker）时按以下规则编码，
+ * 进入下游执行环境时再解码，因此两种执行引擎的行为一致：
+ * - 可被 structured clone 的数据原样传递；
+ * - 函数以源码传递，在下游环境中重新求值；函数只能引用白名单内的全局名字（Math、console、node_time 等），
+ *   引用了节点内其他变量的闭包、原生函数与绑定函数无法还原，整个输出被拒绝并给出警告；
+ * - 类实例连同类的源码传递，下游重建该类并恢复实例的自有字段，方法调用与 instanceof 因此可用；
+ *   类本身需要满足与函数相同的要求（例如 extends 的父类同样是外部变量，不能还原）；
+ * - 其他无法克隆的值（Symbol、WeakMap 等）同样拒绝并给出警告。
+ *
+ * 编码结果是普通对象，以 PORTABLE_TAG 字段区分，可以进入 store、被 structured clone、参与缓存键计算。
+ */
+
+export const PORTABLE_TAG = '__portable__';
+
+export interface PortableFunction {
+  [PORTABLE_TAG]: 'function';
+  name: string;
+  source: string;
+}
+
+export interface PortableInstance {
+  [PORTABLE_TAG]: 'instance';
+  className: string;
+  classSource: string;
+  fields: Record<string, unknown>;
+}
+
+export type PortableValue = PortableFunction | PortableInstance;
+
+export const isPortableValue = (value: unknown): value is PortableValue =>
+  typeof value === 'object'
+  && value !== null
+  && ((value as Record<string, unknown>)[PORTABLE_TAG] === 'function'
+    || (value as Record<string, unknown>)[PORTABLE_TAG] === 'instance');
+
+// 函数体内允许引用的自由变量：沙箱白名单内的全局名字
+const PORTABLE_GLOBALS = new Set([...SANDBOX_ALLOWED_GLOBALS, 'arguments']);
+
+/**
+ * 把函数源码解析为可以求值的表达式：
+ * - 函数声明/表达式、箭头函数与类的 toString() 本身就是合法的表达式；
+ * - 对象方法简写（例如 `area() { ... }`）需要包进对象字面量再取出。
+ * 原生函数与绑定函数的源码（`[native code]`）无法解析，返回 null。
+ */
+const toEvaluableSource = (source: string): { expression: string; node: Expression } | null => {
+  const candidates = [`(${source})`, `Object.values({ ${source} })[0]`];
+  for (const expression of candidates) {
+    try {
+      const { body } = parse(expression, NODE_PARSE_OPTIONS);
+      if (body.length === 1 && body[0].type === 'ExpressionStatement') return { expression, node: body[0].expression };
+    } catch {
+      // 尝试下一种形式
+    }
+  }
+  return null;
+};
+
+// 源码中引用的、白名单之外的自由变量
+const findCapturedNames = (expression: string) =>
+  (analyzeNodeSymbols(expression)?.free ?? []).filter((name) => !PORTABLE_GLOBALS.has(name));
+
+const isPlainObject = (value: object) => {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+// 由用户代码中的 class 声明创建的实例；内置类型（Date、Map 等）交给 structured clone
+const getUserClass = (value: object): ((...args: unknown[]) => unknown) | null => {
+  const constructor = Object.getPrototypeOf(value)?.constructor;
+  if (typeof constructor !== 'function') return null;
+  return Function.prototype.toString.call(constructor).startsWith('class') ? constructor : null;
+};
+
+const formatPath = (path: string, key: string) => (/^\d+$/.test(key) ? `${path}[${key}]` : `${path}.${key}`);
+
+class PortableEncodeError extends Error {}
+
+const encodeFunctionSource = (source: string, path: string, kind: string) => {
+  const evaluable = toEvaluableSource(source);
+  if (!evaluable) {
+    throw new PortableEncodeError(`${path} 是原生或绑定${kind}，无法传给其他节点`);
+  }
+  const captured = findCapturedNames(evaluable.expression);
+  if (captured.length > 0) {
+    throw new PortableEncodeError(
+      `${path} 引用了节点中的变量 ${captured.join('、')}，闭包无法传给其他节点；可把这些变量移入${kind}内部，或改用模块节点导出`,
+    );
+  }
+};
+
+const encodeValue = (value: unknown, path: string, encoded: Map<object, unknown>): unknown => {
+  if (typeof value === 'function') {
+    const source = Function.prototype.toString.call(value);
+    const isClass = source.startsWith('class');
+    encodeFunctionSource(source, path, isClass ? '类' : '函数');
+    return { [PORTABLE_TAG]: 'function', name: value.name, source } satisfies PortableFunction;
+  }
+  if (typeof value === 'symbol') {
+    throw new PortableEncodeError(`${path} 是 Symbol，无法传给其他节点`);
+  }
+  if (typeof value !== 'object' || value === null) return value;
+  if (encoded.has(value)) return encoded.get(value);
+
+  const encodeEntries = (source: object, target: Record<string, unknown>) => {
+    let changed = false;
+    Object.keys(source).forEach((key) => {
+      const item = (source as Record<string, unknown>)[key];
+      const next = encodeValue(item, formatPath(path, key), encoded);
+      if (next !== item) changed = true;
+      target[key] = next;
+    });
+    return changed;
+  };
+
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [];
+    encoded.set(value, copy);
+    const changed = encodeEntries(value, copy as unknown as Record<string, unknown>);
+    // 不含函数与类实例的数据原样保留，避免无谓的拷贝
+    const result = changed ? copy : value;
+    encoded.set(value, result);
+    return result;
+  }
+
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {};
+    encoded.set(value, copy);
+    const result = encodeEntries(value, copy) ? copy : value;
+    encoded.set(value, result);
+    return result;
+  }
+
+  const userClass = getUserClass(value);
+  if (userClass) {
+    const classSource = Function.prototype.toString.call(userClass);
+    encodeFunctionSource(classSource, `${path} 的类 ${userClass.name || '（匿名类）'}`, '类');
+    const instance: PortableInstance = {
+      [PORTABLE_TAG]: 'instance',
+      className: userClass.name,
+      classSource,
+      fields: {},
+    };
+    encoded.set(value, instance);
+    encodeEntries(value, instance.fields);
+    return instance;
+  }
+
+  // Map、Set 中的函数同样无法克隆，这里提前检查以给出带路径的提示
+  try {
+    structuredClone(value);
+  } catch {
+    throw new PortableEncodeError(`${path} 无法被复制（${Object.prototype.toString.call(value)}），无法传给其他节点`);
+  }
+  return value;
+};
+
+/**
+ * 按序列化策略编码一次执行的输出：逐个输出编码，无法传递的输出被移除并各自给出一条警告。
+ */
+export const encodePortableOutputs = (outputs: Record<string, unknown>) => {
+  const encodedOutputs: Record<string, unknown> = {};
+  const warnings: SourceDiagnostic[] = [];
+  Object.entries(outputs).forEach(([name, value]) => {
+    try {
+      encodedOutputs[name] = encodeValue(value, name, new Map());
+    } catch (error) {
+      if (!(error instanceof PortableEncodeError)) throw error;
+      warnings.push({ message: `输出 "${name}" 未传给下游：${error.message}` });
+    }
+  });
+  return { outputs: encodedOutputs, warnings };
+};
+
+// 执行结果离开执行环境前的编码：输出按策略编码，被拒绝的输出记为警告
+export const encodeResultOutputs = <R extends { outputs: Record<string, unknown>; warnings?: SourceDiagnostic[] }>(
+  result: R,
+): R => {
+  const { outputs, warnings } = encodePortableOutputs(result.outputs);
+  return warnings.length > 0
+    ? { ...result, outputs, warnings: [...(result.warnings ?? []), ...warnings] }
+    : { ...result, outputs };
+};
+
+// 以间接 eval 在全局作用域中求值，函数只能看到当前执行环境的全局名字
+const evaluateSource = (source: string) => {
+  const evaluable = toEvaluableSource(source);
+  if (!evaluable) throw new Error(`无法还原函数：${source.slice(0, 40)}`);
+  return (0, eval)(evaluable.expression) as (...args: unknown[]) => unknown;
+};
+
+/**
+ * 在当前执行环境中还原编码过的值。
+ * 同一次解码中源码相同的类只求值一次，来自同一上游的实例因此共享同一个类。
+ * 不含编码值的数据原样返回，不做拷贝。
+ */
+export const decodePortableValues = <T,>(value: T): T => {
+  const classes = new Map<string, (...args: unknown[]) => unknown>();
+  const decoded = new Map<object, unknown>();
+
+  const decode = (item: unknown): unknown => {
+    if (typeof item !== 'object' || item === null) return item;
+    if (decoded.has(item)) return decoded.get(item);
+
+    if (isPortableValue(item)) {
+      if (item[PORTABLE_TAG] === 'function') {
+        const fn = evaluateSource(item.source);
+        decoded.set(item, fn);
+        return fn;
+      }
+      let userClass = classes.get(item.classSource);
+      if (!userClass) {
+        userClass = evaluateSource(item.classSource);
+        classes.set(item.classSource, userClass);
+      }
+      const instance = Object.create(userClass.prototype as object) as Record<string, unknown>;
+      decoded.set(item, instance);
+      Object.entries(item.fields).forEach(([key, field]) => {
+        instance[key] = decode(field);
+      });
+      return instance;
+    }
+
+    if (!Array.isArray(item) && !isPlainObject(item)) return item;
+    decoded.set(item, item);
+    let copy: Record<string, unknown> | null = null;
+    Object.keys(item).forEach((key) => {
+      const field = (item as Record<string, unknown>)[key];
+      const next = decode(field);
+      if (next === field) return;
+      if (!copy) copy = (Array.isArray(item) ? [...item] : { ...item }) as Record<string, unknown>;
+      copy[key] = next;
+    });
+    const result = copy ?? item;
+    decoded.set(item, result);
+    return result;
+  };
+
+  return decode(value) as T;
+};
+
+// 参数列表：对象方法简写形如 Object.values({ name(...) {} })[0]，参数取自其中的方法
+const getParams = (node: AnyNode): AnyNode[] => {
+  if (node.type === 'MemberExpression' && node.object.type === 'CallExpression') {
+    const object = node.object.arguments[0];
+    const method = object?.type === 'ObjectExpression' ? object.properties[0] : undefined;
+    return method?.type === 'Property' ? getParams(method.value) : [];
+  }
+  if (node.type === 'FunctionExpression' || node.type === 'ArrowFunctionExpression') return node.params;
+  return [];
+};
+
+// 函数签名：ƒ name(a, b = 1)；类显示为 class Name
+export const describeFunctionSource = (source: string, name: string) => {
+  if (source.startsWith('class')) return `class ${name || '（匿名类）'}`;
+  const evaluable = toEvaluableSource(source);
+  const params = evaluable ? getParams(evaluable.node) : [];
+  const paramText = params.length > 0
+    ? evaluable!.expression.slice(params[0].start, params[params.length - 1].end)
+    : '';
+  return `ƒ ${name || 'anonymous'}(${paramText})`;
+};
+
+// 编码值的简短展示：函数显示签名，类实例显示类名与字段
+export const formatPortableValue = (value: PortableValue): string => {
+  if (value[PORTABLE_TAG] === 'function') return describeFunctionSource(value.source, value.name);
+  const fields = Object.entries(value.fields).map(([key, field]) => `${key}: ${
+    isPortableValue(field) ? formatPortableValue(field) : JSON.stringify(field)
+  }`);
+  return `${value.className || '（匿名类）'} {${fields.join(', ')}}`;
+};
@@ -0,0 +1,143 @@
+/**
+ * 按引用传入的输入值的保护：
+ * - 开发环境下把值深度冻结，并以只读视图（Proxy）交给节点代码；
+ * - 节点代码对视图的写入、删除等修改会被忽略，并按访问路径记录下来，由执行器作为警告返回；
+ * - 只保护普通对象与数组：类型化数组、Map、Set、类实例等无法可靠冻结或代理的值按原样传入。
+ *
+ * 被冻结的对象上，Proxy 的 get 必须原样返回属性值，无法再把子对象包成视图；
+ * 因此代理的目标是一个空的“影子”对象/数组，所有读取都转发到真实的值上。
+ */
+
+// 是否启用保护：只在开发环境中冻结与记录，生产环境下按引用传入的值原样传递
+export const REFERENCE_GUARD_ENABLED = Boolean(import.meta.env?.DEV);
+
+const isGuardable = (value: unknown): value is Record<PropertyKey, unknown> => {
+  if (typeof value !== 'object' || value === null) return false;
+  if (Array.isArray(value)) return true;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+const deepFreeze = (value: unknown, seen: Set<object>) => {
+  if (!isGuardable(value) || seen.has(value)) return;
+  seen.add(value);
+  Reflect.ownKeys(value).forEach((key) => deepFreeze(value[key as keyof typeof value], seen));
+  Object.freeze(value);
+};
+
+const formatPath = (path: string, key: PropertyKey) => {
+  if (typeof key === 'symbol') return `${path}[${key.toString()}]`;
+  const name = String(key);
+  return /^\d+$/.test(name) ? `${path}[${name}]` : `${path}.${name}`;
+};
+
+export interface ReferenceGuard {
+  // 冻结 value 并返回它的只读视图；name 为输入名，用作修改路径的起点
+  guard: <T>(value: T, name: string) => T;
+  // 把视图（含嵌套在新容器中的视图）换回真实的值，供输出、structuredClone 与跨线程传递使用
+  unwrap: <T>(value: T) => T;
+  // 被忽略的修改的访问路径（去重，按首次出现排序）
+  getMutations: () => string[];
+}
+
+export const createReferenceGuard = (): ReferenceGuard => {
+  const mutations = new Set<string>();
+  const sources = new WeakMap<object, object>();
+  // 同一真实对象在同一路径下只创建一个视图，保持 === 比较的结果
+  const views = new Map<string, WeakMap<object, object>>();
+
+  const createView = (source: Record<PropertyKey, unknown>, path: string): object => {
+    let viewsAtPath = views.get(path);
+    if (!viewsAtPath) {
+      viewsAtPath = new WeakMap();
+      views.set(path, viewsAtPath);
+    }
+    const cached = viewsAtPath.get(source);
+    if (cached) return cached;
+
+    const isArray = Array.isArray(source);
+    const shadow: object = isArray ? [] : Object.create(Object.getPrototypeOf(source));
+    const wrap = (key: PropertyKey, value: unknown) =>
+      (isGuardable(value) ? createView(value, formatPath(path, key)) : value);
+    const reject = (key?: PropertyKey) => {
+      mutations.add(key === undefined ? path : formatPath(path, key));
+    };
+
+    const view = new Proxy(shadow, {
+      get: (_, key) => wrap(key, Reflect.get(source, key)),
+      has: (_, key) => Reflect.has(source, key),
+      ownKeys: () => Reflect.ownKeys(source),
+      getOwnPropertyDescriptor: (_, key) => {
+        const descriptor = Reflect.getOwnPropertyDescriptor(source, key);
+        if (!descriptor) return undefined;
+        // 影子数组自带不可配置的 length，只能如实报告为不可配置（但可写）
+        if (isArray && key === 'length') {
+          return { value: descriptor.value, writable: true, enumerable: false, configurable: false };
+        }
+        return 'value' in descriptor
+          ? { ...descriptor, value: wrap(key, descriptor.value), configurable: true }
+          : { ...descriptor, configurable: true };
+      },
+      getPrototypeOf: () => Reflect.getPrototypeOf(source),
+      // 修改一律忽略：赋值返回 true 让节点代码继续执行，其余操作按失败处理
+      set: (_, key) => {
+        reject(key);
+        return true;
+      },
+      deleteProperty: (_, key) => {
+        reject(key);
+        return !(isArray && key === 'length');
+      },
+      defineProperty: (_, key) => {
+        reject(key);
+        return false;
+      },
+      setPrototypeOf: () => {
+        reject();
+        return false;
+      },
+      preventExtensions: () => false,
+    });
+
+    viewsAtPath.set(source, view);
+    sources.set(view, source);
+    return view;
+  };
+
+  const guard = <T,>(value: T, name: string): T => {
+    if (!isGuardable(value)) return value;
+    deepFreeze(value, new Set());
+    return createView(value, name) as T;
+  };
+
+  // 视图无法被结构化克隆；输出中出现的视图在返回前换回真实的值。
+  // 真实的值已被冻结且不含视图，只需要在节点新建的（未冻结的）容器中查找；含有视图的容器被浅拷贝，不修改节点自己的对象
+  const resolve = (value: unknown, resolved: Map<object, unknown>): unknown => {
+    if (typeof value !== 'object' || value === null) return value;
+    const source = sources.get(value);
+    if (source) return source;
+    if (!isGuardable(value) || Object.isFrozen(value)) return value;
+    if (resolved.has(value)) return resolved.get(value);
+    resolved.set(value, value);
+
+    let copy: Record<PropertyKey, unknown> | null = null;
+    Object.keys(value).forEach((key) => {
+      const item = value[key];
+      const next = resolve(item, resolved);
+      if (next === item) return;
+      if (!copy) copy = Array.isArray(value) ? [...value] : Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+      copy![key] = next;
+    });
+    const result = copy ?? value;
+    resolved.set(value, result);
+    return result;
+  };
+
+  const unwrap = <T,>(value: T): T => resolve(value, new Map()) as T;
+
+  return {
+    guard,
+    unwrap,
+    getMutations: () => Array.from(mutations),
+  };
+};
@@ -0,0 +1,202 @@
+import { parse } from 'acorn';
+import { NODE_INLINE_VALUE_FUNCTION } from './inlineValues';
+import { NODE_MODULE_PARSE_OPTIONS, NODE_IMPORT_FUNCTION } from './nodeModules';
+import { NODE_PARSE_OPTIONS, getTokenRange, offsetToPosition, type SourceDiagnostic } from './nodeSource';
+
+/**
+ * 节点代码沙箱：
+ * - 节点代码运行在独立的 realm（每个节点一个 Worker）中，本身就接触不到页面的 DOM、应用状态与 localStorage；
+ * - 在此基础上，realm 的全局对象只保留显式白名单中的名字：ECMAScript 内置对象、少量无副作用的 Web API，
+ *   以及执行器每次注入的节点 API（node_input / node_output 等）；
+ * - 网络、存储等能力默认不可用，节点需要在数据中声明（capabilities）后才会在执行期间开放；
+ * - 每次执行结束后，节点代码新建或覆盖的全局变量会被还原，不会泄漏到下一次执行。
+ *
+ * 限制：白名单约束的是全局名字，节点代码仍可以在沙箱内构造任意计算；
+ * 通过字符串拼接后再 eval 的动态 import 无法静态发现。
+ */
+
+export type NodeCapability = 'network' | 'storage';
+
+export const NODE_CAPABILITIES: Record<NodeCapability, { label: string; description: string; globals: string[] }> = {
+  network: {
+    label: '网络',
+    description: '允许使用 fetch、WebSocket 等发起网络请求，以及动态 import',
+    globals: ['fetch', 'Request', 'Response', 'Headers', 'FormData', 'XMLHttpRequest', 'WebSocket', 'EventSource'],
+  },
+  storage: {
+    label: '存储',
+    description: '允许使用 IndexedDB 与 Cache Storage 持久化数据',
+    globals: ['indexedDB', 'IDBKeyRange', 'caches'],
+  },
+};
+
+// ECMAScript 内置对象
+const LANGUAGE_GLOBALS = [
+  'globalThis', 'Infinity', 'NaN', 'undefined', 'eval', 'isFinite', 'isNaN', 'parseFloat', 'parseInt',
+  'decodeURI', 'decodeURIComponent', 'encodeURI', 'encodeURIComponent', 'escape', 'unescape',
+  'AggregateError', 'Array', 'ArrayBuffer', 'Atomics', 'BigInt', 'BigInt64Array', 'BigUint64Array', 'Boolean',
+  'DataView', 'Date', 'Error', 'EvalError', 'FinalizationRegistry', 'Float16Array', 'Float32Array', 'Float64Array',
+  'Function', 'Int8Array', 'Int16Array', 'Int32Array', 'Iterator', 'Map', 'Number', 'Object', 'Promise', 'Proxy',
+  'RangeError', 'ReferenceError', 'Reflect', 'RegExp', 'Set', 'SharedArrayBuffer', 'String', 'Symbol', 'SyntaxError',
+  'TypeError', 'Uint8Array', 'Uint8ClampedArray', 'Uint16Array', 'Uint32Array', 'URIError', 'WeakMap', 'WeakRef',
+  'WeakSet', 'JSON', 'Math', 'Intl', 'WebAssembly',
+];
+
+// 不涉及外部资源的 Web API
+const WEB_GLOBALS = [
+  'self', 'console', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask',
+  'requestAnimationFrame', 'cancelAnimationFrame', 'structuredClone', 'atob', 'btoa', 'TextEncoder', 'TextDecoder',
+  'URL', 'URLSearchParams', 'AbortController', 'AbortSignal', 'DOMException', 'Event', 'EventTarget',
+  'performance', 'crypto', 'Blob',
+];
+
+// 执行器每次执行时注入、结束后移除的节点 API
+export const NODE_API_GLOBALS = [
+  'node_input', 'node_output', 'node_emit', 'Slider', 'InputBox', 'Switch', 'node_signal', 'node_time',
+  'node_random', NODE_IMPORT_FUNCTION, NODE_INLINE_VALUE_FUNCTION,
+];
+
+export const SANDBOX_ALLOWED_GLOBALS: readonly string[] = [...LANGUAGE_GLOBALS, ...WEB_GLOBALS, ...NODE_API_GLOBALS];
+
+// 事件接口留在 EventTarget.prototype 上供 AbortSignal 等使用，但不允许直接对全局对象监听/派发事件
+const GLOBAL_EVENT_METHODS = ['addEventListener', 'removeEventListener', 'dispatchEvent'];
+
+export class SandboxCapabilityError extends Error {
+  constructor(name: string, capability: NodeCapability) {
+    super(`${name} 不可用：节点未申请「${NODE_CAPABILITIES[capability].label}」权限`);
+    this.name = 'SandboxCapabilityError';
+  }
+}
+
+const CAPABILITY_BY_GLOBAL = new Map<string, NodeCapability>(
+  (Object.keys(NODE_CAPABILITIES) as NodeCapability[])
+    .flatMap((capability) => NODE_CAPABILITIES[capability].globals.map((name) => [name, capability] as const)),
+);
+
+const findDynamicImport = (node: unknown): { start: number } | null => {
+  if (!node || typeof node !== 'object') return null;
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findDynamicImport(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  const record = node as { type?: unknown; start?: number };
+  if (record.type === 'ImportExpression') return { start: record.start ?? 0 };
+  for (const [key, value] of Object.entries(record)) {
+    if (key === 'loc') continue;
+    const found = findDynamicImport(value);
+    if (found) return found;
+  }
+  return null;
+};
+
+// 普通节点按脚本解析，模块节点按模块解析；都无法解析时返回 null
+const parseForPolicy = (code: string) => {
+  for (const options of [NODE_PARSE_OPTIONS, NODE_MODULE_PARSE_OPTIONS]) {
+    try {
+      return parse(code, options);
+    } catch {
+      // 尝试下一种解析方式
+    }
+  }
+  return null;
+};
+
+// 静态检查：未申请网络权限时不允许动态 import（它不经过任何全局名字）；语法错误交给执行器报告
+export const checkSandboxPolicy = (code: string, capabilities: NodeCapability[]): SourceDiagnostic | null => {
+  if (capabilities.includes('network')) return null;
+
+  const found = findDynamicImport(parseForPolicy(code));
+  if (!found) return null;
+
+  const { line, column } = offsetToPosition(code, found.start);
+  return {
+    message: `动态 import 不可用：节点未申请「${NODE_CAPABILITIES.network.label}」权限`,
+    ...getTokenRange(code, line, column),
+  };
+};
+
+const isSameDescriptor = (a: PropertyDescriptor | undefined, b: PropertyDescriptor | undefined) =>
+  Object.is(a?.value, b?.value) && a?.get === b?.get && a?.set === b?.set;
+
+/**
+ * 锁定当前 realm 的全局对象，返回按能力执行节点代码的入口。
+ * 只应在专供节点执行的 realm（Worker）中调用一次；调用方需要在此之前取得自己要用的全局接口（如 postMessage）。
+ */
+export const createSandboxRealm = () => {
+  const allowed = new Set(SANDBOX_ALLOWED_GLOBALS);
+  const capabilityDescriptors = new Map<string, PropertyDescriptor>();
+  const eventTargetPrototype = typeof EventTarget === 'function' ? EventTarget.prototype : null;
+
+  // 沿全局对象的原型链移除白名单之外的名字（到 EventTarget.prototype / Object.prototype 为止）
+  let target: object | null = globalThis;
+  while (target && target !== Object.prototype && target !== eventTargetPrototype) {
+    Object.getOwnPropertyNames(target).forEach((name) => {
+      if (allowed.has(name) || name === 'constructor') return;
+      const descriptor = Object.getOwnPropertyDescriptor(target, name);
+      if (descriptor && CAPABILITY_BY_GLOBAL.has(name) && !capabilityDescriptors.has(name)) {
+        capabilityDescriptors.set(name, descriptor);
+      }
+      Reflect.deleteProperty(target as object, name);
+    });
+    target = Object.getPrototypeOf(target);
+  }
+
+  GLOBAL_EVENT_METHODS.forEach((name) => {
+    Object.defineProperty(globalThis, name, { value: undefined, writable: false, configurable: true });
+  });
+
+  // 能力对应的名字替换为访问即报错的占位，提示节点需要申请的权限
+  capabilityDescriptors.forEach((_, name) => {
+    const capability = CAPABILITY_BY_GLOBAL.get(name)!;
+    Object.defineProperty(globalThis, name, {
+      get: () => {
+        throw new SandboxCapabilityError(name, capability);
+      },
+      configurable: true,
+    });
+  });
+
+  const baseline = new Map(
+    Object.getOwnPropertyNames(globalThis).map((name) => [name, Object.getOwnPropertyDescriptor(globalThis, name)]),
+  );
+
+  // 还原本次执行对全局对象的修改（同时收回本次开放的能力），返回被清理的名字
+  const resetGlobals = () => {
+    const leaked: string[] = [];
+    Object.getOwnPropertyNames(globalThis).forEach((name) => {
+      if (!baseline.has(name)) {
+        leaked.push(name);
+        Reflect.deleteProperty(globalThis, name);
+      }
+    });
+    baseline.forEach((descriptor, name) => {
+      const current = Object.getOwnPropertyDescriptor(globalThis, name);
+      if (!descriptor || isSameDescriptor(current, descriptor)) return;
+      if (!CAPABILITY_BY_GLOBAL.has(name)) leaked.push(name);
+      Object.defineProperty(globalThis, name, descriptor);
+    });
+    return leaked;
+  };
+
+  // 在开放指定能力的情况下执行 task；结束后还原全局对象
+  const run = async <T>(capabilities: NodeCapability[], task: () => Promise<T>) => {
+    capabilityDescriptors.forEach((descriptor, name) => {
+      if (capabilities.includes(CAPABILITY_BY_GLOBAL.get(name)!)) {
+        Object.defineProperty(globalThis, name, descriptor);
+      }
+    });
+
+    try {
+      const value = await task();
+      return { value, leakedGlobals: resetGlobals() };
+    } catch (error) {
+      resetGlobals();
+      throw error;
+    }
+  };
+
+  return { run };
+};
@@ -0,0 +1,53 @@
+import type { CanvasRandomSettings } from '@/types/canvas';
+
+/**
+ * 可复现的随机数：
+ * - 画布有一个种子，每个节点的种子由画布种子、节点 id 与节点自身的重新播种偏移派生，节点之间互不相关；
+ * - 节点每次执行都从自己的种子重新开始，代码与输入不变时 node_random() 产生的序列也不变，结果因此可以缓存；
+ * - 生成器为 mulberry32：32 位状态，足够用于绘图与模拟，不适用于密码学用途。
+ */
+
+// 种子均为 32 位无符号整数
+export const createRandomSeed = () => Math.floor(Math.random() * 0x100000000);
+
+// 没有记录随机设置的画布（旧版存档）使用固定种子，结果同样可复现
+export const DEFAULT_RANDOM_SETTINGS: CanvasRandomSettings = { seed: 0, replaceMathRandom: false };
+
+export const normalizeRandomSeed = (seed: number) => (Number.isFinite(seed) ? Math.trunc(seed) >>> 0 : 0);
+
+// 32 位整数混合（murmur3 的 fmix32），让相邻的种子也得到差异很大的结果
+const mixSeed = (value: number) => {
+  let h = value >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+/**
+ * 节点的随机种子：画布种子、节点 id 与节点的重新播种偏移（nodeSeed）共同决定。
+ * 同一画布中节点 id 不同即得到不同的序列；修改画布种子时所有节点一起变化，重新播种节点时只有该节点变化。
+ */
+export const deriveNodeSeed = (canvasSeed: number, nodeId: string, nodeSeed = 0) => {
+  let h = mixSeed(normalizeRandomSeed(canvasSeed) ^ 0x9e3779b9);
+  for (let i = 0; i < nodeId.length; i++) {
+    h = Math.imul(h ^ nodeId.charCodeAt(i), 0x01000193);
+  }
+  return mixSeed(h ^ mixSeed(normalizeRandomSeed(nodeSeed)));
+};
+
+// mulberry32：返回 [0, 1) 内均匀分布的数
+export const createSeededRandom = (seed: number) => {
+  let state = normalizeRandomSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+};
+
+const RANDOM_REFERENCE_PATTERN = /\bnode_random\b|\bMath\.random\b/;
+
+// 引用了 node_random 或 Math.random 的代码，其结果随种子变化
+export const referencesRandom = (code: string) => RANDOM_REFERENCE_PATTERN.test(code);
@@ -0,0 +1,167 @@
+import { parse, type AnyNode, type Pattern, type Program } from 'acorn';
+import { NODE_PARSE_OPTIONS } from './nodeSource';
+
+/**
+ * 节点代码的符号信息：
+ * - defined：顶层声明的名字（var/let/const/function/class），即节点可以对外提供的“全局”定义；
+ * - free：在节点内任何位置都没有声明、却被引用的标识符，即节点需要从外部获得的名字。
+ */
+export interface NodeSymbolInfo {
+  defined: string[];
+  free: string[];
+}
+
+/**
+ * 以执行器相同的语义解析节点代码：
+ * 节点代码会被包装为 async 函数体执行，因此允许顶层 await 与顶层 return。
+ */
+export const parseNodeCode = (code: string): Program => parse(code, NODE_PARSE_OPTIONS);
+
+// 通用子节点遍历：对没有特殊语义的节点，按字段顺序访问其所有子节点
+const forEachChild = (node: AnyNode, visit: (child: AnyNode) => void) => {
+  Object.values(node as unknown as Record<string, unknown>).forEach((value) => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => {
+        if (item && typeof item === 'object' && typeof (item as AnyNode).type === 'string') visit(item as AnyNode);
+      });
+    } else if (value && typeof value === 'object' && typeof (value as AnyNode).type === 'string') {
+      visit(value as AnyNode);
+    }
+  });
+};
+
+// 收集解构/参数模式中绑定的名字；默认值、计算属性名仍按“引用”访问
+const collectPatternBindings = (
+  pattern: Pattern,
+  bindings: Set<string>,
+  visit: (node: AnyNode) => void,
+) => {
+  switch (pattern.type) {
+    case 'Identifier':
+      bindings.add(pattern.name);
+      return;
+    case 'ObjectPattern':
+      pattern.properties.forEach((property) => {
+        if (property.type === 'RestElement') {
+          collectPatternBindings(property.argument, bindings, visit);
+          return;
+        }
+        if (property.computed) visit(property.key);
+        collectPatternBindings(property.value, bindings, visit);
+      });
+      return;
+    case 'ArrayPattern':
+      pattern.elements.forEach((element) => {
+        if (element) collectPatternBindings(element, bindings, visit);
+      });
+      return;
+    case 'RestElement':
+      collectPatternBindings(pattern.argument, bindings, visit);
+      return;
+    case 'AssignmentPattern':
+      collectPatternBindings(pattern.left, bindings, visit);
+      visit(pattern.right);
+      return;
+    case 'MemberExpression':
+      visit(pattern);
+      return;
+  }
+};
+
+const collectTopLevelDefinitions = (program: Program): Set<string> => {
+  const defined = new Set<string>();
+  const ignore = () => {};
+  program.body.forEach((statement) => {
+    if (statement.type === 'VariableDeclaration') {
+      statement.declarations.forEach((declarator) => collectPatternBindings(declarator.id, defined, ignore));
+    } else if (statement.type === 'FunctionDeclaration' || statement.type === 'ClassDeclaration') {
+      if (statement.id) defined.add(statement.id.name);
+    }
+  });
+  return defined;
+};
+
+/**
+ * 分析节点代码的定义与自由变量。
+ *
+ * 说明：这里不做完整的作用域分析，而是把节点内任何位置声明过的名字都视为“已绑定”；
+ * 这会漏掉“内层作用域声明了同名变量、外层又引用全局同名变量”的少见情况，
+ * 但足以用于推断节点之间的依赖关系。
+ *
+ * 代码存在语法错误时返回 null。
+ */
+export const analyzeNodeSymbols = (code: string): NodeSymbolInfo | null => {
+  let program: Program;
+  try {
+    program = parseNodeCode(code);
+  } catch {
+    return null;
+  }
+
+  const bindings = new Set<string>();
+  const references = new Set<string>();
+
+  const visit = (node: AnyNode): void => {
+    switch (node.type) {
+      case 'Identifier':
+        references.add(node.name);
+        return;
+      case 'VariableDeclarator':
+        collectPatternBindings(node.id, bindings, visit);
+        if (node.init) visit(node.init);
+        return;
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+        if (node.id) bindings.add(node.id.name);
+        node.params.forEach((param) => collectPatternBindings(param, bindings, visit));
+        visit(node.body);
+        return;
+      case 'ClassDeclaration':
+      case 'ClassExpression':
+        if (node.id) bindings.add(node.id.name);
+        if (node.superClass) visit(node.superClass);
+        visit(node.body);
+        return;
+      case 'CatchClause':
+        if (node.param) collectPatternBindings(node.param, bindings, visit);
+        visit(node.body);
+        return;
+      case 'MemberExpression':
+        visit(node.object);
+        if (node.computed) visit(node.property);
+        return;
+      case 'Property':
+      case 'MethodDefinition':
+      case 'PropertyDefinition':
+        if (node.computed) visit(node.key);
+        if (node.value) visit(node.value);
+        return;
+      case 'LabeledStatement':
+        visit(node.body);
+        return;
+      case 'BreakStatement':
+      case 'ContinueStatement':
+      case 'MetaProperty':
+        return;
+      case 'ImportDeclaration':
+        node.specifiers.forEach((specifier) => bindings.add(specifier.local.name));
+        return;
+      case 'ExportSpecifier':
+        visit(node.local);
+        return;
+      default:
+        forEachChild(node, visit);
+    }
+  };
+
+  visit(program);
+
+  const defined = collectTopLevelDefinitions(program);
+  const free = [...references].filter((name) => !bindings.has(name));
+
+  return {
+    defined: [...defined].sort(),
+    free: free.sort(),
+  };
+};
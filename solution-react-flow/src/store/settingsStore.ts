@@ -31,6 +31,22 @@ interface SettingsStore {
   
   // 设置面板状态
   isSettingsPanelOpen: boolean;
+
+  // 是否在画布上显示由符号解析推断出的依赖连线
+  showInferredEdges: boolean;
+
+  // 性能面板状态，以及是否在节点上叠加耗时热度
+  isProfilerPanelOpen: boolean;
+  showHeatOverlay: boolean;
+
+  // 共享库面板状态
+  isLibraryPanelOpen: boolean;
+
+  // 时钟控制条是否显示
+  isClockBarOpen: boolean;
+
+  // 计算历史面板状态
+  isHistoryPanelOpen: boolean;
   
   // 操作方法
   setColor: (key: keyof ThemeColors, value: string) => void;
@@ -38,6 +54,15 @@ interface SettingsStore {
   resetToDefaults: () => void;
   toggleSettingsPanel: () => void;
   closeSettingsPanel: () => void;
+  toggleInferredEdges: () => void;
+  toggleProfilerPanel: () => void;
+  closeProfilerPanel: () => void;
+  toggleHeatOverlay: () => void;
+  toggleLibraryPanel: () => void;
+  closeLibraryPanel: () => void;
+  toggleClockBar: () => void;
+  toggleHistoryPanel: () => void;
+  closeHistoryPanel: () => void;
 }
 
 // 默认主题配置
@@ -67,6 +92,12 @@ export const useSettingsStore = create<SettingsStore>()(
       colors: defaultColors,
       fonts: defaultFonts,
       isSettingsPanelOpen: false,
+      showInferredEdges: true,
+      isProfilerPanelOpen: false,
+      showHeatOverlay: false,
+      isLibraryPanelOpen: false,
+      isClockBarOpen: false,
+      isHistoryPanelOpen: false,
       
       setColor: (key, value) =>
         set((state) => ({
@@ -91,6 +122,45 @@ export const useSettingsStore = create<SettingsStore>()(
       
       closeSettingsPanel: () =>
         set({ isSettingsPanelOpen: false }),
+
+      toggleInferredEdges: () =>
+        set((state) => ({
+          showInferredEdges: !state.showInferredEdges,
+        })),
+
+      toggleProfilerPanel: () =>
+        set((state) => ({
+          isProfilerPanelOpen: !state.isProfilerPanelOpen,
+        })),
+
+      closeProfilerPanel: () =>
+        set({ isProfilerPanelOpen: false }),
+
+      toggleHeatOverlay: () =>
+        set((state) => ({
+          showHeatOverlay: !state.showHeatOverlay,
+        })),
+
+      toggleLibraryPanel: () =>
+        set((state) => ({
+          isLibraryPanelOpen: !state.isLibraryPanelOpen,
+        })),
+
+      closeLibraryPanel: () =>
+        set({ isLibraryPanelOpen: false }),
+
+      toggleClockBar: () =>
+        set((state) => ({
+          isClockBarOpen: !state.isClockBarOpen,
+        })),
+
+      toggleHistoryPanel: () =>
+        set((state) => ({
+          isHistoryPanelOpen: !state.isHistoryPanelOpen,
+        })),
+
+      closeHistoryPanel: () =>
+        set({ isHistoryPanelOpen: false }),
     }),
     {
       name: 'desmos-canvas-settings',
@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 
-export type ToolType = 'select' | 'text' | 'connect';
+export type ToolType = 'select' | 'text' | 'library' | 'connect';
 
 interface ToolStore {
   activeTool: ToolType;
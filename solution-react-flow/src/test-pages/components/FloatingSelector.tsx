@@ -51,6 +51,14 @@ const FloatingSelector: React.FC = () => {
               <div className="scenario-title">代码编辑器测试</div>
               <div className="scenario-description">测试新的 CodeEditor 组件</div>
             </a>
+            <a href="/test/inline-values-test" className={`nav-scenario ${location.pathname === '/test/inline-values-test' ? 'active' : ''}`}>
+              <div className="scenario-title">行内值测试</div>
+              <div className="scenario-description">检查行内值是否显示在对应的行</div>
+            </a>
+            <a href="/test/shared-library-test" className={`nav-scenario ${location.pathname === '/test/shared-library-test' ? 'active' : ''}`}>
+              <div className="scenario-title">共享库测试</div>
+              <div className="scenario-description">检查共享库在各类节点中是否可用</div>
+            </a>
           </div>
         </div>
       </div>
@@ -3,6 +3,8 @@ import { Routes, Route, Navigate } from 'react-router-dom';
 import SizingBehaviorTest from './pages/SizingBehaviorTest';
 import TextareaCursorTest from './pages/TextareaCursorTest';
 import CodeEditorTest from './pages/CodeEditorTest';
+import InlineValuesTest from './pages/InlineValuesTest';
+import SharedLibraryTest from './pages/SharedLibraryTest';
 
 const TestPages: React.FC = () => {
   return (
@@ -11,6 +13,8 @@ const TestPages: React.FC = () => {
       <Route path="/sizing-behavior" element={<SizingBehaviorTest />} />
       <Route path="/textarea-cursor-test" element={<TextareaCursorTest />} />
       <Route path="/code-editor-test" element={<CodeEditorTest />} />
+      <Route path="/inline-values-test" element={<InlineValuesTest />} />
+      <Route path="/shared-library-test" element={<SharedLibraryTest />} />
     </Routes>
   );
 };
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { evaluateCanvas } from '@/hooks/eval-core/headlessCanvas';
+import { createTestCanvas } from '../utils/testCanvas';
+import './TestPage.css';
+
+interface InlineValuesCase {
+  title: string;
+  code: string;
+  // 编辑器行号（从 1 开始）-> 行尾应显示的值
+  expected: Record<number, string>;
+}
+
+// 开头的空行与缩进不应让行内值错位：行号按编辑器中的原文计算
+const CASES: InlineValuesCase[] = [
+  {
+    title: '无前导空行',
+    code: 'const a = 1 + 1;\na * 3;',
+    expected: { 1: 'a = 2', 2: '6' },
+  },
+  {
+    title: '前导空行',
+    code: '\n\nconst a = 1 + 1;\na * 3;',
+    expected: { 3: 'a = 2', 4: '6' },
+  },
+  {
+    title: '前导空行与缩进',
+    code: '\n\n\n    const a = 1 + 1;\n    a * 3;\n',
+    expected: { 4: 'a = 2', 5: '6' },
+  },
+];
+
+interface InlineValuesCaseResult {
+  actual: Record<string, string>;
+  passed: boolean;
+}
+
+// 每个用例单独作为一个单节点画布执行
+const runCase = async ({ code, expected }: InlineValuesCase): Promise<InlineValuesCaseResult> => {
+  const state = await evaluateCanvas(createTestCanvas([{ id: 'node', code, inlineValues: true }]));
+  const actual = Object.fromEntries(
+    Object.entries(state.nodes.node.lineValues ?? {}).map(([line, value]) => [line, String(value)]),
+  );
+  const expectedEntries = Object.entries(expected);
+  const passed = expectedEntries.length === Object.keys(actual).length
+    && expectedEntries.every(([line, value]) => actual[line] === value);
+  return { actual, passed };
+};
+
+const InlineValuesTest: React.FC = () => {
+  const [results, setResults] = useState<(InlineValuesCaseResult | null)[]>(() => CASES.map(() => null));
+  const [runCount, setRunCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResults(CASES.map(() => null));
+    (async () => {
+      for (const [index, testCase] of CASES.entries()) {
+        const result = await runCase(testCase);
+        if (cancelled) return;
+        setResults((previous) => previous.map((item, i) => (i === index ? result : item)));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [runCount]);
+
+  return (
+    <div className="test-page-container">
+      <div className="page-content">
+        <div className="page-header">
+          <h1>行内值测试</h1>
+          <p>检查行内值是否显示在编辑器中对应的行</p>
+        </div>
+
+        <div className="test-layout">
+          <div className="control-panel">
+            <div className="test-info">
+              <h3>测试说明</h3>
+              <ul>
+                <li>每个用例作为单节点画布执行，开启行内值</li>
+                <li>行号按编辑器中的原文计算，含开头的空行</li>
+                <li>实际记录的行与值须与期望完全一致</li>
+              </ul>
+            </div>
+
+            <div className="test-controls">
+              <h4>测试控制</h4>
+              <button onClick={() => setRunCount((count) => count + 1)}>重新运行</button>
+            </div>
+          </div>
+
+          <div className="test-area">
+            {CASES.map((testCase, index) => {
+              const result = results[index];
+              const status = !result ? '运行中…' : result.passed ? '✓ 通过' : '✗ 未通过';
+              return (
+                <div key={testCase.title} className="test-case">
+                  <h4>{testCase.title}：{status}</h4>
+                  <div className="code-preview">
+                    <pre>{testCase.code.split('\n').map((line, i) => `${i + 1} | ${line}`).join('\n')}</pre>
+                  </div>
+                  <div className="debug-info">
+                    <p>期望：{JSON.stringify(testCase.expected)}</p>
+                    <p>实际：{result ? JSON.stringify(result.actual) : '—'}</p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InlineValuesTest;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { evaluateCanvas } from '@/hooks/eval-core/headlessCanvas';
+import { createTestCanvas, type TestCanvasNode } from '../utils/testCanvas';
+import './TestPage.css';
+
+interface SharedLibraryCase {
+  title: string;
+  nodes: TestCanvasNode[];
+  // 检查的节点与它应产生的输出
+  checkedNodeId: string;
+  expected: Record<string, unknown>;
+}
+
+// 共享库的定义对所有 TextNode 可见：普通节点、模块节点，以及被模块节点导入的模块；共享库之间也可以互相引用
+const CASES: SharedLibraryCase[] = [
+  {
+    title: '普通节点使用共享库',
+    nodes: [
+      { id: 'lib', code: 'function twice(x) { return 2 * x; }', library: true },
+      { id: 'node', code: 'node_output(twice(3), "y");' },
+    ],
+    checkedNodeId: 'node',
+    expected: { y: 6 },
+  },
+  {
+    title: '共享库引用其他共享库',
+    nodes: [
+      { id: 'area', code: 'function area(r) { return UNIT * r * r; }', library: true },
+      { id: 'unit', code: 'const UNIT = 3;', library: true },
+      { id: 'node', code: 'node_output(area(2), "y");' },
+    ],
+    checkedNodeId: 'node',
+    expected: { y: 12 },
+  },
+  {
+    title: '模块节点使用共享库',
+    nodes: [
+      { id: 'lib', code: 'function twice(x) { return 2 * x; }', library: true },
+      { id: 'shapes', code: 'export const size = 5;' },
+      { id: 'node', code: 'import { size } from "@node/shapes";\nnode_output(twice(size), "y");' },
+    ],
+    checkedNodeId: 'node',
+    expected: { y: 10 },
+  },
+  {
+    title: '被导入的模块使用共享库',
+    nodes: [
+      { id: 'lib', code: 'function twice(x) { return 2 * x; }', library: true },
+      { id: 'shapes', code: 'export const size = twice(5);' },
+      { id: 'node', code: 'import { size } from "@node/shapes";\nnode_output(size, "y");' },
+    ],
+    checkedNodeId: 'node',
+    expected: { y: 10 },
+  },
+];
+
+interface SharedLibraryCaseResult {
+  actual: Record<string, unknown>;
+  errors: string[];
+  passed: boolean;
+}
+
+// 每个用例单独作为一个画布执行，检查指定节点的输出与错误
+const runCase = async ({ nodes, checkedNodeId, expected }: SharedLibraryCase): Promise<SharedLibraryCaseResult> => {
+  const state = await evaluateCanvas(createTestCanvas(nodes));
+  const errors = Object.entries(state.nodes)
+    .flatMap(([nodeId, node]) => node.errors.map((error) => `${nodeId}：${error.message}`));
+  const actual = state.nodes[checkedNodeId].outputs;
+  const passed = errors.length === 0 && JSON.stringify(actual) === JSON.stringify(expected);
+  return { actual, errors, passed };
+};
+
+const SharedLibraryTest: React.FC = () => {
+  const [results, setResults] = useState<(SharedLibraryCaseResult | null)[]>(() => CASES.map(() => null));
+  const [runCount, setRunCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResults(CASES.map(() => null));
+    (async () => {
+      for (const [index, testCase] of CASES.entries()) {
+        const result = await runCase(testCase);
+        if (cancelled) return;
+        setResults((previous) => previous.map((item, i) => (i === index ? result : item)));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [runCount]);
+
+  return (
+    <div className="test-page-container">
+      <div className="page-content">
+        <div className="page-header">
+          <h1>共享库测试</h1>
+          <p>检查共享库的定义在各类节点中是否可用</p>
+        </div>
+
+        <div className="test-layout">
+          <div className="control-panel">
+            <div className="test-info">
+              <h3>测试说明</h3>
+              <ul>
+                <li>每个用例作为一个无连线的画布执行</li>
+                <li>共享库与模块之间的依赖均由代码推断</li>
+                <li>所有节点无错误，且被检查节点的输出与期望一致</li>
+              </ul>
+            </div>
+
+            <div className="test-controls">
+              <h4>测试控制</h4>
+              <button onClick={() => setRunCount((count) => count + 1)}>重新运行</button>
+            </div>
+          </div>
+
+          <div className="test-area">
+            {CASES.map((testCase, index) => {
+              const result = results[index];
+              const status = !result ? '运行中…' : result.passed ? '✓ 通过' : '✗ 未通过';
+              return (
+                <div key={testCase.title} className="test-case">
+                  <h4>{testCase.title}：{status}</h4>
+                  <div className="code-preview">
+                    <pre>{testCase.nodes.map((node) => `// ${node.library ? '共享库' : '节点'} ${node.id}\n${node.code}`).join('\n\n')}</pre>
+                  </div>
+                  <div className="debug-info">
+                    <p>期望 {testCase.checkedNodeId}：{JSON.stringify(testCase.expected)}</p>
+                    <p>实际 {testCase.checkedNodeId}：{result ? JSON.stringify(result.actual) : '—'}</p>
+                    {result?.errors.map((error) => <p key={error}>错误 {error}</p>)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedLibraryTest;
@@ -0,0 +1,35 @@
+import { DEFAULT_EVAL_MODE_SETTINGS } from '@/services/evalMode';
+import { DEFAULT_RANDOM_SETTINGS } from '@/services/seededRandom';
+import { CanvasNodeKind, type CanvasNodeUIData, type CanvasUIData } from '@/types/canvas';
+
+export interface TestCanvasNode {
+  id: string;
+  code: string;
+  // 缺省为 TextNode
+  library?: boolean;
+  inlineValues?: boolean;
+}
+
+// 按节点列表组装一个没有连线的画布，节点名与 id 相同；交给 evaluateCanvas 执行，与画布中的节点走同一条执行路径
+export const createTestCanvas = (nodes: TestCanvasNode[]): CanvasUIData => ({
+  nodes: new Map(nodes.map(({ id, code, library, inlineValues }): [string, CanvasNodeUIData] => [id, library
+    ? {
+      type: CanvasNodeKind.LibraryNode,
+      data: { code, nodeName: id, isCollapsed: false },
+    }
+    : {
+      type: CanvasNodeKind.TextNode,
+      data: {
+        code,
+        controls: [],
+        autoResizeWidth: true,
+        nodeName: id,
+        isCollapsed: false,
+        hiddenSections: { inputs: false, outputs: false, logs: false, errors: false },
+        inlineValues,
+      },
+    }])),
+  edges: new Map(),
+  random: DEFAULT_RANDOM_SETTINGS,
+  evalMode: DEFAULT_EVAL_MODE_SETTINGS,
+});
@@ -3,6 +3,7 @@ import type { Node, Edge } from '@xyflow/react';
 import type {
   TextNodeUIData as TextNodePayloadFromNodeData,
   DesmosPreviewNodeUIData as DesmosPreviewNodePayloadFromNodeData,
+  LibraryNodeUIData as LibraryNodePayloadFromNodeData,
 } from './nodeData';
 
 // --- Node Data Types ---
@@ -10,6 +11,7 @@ import type {
 export enum CanvasNodeKind {
   TextNode = 'textNode',
   DesmosPreviewNode = 'desmosPreviewNode',
+  LibraryNode = 'libraryNode',
 }
 
 /**
@@ -17,6 +19,7 @@ export enum CanvasNodeKind {
  */
 export type TextNodePayload = TextNodePayloadFromNodeData;
 export type DesmosPreviewNodePayload = DesmosPreviewNodePayloadFromNodeData;
+export type LibraryNodePayload = LibraryNodePayloadFromNodeData;
 
 /**
  * UIData 节点类型（业务层，不包含 React Flow 布局信息）
@@ -32,14 +35,20 @@ export interface DesmosPreviewNodeUIData {
   data: DesmosPreviewNodePayload;
 }
 
-export type CanvasNodeUIData = TextNodeUIData | DesmosPreviewNodeUIData;
+export interface LibraryNodeUIData {
+  type: CanvasNodeKind.LibraryNode;
+  data: LibraryNodePayload;
+}
+
+export type CanvasNodeUIData = TextNodeUIData | DesmosPreviewNodeUIData | LibraryNodeUIData;
 
 /**
  * FlowData 节点类型（仅用于 React Flow 渲染与交互）
  */
 export type TextNodeFlowData = Node<{}, CanvasNodeKind.TextNode>;
 export type DesmosPreviewNodeFlowData = Node<{}, CanvasNodeKind.DesmosPreviewNode>;
-export type CanvasNodeFlowData = TextNodeFlowData | DesmosPreviewNodeFlowData;
+export type LibraryNodeFlowData = Node<Record<string, never>, CanvasNodeKind.LibraryNode>;
+export type CanvasNodeFlowData = TextNodeFlowData | DesmosPreviewNodeFlowData | LibraryNodeFlowData;
 
 
 
@@ -55,6 +64,10 @@ export enum CanvasEdgeKind {
  */
 export interface CustomEdgePayload extends Record<string, unknown> {
   label?: string;
+  // 端口映射：源节点输出名 -> 目标节点输入名；缺省时全部输出按原名传入，提供时只传入列出的输出
+  portMapping?: Record<string, string>;
+  // 按引用传递：下游直接拿到上游输出对象而不是副本；开发环境下该值被冻结，下游的修改会被忽略并提示
+  passByReference?: boolean;
   [key: string]: unknown;
 }
 
@@ -81,6 +94,41 @@ export interface DesmosPreviewEdgeUIData {
 
 export type CanvasEdgeUIData = CustomEdgeUIData | DesmosPreviewEdgeUIData;
 
+/**
+ * 画布级的随机数设置：
+ * - seed：画布种子，与节点 id、节点的重新播种偏移一起派生各节点 node_random() 的种子；
+ * - replaceMathRandom：执行期间把 Math.random 也换成节点的种子化生成器。
+ */
+export interface CanvasRandomSettings {
+  seed: number;
+  replaceMathRandom: boolean;
+}
+
+/**
+ * 代码修改的生效方式（计算模式）：
+ * - live：每次修改立即重新计算；
+ * - debounced：停止修改 debounceMs 毫秒后再重新计算；
+ * - manual：修改作为草稿保留在计算层，按 Ctrl+S 或节点上的运行按钮后才生效。
+ * 只作用于代码，控件值、连线等其他修改总是立即生效。
+ */
+export type CanvasEvalMode = 'live' | 'debounced' | 'manual';
+
+export interface CanvasEvalModeSettings {
+  mode: CanvasEvalMode;
+  debounceMs: number;
+}
+
+/**
+ * 画布的业务层数据（运行态）：节点与边均以 id 为键。
+ * 计算层只依赖这部分数据，与 React Flow 的渲染数据无关。
+ */
+export interface CanvasUIData {
+  nodes: Map<string, CanvasNodeUIData>;
+  edges: Map<string, CanvasEdgeUIData>;
+  random: CanvasRandomSettings;
+  evalMode: CanvasEvalModeSettings;
+}
+
 /**
  * FlowData 边类型（仅用于 React Flow 渲染与交互）
  * data 在 flow 层并非必需，所以保持可选。
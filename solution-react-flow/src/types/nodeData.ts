@@ -1,6 +1,8 @@
 /// <reference types="desmos" />
 
 import { Control } from "@/services/jsExecutor";
+import type { NodeCapability } from "@/services/sandbox";
+import type { CanvasEvalModeSettings } from "./canvas";
 
 /**
  * 文本节点的数据结构，负责描述 TextNode 自身需要的业务状态。
@@ -10,6 +12,12 @@ import { Control } from "@/services/jsExecutor";
  * - `nodeName`：节点名称
  * - `isCollapsed`：节点是否折叠
  * - `hiddenSections`：节点内的隐藏部分（哪些部分是隐藏的）
+ * - `timeoutMs`：节点单次执行的时间预算（毫秒），缺省时使用执行引擎的默认值
+ * - `semantics`：全局语义（默认）下顶层定义可被其他节点直接引用；局部语义下只通过显式连线传值
+ * - `capabilities`：节点申请的沙箱能力（网络、存储等），缺省时节点代码只能使用沙箱白名单内的全局名字
+ * - `randomSeed`：重新播种偏移，与画布种子一起派生节点的随机种子；缺省为 0，“重新播种”时换成新的随机值
+ * - `evalMode`：本节点代码修改的生效方式（实时 / 防抖 / 手动），缺省时跟随画布设置
+ * - `inlineValues`：是否记录顶层语句的值并显示在代码行尾
  */
 export interface TextNodeUIData extends Record<string, unknown> {
   code: string;
@@ -25,6 +33,12 @@ export interface TextNodeUIData extends Record<string, unknown> {
     logs: boolean;
     errors: boolean;
   };
+  timeoutMs?: number;
+  semantics?: 'global' | 'local';
+  capabilities?: NodeCapability[];
+  randomSeed?: number;
+  evalMode?: CanvasEvalModeSettings;
+  inlineValues?: boolean;
 };
 
 /**
@@ -37,3 +51,16 @@ export interface DesmosPreviewNodeUIData extends Record<string, unknown> {
 }
 
 
+
+/**
+ * 共享库节点的数据结构：
+ * - `code`：库代码，其顶层定义会注入到所有 TextNode 的作用域中，无需连线
+ * - `nodeName`：库名称，显示在节点头部与共享库面板中
+ * - `width` / `isCollapsed` 驱动画布内的 UI 表现
+ */
+export interface LibraryNodeUIData extends Record<string, unknown> {
+  code: string;
+  nodeName: string;
+  width?: number;
+  isCollapsed: boolean;
+}
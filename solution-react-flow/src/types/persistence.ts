@@ -3,6 +3,8 @@ import type {
   CanvasEdgeUIData,
   CanvasNodeFlowData,
   CanvasNodeUIData,
+  CanvasEvalModeSettings,
+  CanvasRandomSettings,
 } from '@/types/canvas';
 import type { Viewport } from '@xyflow/react';
 
@@ -10,11 +12,15 @@ import type { Viewport } from '@xyflow/react';
  * 画布持久化的最新结构（v9）
  * - 运行态使用 Map
  * - 持久化层使用 Record，避免 id 在 value 内重复存储
+ * - random 为画布级随机数设置，旧存档中没有该字段，读取时使用默认值
+ * - evalMode 为画布级计算模式，旧存档中没有该字段，读取时使用默认值（实时）
  */
 export interface CanvasArchiveState {
   uiData: {
     nodes: Record<string, CanvasNodeUIData>;
     edges: Record<string, CanvasEdgeUIData>;
+    random?: CanvasRandomSettings;
+    evalMode?: CanvasEvalModeSettings;
   };
   flowData: {
     nodes: CanvasNodeFlowData[];